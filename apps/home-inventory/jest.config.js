@@ -0,0 +1,12 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  testMatch: ["**/*.test.ts"],
+  // Tests run against a PostgreSQL server started for the run
+  globalSetup: "<rootDir>/src/__tests__/globalSetup.ts",
+  globalTeardown: "<rootDir>/src/__tests__/globalTeardown.ts",
+  moduleNameMapper: {
+    "^@platform/(.*)$": "<rootDir>/../../platform/$1",
+  },
+};
@@ -0,0 +1,9 @@
+-- Drops every Home Inventory table, dependents first
+
+DROP TABLE IF EXISTS catalog_products;
+DROP TABLE IF EXISTS stock_movements;
+DROP TABLE IF EXISTS shopping_list_entries;
+DROP TABLE IF EXISTS inventory_items;
+DROP TABLE IF EXISTS storage_locations;
+DROP TABLE IF EXISTS household_members;
+DROP TABLE IF EXISTS households;
@@ -0,0 +1,97 @@
+-- Home Inventory initial schema (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS households (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households (id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS household_members_household_idx ON household_members (household_id);
+
+CREATE TABLE IF NOT EXISTS storage_locations (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households (id) ON DELETE RESTRICT,
+  name VARCHAR(255) NOT NULL,
+  kind VARCHAR(50),
+  parent_id INTEGER REFERENCES storage_locations (id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS storage_locations_household_idx ON storage_locations (household_id);
+CREATE INDEX IF NOT EXISTS storage_locations_parent_idx ON storage_locations (parent_id);
+
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households (id) ON DELETE RESTRICT,
+  owner_id INTEGER REFERENCES household_members (id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(100) NOT NULL,
+  quantity DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  unit VARCHAR(50) NOT NULL DEFAULT 'each',
+  min_quantity DOUBLE PRECISION CHECK (min_quantity >= 0),
+  location VARCHAR(255),
+  location_id INTEGER REFERENCES storage_locations (id) ON DELETE SET NULL,
+  barcode VARCHAR(14),
+  purchase_date DATE,
+  expiry_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_items_household_idx ON inventory_items (household_id, name);
+CREATE INDEX IF NOT EXISTS inventory_items_owner_idx ON inventory_items (owner_id);
+CREATE INDEX IF NOT EXISTS inventory_items_category_idx ON inventory_items (category);
+CREATE INDEX IF NOT EXISTS inventory_items_expiry_date_idx ON inventory_items (expiry_date);
+CREATE INDEX IF NOT EXISTS inventory_items_location_idx ON inventory_items (location_id);
+CREATE INDEX IF NOT EXISTS inventory_items_barcode_idx ON inventory_items (barcode);
+
+CREATE TABLE IF NOT EXISTS shopping_list_entries (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households (id) ON DELETE CASCADE,
+  item_id INTEGER REFERENCES inventory_items (id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+  quantity DOUBLE PRECISION NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+  unit VARCHAR(50) NOT NULL DEFAULT 'each',
+  checked BOOLEAN NOT NULL DEFAULT FALSE,
+  source VARCHAR(20) NOT NULL DEFAULT 'manual',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id SERIAL PRIMARY KEY,
+  item_id INTEGER NOT NULL REFERENCES inventory_items (id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  quantity_change DOUBLE PRECISION NOT NULL,
+  quantity_after DOUBLE PRECISION NOT NULL,
+  note TEXT,
+  reason VARCHAR(20) CHECK (reason IS NULL OR type = 'discard'),
+  price DOUBLE PRECISION CHECK (price >= 0),
+  store VARCHAR(255),
+  purchased_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_item_idx ON stock_movements (item_id, created_at);
+
+-- Shared by every household: a barcode names the same product everywhere
+CREATE TABLE IF NOT EXISTS catalog_products (
+  id SERIAL PRIMARY KEY,
+  barcode VARCHAR(14) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(100) NOT NULL,
+  default_unit VARCHAR(50) NOT NULL DEFAULT 'each',
+  shelf_life_days INTEGER CHECK (shelf_life_days >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,10 @@
+-- Deletes soft-deleted items for good, together with their stock movements
+
+DROP TABLE IF EXISTS audit_history;
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_item_id_fkey;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_item_id_fkey
+  FOREIGN KEY (item_id) REFERENCES inventory_items (id) ON DELETE CASCADE;
+
+DELETE FROM inventory_items WHERE deleted_at IS NOT NULL;
+ALTER TABLE inventory_items DROP COLUMN IF EXISTS deleted_at;
@@ -0,0 +1,21 @@
+-- Deleted items are kept so that their stock movements stay in the ledger
+
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_item_id_fkey;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_item_id_fkey
+  FOREIGN KEY (item_id) REFERENCES inventory_items (id) ON DELETE RESTRICT;
+
+-- Change history of audited tables (inventory_items)
+CREATE TABLE IF NOT EXISTS audit_history (
+  id SERIAL PRIMARY KEY,
+  table_name VARCHAR(255) NOT NULL,
+  record_id VARCHAR(255) NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  actor VARCHAR(255),
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_history_record_idx ON audit_history (table_name, record_id);
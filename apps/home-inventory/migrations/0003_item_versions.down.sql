@@ -0,0 +1,3 @@
+-- Item writes are no longer checked against a version
+
+ALTER TABLE inventory_items DROP COLUMN IF EXISTS version;
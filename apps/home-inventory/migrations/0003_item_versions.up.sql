@@ -0,0 +1,3 @@
+-- Stock changes only apply to the item version they were computed from
+
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
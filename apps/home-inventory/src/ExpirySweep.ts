@@ -0,0 +1,131 @@
+import dayjs from "dayjs";
+import { generatePublisher } from "@platform/messaging";
+import { Publisher } from "@platform/messaging/Publisher";
+import * as consts from "./consts";
+import HomeInventory from "./HomeInventory";
+import { ExpiringItem, ItemExpiringEvent } from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+
+/**
+ * Periodically scans every household's inventory for items that are about
+ * to expire and publishes an `inventory.item.expiring` event for each one,
+ * so other services can react without polling the inventory API.
+ */
+export default class ExpirySweep {
+  /** The inventory to scan */
+  inventory: HomeInventory;
+
+  /** The publisher events are sent through */
+  publisher: Publisher;
+
+  /** Size of the look-ahead window in days */
+  days: number;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new ExpirySweep instance.
+   *
+   * @param {HomeInventory} inventory - The inventory to scan
+   * @param {Publisher} publisher - The publisher events are sent through
+   * @param {number} days - Size of the look-ahead window in days
+   */
+  constructor(
+    inventory: HomeInventory,
+    publisher: Publisher,
+    days: number = consts.EXPIRING_SOON_DAYS
+  ) {
+    this.inventory = inventory;
+    this.publisher = publisher;
+    this.days = days;
+  }
+
+  /**
+   * Factory method to create an ExpirySweep with a connected Kafka publisher
+   * on the `inventory.item.expiring` topic.
+   *
+   * @param {HomeInventory} inventory - The inventory to scan
+   * @returns {Promise<ExpirySweep>} A Promise that resolves to a new ExpirySweep instance
+   */
+  static async create(inventory: HomeInventory): Promise<ExpirySweep> {
+    const publisher = await generatePublisher(
+      consts.ITEM_EXPIRING_EVENT,
+      consts.KAFKA_CLIENT_ID
+    );
+
+    return new ExpirySweep(inventory, publisher);
+  }
+
+  /**
+   * Runs a single sweep.
+   *
+   * @returns {Promise<number>} The number of events published
+   */
+  async sweep(): Promise<number> {
+    const households = await this.inventory.households.listHouseholds();
+    const detectedAt = new Date().toISOString();
+
+    let published = 0;
+    for (const household of households) {
+      const items = await this.inventory.listExpiringItems(
+        household.id as HouseholdId,
+        this.days
+      );
+      for (const item of items) {
+        await this.publisher.publish(
+          consts.ITEM_EXPIRING_EVENT,
+          this.toEvent(item, detectedAt)
+        );
+      }
+      published += items.length;
+    }
+
+    return published;
+  }
+
+  /**
+   * Runs a sweep immediately and then on every interval. Failed sweeps are
+   * logged and retried on the next tick.
+   *
+   * @param {number} intervalMs - Time between sweeps in milliseconds
+   */
+  start(intervalMs: number = consts.EXPIRY_SWEEP_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.sweep().catch((error) => {
+        console.error("Expiry sweep failed:", error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stops the scheduled sweeps.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private toEvent(item: ExpiringItem, detectedAt: string): ItemExpiringEvent {
+    return {
+      household_id: item.household_id,
+      item_id: item.id as NonNullable<ExpiringItem["id"]>,
+      name: item.name,
+      category: item.category,
+      quantity: item.quantity,
+      unit: item.unit,
+      location: item.location ?? null,
+      expiry_date: dayjs(item.expiry_date).format("YYYY-MM-DD"),
+      days_until_expiry: item.days_until_expiry,
+      detected_at: detectedAt,
+    };
+  }
+}
@@ -0,0 +1,679 @@
+import dayjs from "dayjs";
+import {
+  createPersistence,
+  DatabaseType,
+  PersistenceImplementation,
+  VersionConflictError,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { ConflictError, NotFoundError } from "./errors";
+import Households from "./Households";
+import InventoryEvents from "./InventoryEvents";
+import LocationTree from "./LocationTree";
+import ProductCatalog from "./ProductCatalog";
+import ShoppingList from "./ShoppingList";
+import SpendReports from "./SpendReports";
+import StockLedger from "./StockLedger";
+import {
+  ExpiringItem,
+  HomeInventoryInterface,
+  InventoryItem,
+  InventoryItemFilter,
+  InventoryItemId,
+  InventoryItemInput,
+  InventoryItemUpdate,
+} from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+import { InventoryEventName } from "./types/InventoryEvents";
+import {
+  ConsumptionForecast,
+  DiscardReason,
+  PurchaseDetails,
+  StockMovement,
+  StockMovementType,
+} from "./types/StockMovement";
+import { StorageLocationId } from "./types/StorageLocation";
+
+/**
+ * Domain service for the household inventory.
+ *
+ * Items are stored through the platform persistence layer; this class owns
+ * the business rules around them (not-found handling, timestamps, filtering)
+ * so the HTTP controllers stay thin. Every item belongs to a household, and
+ * every operation is scoped to one: an item in another household is
+ * reported as not found.
+ *
+ * @implements {HomeInventoryInterface}
+ */
+export default class HomeInventory implements HomeInventoryInterface {
+  /** The persistence implementation backing the items table */
+  items: PersistenceImplementation<InventoryItem>;
+
+  /** The households items belong to */
+  households: Households;
+
+  /** The shopping list low-stock items are added to */
+  shoppingList: ShoppingList;
+
+  /** The append-only log of stock movements */
+  ledger: StockLedger;
+
+  /** The storage locations items can be placed in */
+  locations: LocationTree;
+
+  /** The barcode catalog used to prefill new items */
+  catalog: ProductCatalog;
+
+  /** Spend and waste reports over the stock ledger */
+  reports: SpendReports;
+
+  /** The domain events changes are published through */
+  events: InventoryEvents;
+
+  /**
+   * Creates a new HomeInventory instance.
+   *
+   * @param {PersistenceImplementation<InventoryItem>} items - Persistence for inventory items
+   * @param {Households} households - The households items belong to
+   * @param {ShoppingList} shoppingList - The shopping list low-stock items are added to
+   * @param {StockLedger} ledger - The append-only log of stock movements
+   * @param {LocationTree} locations - The storage locations items can be placed in
+   * @param {ProductCatalog} catalog - The barcode catalog used to prefill new items
+   * @param {SpendReports} reports - Spend and waste reports over the stock ledger
+   * @param {InventoryEvents} events - The domain events changes are published through
+   */
+  constructor(
+    items: PersistenceImplementation<InventoryItem>,
+    households: Households,
+    shoppingList: ShoppingList,
+    ledger: StockLedger,
+    locations: LocationTree,
+    catalog: ProductCatalog,
+    reports: SpendReports,
+    events: InventoryEvents
+  ) {
+    this.items = items;
+    this.households = households;
+    this.shoppingList = shoppingList;
+    this.ledger = ledger;
+    this.locations = locations;
+    this.catalog = catalog;
+    this.reports = reports;
+    this.events = events;
+  }
+
+  /**
+   * Factory method to create a HomeInventory backed by PostgreSQL, configured
+   * from the standard `POSTGRES_*` environment variables. Events are dropped
+   * until `events.connect()` has succeeded.
+   *
+   * @returns {HomeInventory} A new HomeInventory instance
+   */
+  static create(): HomeInventory {
+    const items = createPersistence<InventoryItem>({
+      databaseType: DatabaseType.POSTGRES,
+      tableOrCollectionName: consts.ITEMS_TABLE,
+      // Deleted items are only marked deleted, keeping their movements
+      audit: {},
+      // Stock changes only apply to the quantity they were computed from
+      versioned: true,
+    });
+
+    const events = new InventoryEvents();
+
+    return new HomeInventory(
+      items,
+      Households.create(events),
+      ShoppingList.create(events),
+      StockLedger.create(),
+      LocationTree.create(events),
+      ProductCatalog.create(events),
+      SpendReports.create(),
+      events
+    );
+  }
+
+  /**
+   * Stores a new item. Its starting quantity is recorded as the item's first
+   * `add` movement, together with what was paid for it, in the same
+   * transaction as the item.
+   *
+   * @param {HouseholdId} householdId - The household the item belongs to
+   * @param {InventoryItemInput} input - The validated item fields
+   * @param {PurchaseDetails} purchase - Optional price and store; the purchase date defaults to the item's
+   * @returns {Promise<InventoryItem>} The stored item, including its generated ID
+   * @throws {NotFoundError} When the location or owner is not in the household
+   */
+  async createItem(
+    householdId: HouseholdId,
+    input: InventoryItemInput,
+    purchase: PurchaseDetails = {}
+  ): Promise<InventoryItem> {
+    await this.checkReferences(householdId, input);
+
+    const { id, movement } = await this.items.withTransaction(async (tx) => {
+      const itemId = await tx.create({
+        ...input,
+        household_id: householdId,
+      });
+      if (itemId === null || itemId === undefined) {
+        throw new Error("Inventory item was not created");
+      }
+      if (input.quantity <= 0) {
+        return { id: itemId, movement: null };
+      }
+
+      const movement = await this.ledger.joinTransaction(tx).record({
+        item_id: itemId,
+        type: StockMovementType.ADD,
+        quantity_change: input.quantity,
+        quantity_after: input.quantity,
+        note: "Initial stock",
+        ...purchase,
+        purchased_on: purchase.purchased_on ?? input.purchase_date ?? null,
+      });
+      return { id: itemId, movement };
+    });
+
+    const item = await this.getItem(householdId, id);
+    await this.events.emit(InventoryEventName.ITEM_CREATED, { item });
+    if (movement) {
+      await this.events.emit(InventoryEventName.STOCK_CHANGED, {
+        item,
+        movement,
+      });
+    }
+
+    return item;
+  }
+
+  /**
+   * Lists a household's items, optionally narrowed to a category, location
+   * and/or owner.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemFilter} filter - Optional equality filters
+   * @returns {Promise<InventoryItem[]>} The matching items sorted by name
+   */
+  async listItems(
+    householdId: HouseholdId,
+    filter: InventoryItemFilter = {}
+  ): Promise<InventoryItem[]> {
+    const scoped = { ...filter, household_id: householdId };
+
+    const page = await this.items.findMany({
+      filter: scoped,
+      sort: { name: "asc" },
+    });
+
+    return page.items;
+  }
+
+  /**
+   * Fetches a single item.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @returns {Promise<InventoryItem>} The stored item
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async getItem(
+    householdId: HouseholdId,
+    id: InventoryItemId
+  ): Promise<InventoryItem> {
+    const item = await this.items.get(id);
+    if (!item || String(item.household_id) !== String(householdId)) {
+      throw new NotFoundError("Inventory item", id);
+    }
+
+    return item;
+  }
+
+  /**
+   * Applies a partial update to an item. A changed quantity is recorded as
+   * an `adjust` movement in the stock ledger rather than overwritten. With
+   * a `version`, nothing is changed unless the item is still at it.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {InventoryItemUpdate} changes - The validated fields to change
+   * @returns {Promise<InventoryItem>} The item after the update
+   * @throws {NotFoundError} When the item, location or owner is not in the household
+   * @throws {VersionConflictError} When the item has changed since `version`
+   */
+  async updateItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    changes: InventoryItemUpdate
+  ): Promise<InventoryItem> {
+    const { quantity, version, ...fields } = changes;
+    let item = await this.getItem(householdId, id);
+    await this.checkReferences(householdId, fields);
+
+    // A quantity-only change still writes the item when a version is given,
+    // so that the version is checked before the stock is adjusted
+    const changed = Object.keys(fields);
+    if (changed.length > 0 || version !== undefined) {
+      const updated = await this.items.update({
+        ...fields,
+        id: item.id,
+        ...(version === undefined ? {} : { version }),
+        updated_at: new Date(),
+      } as InventoryItem);
+      if (updated === null || updated === undefined) {
+        throw new NotFoundError("Inventory item", id);
+      }
+      item = await this.getItem(householdId, id);
+    }
+    if (changed.length > 0) {
+      await this.events.emit(InventoryEventName.ITEM_UPDATED, {
+        item,
+        changed,
+      });
+    }
+
+    if (quantity !== undefined && quantity !== item.quantity) {
+      item = await this.applyMovement(
+        item,
+        StockMovementType.ADJUST,
+        (current) => quantity - current.quantity
+      );
+    }
+
+    return item;
+  }
+
+  /**
+   * Puts an amount into stock, e.g. after shopping.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {number} amount - How much was added, in the item's unit
+   * @param {string | null} note - Optional free-text note for the ledger
+   * @param {PurchaseDetails} purchase - Optional price, store and purchase date
+   * @returns {Promise<InventoryItem>} The item after the change
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async addStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    note: string | null = null,
+    purchase: PurchaseDetails = {}
+  ): Promise<InventoryItem> {
+    const item = await this.getItem(householdId, id);
+
+    return await this.applyMovement(
+      item,
+      StockMovementType.ADD,
+      () => amount,
+      note,
+      purchase
+    );
+  }
+
+  /**
+   * Takes an amount out of stock. When the remaining quantity drops below
+   * the item's minimum, the item is added to the shopping list.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {number} amount - How much was used, in the item's unit
+   * @param {string | null} note - Optional free-text note for the ledger
+   * @returns {Promise<InventoryItem>} The item after the change
+   * @throws {NotFoundError} When the household has no item with the given ID
+   * @throws {ConflictError} When more is consumed than is in stock
+   */
+  async consumeItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    note: string | null = null
+  ): Promise<InventoryItem> {
+    const item = await this.getItem(householdId, id);
+
+    return await this.applyMovement(
+      item,
+      StockMovementType.CONSUME,
+      () => -amount,
+      note
+    );
+  }
+
+  /**
+   * Throws an amount away without it being used. The reason is kept in the
+   * ledger for the waste report.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {number} amount - How much was discarded, in the item's unit
+   * @param {DiscardReason} reason - Why it was thrown away
+   * @param {string | null} note - Optional free-text note for the ledger
+   * @returns {Promise<InventoryItem>} The item after the change
+   * @throws {NotFoundError} When the household has no item with the given ID
+   * @throws {ConflictError} When more is discarded than is in stock
+   */
+  async discardStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    reason: DiscardReason,
+    note: string | null = null
+  ): Promise<InventoryItem> {
+    const item = await this.getItem(householdId, id);
+
+    return await this.applyMovement(
+      item,
+      StockMovementType.DISCARD,
+      () => -amount,
+      note,
+      { reason }
+    );
+  }
+
+  /**
+   * Corrects the quantity on hand after a stock take.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {number} quantity - The counted quantity
+   * @param {string | null} note - Optional free-text note for the ledger
+   * @returns {Promise<InventoryItem>} The item after the change
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async adjustStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    quantity: number,
+    note: string | null = null
+  ): Promise<InventoryItem> {
+    const item = await this.getItem(householdId, id);
+
+    return await this.applyMovement(
+      item,
+      StockMovementType.ADJUST,
+      (current) => quantity - current.quantity,
+      note
+    );
+  }
+
+  /**
+   * Lists an item's stock movements, newest first.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @returns {Promise<StockMovement[]>} The item's movements
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async listMovements(
+    householdId: HouseholdId,
+    id: InventoryItemId
+  ): Promise<StockMovement[]> {
+    const item = await this.getItem(householdId, id);
+
+    return await this.ledger.listForItem(item.id as InventoryItemId);
+  }
+
+  /**
+   * Forecasts when an item will run out, from how fast it was consumed over
+   * the last `windowDays` days. Items younger than the window are measured
+   * over their own lifetime so a fresh item is not assumed to be idle.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {number} windowDays - How many days of history to consider
+   * @returns {Promise<ConsumptionForecast>} The forecast
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async forecastItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    windowDays: number = consts.FORECAST_WINDOW_DAYS
+  ): Promise<ConsumptionForecast> {
+    const item = await this.getItem(householdId, id);
+    const now = dayjs();
+    const since = now.subtract(windowDays, "day");
+    const movements = await this.ledger.listForItem(
+      item.id as InventoryItemId,
+      since.toDate()
+    );
+
+    const consumed = movements
+      .filter((movement) => movement.type === StockMovementType.CONSUME)
+      .reduce((total, movement) => total - movement.quantity_change, 0);
+
+    const tracked = dayjs(item.created_at ?? since.toDate());
+    const elapsedDays = Math.min(
+      windowDays,
+      Math.max(now.diff(tracked, "day", true), 1)
+    );
+    const dailyRate = consumed / elapsedDays;
+    const daysUntilEmpty = dailyRate > 0 ? item.quantity / dailyRate : null;
+
+    return {
+      item_id: item.id as InventoryItemId,
+      quantity: item.quantity,
+      unit: item.unit,
+      window_days: Math.round(elapsedDays * 100) / 100,
+      consumed,
+      daily_rate: Math.round(dailyRate * 1000) / 1000,
+      days_until_empty:
+        daysUntilEmpty === null ? null : Math.floor(daysUntilEmpty),
+      empty_on:
+        daysUntilEmpty === null
+          ? null
+          : now.add(daysUntilEmpty, "day").format("YYYY-MM-DD"),
+    };
+  }
+
+  /**
+   * Moves an item to another storage location, or takes it out of any
+   * location when `locationId` is null.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @param {StorageLocationId | null} locationId - The destination location
+   * @returns {Promise<InventoryItem>} The item after the move
+   * @throws {NotFoundError} When the item or location is not in the household
+   */
+  async moveItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    locationId: StorageLocationId | null
+  ): Promise<InventoryItem> {
+    return await this.updateItem(householdId, id, { location_id: locationId });
+  }
+
+  /**
+   * Removes an item. The item is only marked deleted, so its movements stay
+   * in the ledger and in the spend and waste reports.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {InventoryItemId} id - The item ID
+   * @throws {NotFoundError} When the household has no item with the given ID
+   */
+  async deleteItem(
+    householdId: HouseholdId,
+    id: InventoryItemId
+  ): Promise<void> {
+    const item = await this.getItem(householdId, id);
+    const deleted = await this.items.delete(item);
+    if (deleted === null || deleted === undefined) {
+      throw new NotFoundError("Inventory item", id);
+    }
+
+    await this.events.emit(InventoryEventName.ITEM_DELETED, {
+      household_id: item.household_id,
+      item_id: id,
+    });
+  }
+
+  /**
+   * Lists a household's items whose expiry date falls within the next
+   * `days` days, soonest first. Items that have already expired are
+   * included so they are not silently dropped once the date passes.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {number} days - Size of the look-ahead window in days
+   * @returns {Promise<ExpiringItem[]>} The expiring items with their days until expiry
+   */
+  async listExpiringItems(
+    householdId: HouseholdId,
+    days: number
+  ): Promise<ExpiringItem[]> {
+    const today = dayjs().startOf("day");
+    const cutoff = today.add(days, "day").toDate();
+
+    const { items } = await this.items.findMany({
+      filter: {
+        household_id: householdId,
+        expiry_date: { ne: null, lte: cutoff },
+      },
+      sort: { expiry_date: "asc", name: "asc" },
+    });
+
+    return items.map((item) => ({
+      ...item,
+      days_until_expiry: dayjs(item.expiry_date)
+        .startOf("day")
+        .diff(today, "day"),
+    }));
+  }
+
+  /**
+   * Records a stock movement and moves the item's quantity by the same
+   * amount, in one transaction so the ledger always replays to the stored
+   * quantity. `changeOf` computes the change from the item as read inside
+   * the transaction; the update only applies at that item's version, and is
+   * retried on a fresh read when a concurrent change got there first. Any
+   * decrease that leaves the item below its minimum puts it on the shopping
+   * list. `details` carries the purchase of an `add` or the reason for a
+   * `discard`.
+   *
+   * @throws {ConflictError} When the change would leave a negative quantity,
+   * or the item kept changing under every attempt
+   */
+  private async applyMovement(
+    item: InventoryItem,
+    type: StockMovementType,
+    changeOf: (current: InventoryItem) => number,
+    note: string | null = null,
+    details: PurchaseDetails & { reason?: DiscardReason } = {}
+  ): Promise<InventoryItem> {
+    const id = item.id as InventoryItemId;
+
+    let movement: StockMovement | undefined;
+    for (let attempt = 1; !movement; attempt++) {
+      try {
+        movement = await this.items.withTransaction(async (tx) => {
+          const current = await tx.get(id);
+          if (!current) {
+            throw new NotFoundError("Inventory item", id);
+          }
+          const change = changeOf(current);
+          const quantity = current.quantity + change;
+          if (quantity < 0) {
+            throw new ConflictError(
+              `Cannot ${type} ${-change} ${current.unit} of '${
+                current.name
+              }'; only ${current.quantity} in stock`
+            );
+          }
+
+          const updated = await tx.update({
+            id,
+            quantity,
+            version: current.version,
+            updated_at: new Date(),
+          } as InventoryItem);
+          if (updated === null || updated === undefined) {
+            throw new NotFoundError("Inventory item", id);
+          }
+
+          return await this.ledger.joinTransaction(tx).record({
+            item_id: id,
+            type,
+            quantity_change: change,
+            quantity_after: quantity,
+            note,
+            ...details,
+          });
+        });
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) {
+          throw error;
+        }
+        if (attempt >= consts.STOCK_WRITE_ATTEMPTS) {
+          throw new ConflictError(
+            `'${item.name}' kept changing while its stock was updated; try again`
+          );
+        }
+      }
+    }
+
+    const result = await this.getItem(item.household_id, id);
+    await this.events.emit(InventoryEventName.STOCK_CHANGED, {
+      item: result,
+      movement,
+    });
+    if (movement.quantity_change < 0) {
+      await this.restockIfLow(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks that the location and owner an item refers to belong to the
+   * item's household.
+   */
+  private async checkReferences(
+    householdId: HouseholdId,
+    fields: InventoryItemUpdate
+  ): Promise<void> {
+    if (fields.location_id !== null && fields.location_id !== undefined) {
+      await this.locations.getLocation(householdId, fields.location_id);
+    }
+    if (fields.owner_id !== null && fields.owner_id !== undefined) {
+      await this.households.getMember(householdId, fields.owner_id);
+    }
+  }
+
+  /**
+   * Adds an item to the shopping list if its stock is below its minimum.
+   *
+   * @param {InventoryItem} item - The item as stored after a decrease
+   */
+  async restockIfLow(item: InventoryItem): Promise<void> {
+    if (
+      item.min_quantity !== null &&
+      item.min_quantity !== undefined &&
+      item.quantity < item.min_quantity
+    ) {
+      await this.shoppingList.addLowStockItem(item);
+    }
+  }
+
+  /**
+   * Health check for the underlying database.
+   *
+   * @returns {Promise<boolean>} True when the database answers
+   */
+  async healthCheck(): Promise<boolean> {
+    return await this.items.healthCheck();
+  }
+
+  /**
+   * Releases database connections.
+   */
+  async close(): Promise<void> {
+    await this.items.close();
+    await this.households.households.close();
+    await this.households.members.close();
+    await this.shoppingList.entries.close();
+    await this.ledger.movements.close();
+    await this.locations.locations.close();
+    await this.catalog.products.close();
+    await this.reports.movements.close();
+  }
+}
@@ -0,0 +1,267 @@
+import {
+  createPostgresPersistence,
+  PostgresPersistence,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { ConflictError, NotFoundError } from "./errors";
+import InventoryEvents from "./InventoryEvents";
+import {
+  Household,
+  HouseholdId,
+  HouseholdInput,
+  HouseholdMember,
+  HouseholdMemberId,
+  HouseholdMemberInput,
+  HouseholdsInterface,
+} from "./types/Household";
+import { InventoryEventName } from "./types/InventoryEvents";
+
+/**
+ * The households one deployment serves and the people in them.
+ *
+ * Each household has its own items, locations and shopping list, so
+ * roommates or separate units can share a server without seeing each
+ * other's stock. Only the barcode catalog is shared.
+ *
+ * @implements {HouseholdsInterface}
+ */
+export default class Households implements HouseholdsInterface {
+  /** The persistence implementation backing the households table */
+  households: PostgresPersistence<Household>;
+
+  /** The persistence implementation backing the members table */
+  members: PostgresPersistence<HouseholdMember>;
+
+  /** The domain events changes are published through */
+  events: InventoryEvents;
+
+  /**
+   * Creates a new Households instance.
+   *
+   * @param {PostgresPersistence<Household>} households - Persistence for households
+   * @param {PostgresPersistence<HouseholdMember>} members - Persistence for household members
+   * @param {InventoryEvents} events - The domain events changes are published through
+   */
+  constructor(
+    households: PostgresPersistence<Household>,
+    members: PostgresPersistence<HouseholdMember>,
+    events: InventoryEvents
+  ) {
+    this.households = households;
+    this.members = members;
+    this.events = events;
+  }
+
+  /**
+   * Factory method to create Households backed by PostgreSQL.
+   *
+   * @param {InventoryEvents} events - The domain events changes are published through
+   * @returns {Households} A new Households instance
+   */
+  static create(events: InventoryEvents): Households {
+    return new Households(
+      createPostgresPersistence<Household>(consts.HOUSEHOLDS_TABLE),
+      createPostgresPersistence<HouseholdMember>(
+        consts.HOUSEHOLD_MEMBERS_TABLE
+      ),
+      events
+    );
+  }
+
+  /**
+   * Adds a household.
+   *
+   * @param {HouseholdInput} input - The validated household fields
+   * @returns {Promise<Household>} The stored household
+   */
+  async createHousehold(input: HouseholdInput): Promise<Household> {
+    const id = await this.households.create(input);
+    if (id === null || id === undefined) {
+      throw new Error("Household was not created");
+    }
+
+    const household = await this.getHousehold(id);
+    await this.events.emit(InventoryEventName.HOUSEHOLD_CREATED, {
+      household,
+    });
+
+    return household;
+  }
+
+  /**
+   * Lists every household, sorted by name.
+   *
+   * @returns {Promise<Household[]>} The households
+   */
+  async listHouseholds(): Promise<Household[]> {
+    const result = await this.households.query(
+      `SELECT * FROM ${consts.HOUSEHOLDS_TABLE} ORDER BY name`
+    );
+
+    return result.rows as Household[];
+  }
+
+  /**
+   * Fetches a single household.
+   *
+   * @param {HouseholdId} id - The household ID
+   * @returns {Promise<Household>} The stored household
+   * @throws {NotFoundError} When no household has the given ID
+   */
+  async getHousehold(id: HouseholdId): Promise<Household> {
+    const household = await this.households.get(id);
+    if (!household) {
+      throw new NotFoundError("Household", id);
+    }
+
+    return household;
+  }
+
+  /**
+   * Renames a household.
+   *
+   * @param {HouseholdId} id - The household ID
+   * @param {HouseholdInput} changes - The validated fields to change
+   * @returns {Promise<Household>} The household after the update
+   * @throws {NotFoundError} When no household has the given ID
+   */
+  async updateHousehold(
+    id: HouseholdId,
+    changes: HouseholdInput
+  ): Promise<Household> {
+    const household = await this.getHousehold(id);
+
+    await this.households.update({
+      ...changes,
+      id: household.id,
+      updated_at: new Date(),
+    } as Household);
+
+    const updated = await this.getHousehold(id);
+    await this.events.emit(InventoryEventName.HOUSEHOLD_UPDATED, {
+      household: updated,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Removes a household with its members and shopping list. Households
+   * that still hold items or locations cannot be removed, so stock is
+   * never deleted by accident. Deleted items count too, since their stock
+   * history is kept.
+   *
+   * @param {HouseholdId} id - The household ID
+   * @throws {NotFoundError} When no household has the given ID
+   * @throws {ConflictError} When the household still holds items or locations
+   */
+  async deleteHousehold(id: HouseholdId): Promise<void> {
+    const household = await this.getHousehold(id);
+
+    const result = await this.households.query(
+      `SELECT
+         EXISTS (SELECT 1 FROM ${consts.ITEMS_TABLE} WHERE household_id = $1)
+         OR EXISTS (SELECT 1 FROM ${consts.LOCATIONS_TABLE} WHERE household_id = $1)
+         AS in_use`,
+      [household.id]
+    );
+    if (result.rows[0]?.in_use) {
+      throw new ConflictError(
+        `Household '${household.name}' still has items or locations; remove them first`
+      );
+    }
+
+    await this.households.delete(household);
+    await this.events.emit(InventoryEventName.HOUSEHOLD_DELETED, {
+      household_id: household.id as HouseholdId,
+    });
+  }
+
+  /**
+   * Adds a member to a household.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {HouseholdMemberInput} input - The validated member fields
+   * @returns {Promise<HouseholdMember>} The stored member
+   * @throws {NotFoundError} When no household has the given ID
+   */
+  async addMember(
+    householdId: HouseholdId,
+    input: HouseholdMemberInput
+  ): Promise<HouseholdMember> {
+    const household = await this.getHousehold(householdId);
+
+    const id = await this.members.create({
+      ...input,
+      household_id: household.id as HouseholdId,
+      email: input.email ?? null,
+    });
+    if (id === null || id === undefined) {
+      throw new Error("Household member was not created");
+    }
+
+    const member = await this.getMember(householdId, id);
+    await this.events.emit(InventoryEventName.HOUSEHOLD_MEMBER_ADDED, {
+      member,
+    });
+
+    return member;
+  }
+
+  /**
+   * Lists a household's members, sorted by name.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @returns {Promise<HouseholdMember[]>} The members
+   */
+  async listMembers(householdId: HouseholdId): Promise<HouseholdMember[]> {
+    const result = await this.members.query(
+      `SELECT * FROM ${consts.HOUSEHOLD_MEMBERS_TABLE}
+       WHERE household_id = $1 ORDER BY name`,
+      [householdId]
+    );
+
+    return result.rows as HouseholdMember[];
+  }
+
+  /**
+   * Fetches a single member of a household.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {HouseholdMemberId} id - The member ID
+   * @returns {Promise<HouseholdMember>} The stored member
+   * @throws {NotFoundError} When the household has no member with the given ID
+   */
+  async getMember(
+    householdId: HouseholdId,
+    id: HouseholdMemberId
+  ): Promise<HouseholdMember> {
+    const member = await this.members.get(id);
+    if (!member || String(member.household_id) !== String(householdId)) {
+      throw new NotFoundError("Household member", id);
+    }
+
+    return member;
+  }
+
+  /**
+   * Removes a member. Items they owned stay in the household as shared
+   * items.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {HouseholdMemberId} id - The member ID
+   * @throws {NotFoundError} When the household has no member with the given ID
+   */
+  async removeMember(
+    householdId: HouseholdId,
+    id: HouseholdMemberId
+  ): Promise<void> {
+    const member = await this.getMember(householdId, id);
+
+    await this.members.delete(member);
+    await this.events.emit(InventoryEventName.HOUSEHOLD_MEMBER_REMOVED, {
+      household_id: member.household_id,
+      member_id: member.id as HouseholdMemberId,
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import { generatePublisher } from "@platform/messaging";
+import { Publisher } from "@platform/messaging/Publisher";
+import * as consts from "./consts";
+import { currentCorrelationId } from "./correlation";
+import {
+  InventoryEvent,
+  InventoryEventName,
+  InventoryEventPayloads,
+  InventoryEventsInterface,
+} from "./types/InventoryEvents";
+
+/**
+ * Publishes a domain event for every change to the inventory, so other
+ * services can follow its state over Kafka instead of polling the API.
+ *
+ * Events are sent after the change has been stored. Publishing is best
+ * effort: until a publisher is connected, or when Kafka rejects a message,
+ * the event is logged and dropped rather than failing the request that
+ * caused it.
+ *
+ * @implements {InventoryEventsInterface}
+ */
+export default class InventoryEvents implements InventoryEventsInterface {
+  /** The publisher events are sent through, once connected */
+  publisher: Publisher | null;
+
+  /**
+   * Creates a new InventoryEvents instance.
+   *
+   * @param {Publisher | null} publisher - The publisher events are sent through, or null to connect later
+   */
+  constructor(publisher: Publisher | null = null) {
+    this.publisher = publisher;
+  }
+
+  /**
+   * Connects a Kafka publisher on the `inventory.events` topic.
+   *
+   * @returns {Promise<void>} A Promise that resolves once events can be published
+   */
+  async connect(): Promise<void> {
+    this.publisher = await generatePublisher(
+      consts.EVENTS_TOPIC,
+      consts.KAFKA_CLIENT_ID
+    );
+  }
+
+  /**
+   * Wraps a payload in the event envelope and publishes it. The event
+   * carries the correlation ID of the request being handled, or a fresh one
+   * outside of a request.
+   *
+   * @param {InventoryEventName} name - The event name
+   * @param {InventoryEventPayloads[N]} data - The event payload
+   * @returns {Promise<InventoryEvent<N>>} The event as published
+   */
+  async emit<N extends InventoryEventName>(
+    name: N,
+    data: InventoryEventPayloads[N]
+  ): Promise<InventoryEvent<N>> {
+    const event: InventoryEvent<N> = {
+      id: randomUUID(),
+      name,
+      schema_version: consts.EVENT_SCHEMA_VERSION,
+      source: consts.KAFKA_CLIENT_ID,
+      occurred_at: new Date().toISOString(),
+      correlation_id: currentCorrelationId() ?? randomUUID(),
+      data,
+    };
+
+    if (!this.publisher) {
+      console.warn(`Event ${name} dropped; no publisher is connected`);
+      return event;
+    }
+
+    try {
+      await this.publisher.publish(name, event);
+    } catch (error) {
+      console.error(`Failed to publish event ${name}:`, error);
+    }
+
+    return event;
+  }
+}
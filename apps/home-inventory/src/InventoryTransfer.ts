@@ -0,0 +1,511 @@
+import dayjs from "dayjs";
+import * as consts from "./consts";
+import { toCsv } from "./csv";
+import { HomeInventoryError, NotFoundError, ValidationError } from "./errors";
+import HomeInventory from "./HomeInventory";
+import {
+  InventoryItem,
+  InventoryItemId,
+  InventoryItemInput,
+} from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+import { InventoryEventName } from "./types/InventoryEvents";
+import {
+  ImportAction,
+  ImportOptions,
+  ImportReport,
+  ImportRowResult,
+  InventoryExport,
+  InventoryImport,
+  InventoryTransferInterface,
+  ItemRecord,
+  LocationRecord,
+} from "./types/InventoryTransfer";
+import { StockMovement, StockMovementType } from "./types/StockMovement";
+import {
+  StorageLocationId,
+  StorageLocationNode,
+} from "./types/StorageLocation";
+import {
+  asBody,
+  optionalId,
+  optionalString,
+  parseItemInput,
+  requireString,
+} from "./validation";
+
+const ITEM_COLUMNS: (keyof ItemRecord)[] = [
+  "id",
+  "name",
+  "category",
+  "quantity",
+  "unit",
+  "min_quantity",
+  "location",
+  "location_path",
+  "barcode",
+  "owner_id",
+  "purchase_date",
+  "expiry_date",
+];
+
+/**
+ * Maps a location path to its ID. Locations the import has yet to create
+ * are mapped to `null`.
+ */
+type KnownLocations = Map<string, StorageLocationId | null>;
+
+/** A location the import creates, below the location at `parent` */
+interface NewLocation {
+  path: string;
+  name: string;
+  parent: string | null;
+  kind: string | null;
+}
+
+/** A valid item row, and the report entry for it */
+interface PlannedRow {
+  existing: InventoryItem | null;
+  input: InventoryItemInput;
+  path: string | null;
+  result: ImportRowResult;
+}
+
+/** Everything an import would write, worked out before writing any of it */
+interface ImportPlan {
+  known: KnownLocations;
+  /** The IDs of the household's members, as strings */
+  members: Set<string>;
+  locations: NewLocation[];
+  rows: PlannedRow[];
+}
+
+/**
+ * Bulk import and export of a household's inventory, for initial data entry
+ * and for backups before schema changes.
+ *
+ * Locations are written as paths ("House > Kitchen > Pantry") rather than
+ * IDs so an export can be restored into an empty database. Imports are
+ * meant to be run as a dry run first: the report lists which rows would be
+ * created, updated or rejected, and nothing is written until the import is
+ * repeated with `dryRun: false`.
+ *
+ * @implements {InventoryTransferInterface}
+ */
+export default class InventoryTransfer implements InventoryTransferInterface {
+  /** The inventory to read from and write to */
+  inventory: HomeInventory;
+
+  /**
+   * Creates a new InventoryTransfer instance.
+   *
+   * @param {HomeInventory} inventory - The inventory to read from and write to
+   */
+  constructor(inventory: HomeInventory) {
+    this.inventory = inventory;
+  }
+
+  /**
+   * Exports every location and item of a household.
+   *
+   * @param {HouseholdId} householdId - The household to export
+   * @returns {Promise<InventoryExport>} The household's full inventory
+   */
+  async exportInventory(householdId: HouseholdId): Promise<InventoryExport> {
+    const locations = walk(
+      await this.inventory.locations.listTree(householdId)
+    );
+    const paths = new Map(locations.map(({ id, path }) => [String(id), path]));
+    const items = await this.inventory.listItems(householdId);
+
+    return {
+      exported_at: new Date(),
+      locations: locations.map(({ path, kind }) => ({ path, kind })),
+      items: items.map((item) => toRecord(item, paths)),
+    };
+  }
+
+  /**
+   * Exports every item of a household as CSV, one row per item. Empty
+   * locations are not included; use the JSON export for a complete backup.
+   *
+   * @param {HouseholdId} householdId - The household to export
+   * @returns {Promise<string>} The CSV document
+   */
+  async exportCsv(householdId: HouseholdId): Promise<string> {
+    const { items } = await this.exportInventory(householdId);
+
+    return toCsv(ITEM_COLUMNS, items);
+  }
+
+  /**
+   * Imports locations and items into a household. Rows with an `id` that
+   * matches an existing item of the household update it; all other rows
+   * create new items. Missing locations are created from their paths, and
+   * an `owner_id` that is not a member of the household (e.g. from an export
+   * of another database) is ignored. Rows that fail validation are reported
+   * and skipped; every other row is written in one transaction.
+   *
+   * @param {HouseholdId} householdId - The household to import into
+   * @param {InventoryImport} data - The locations and items to import
+   * @param {ImportOptions} options - Whether to write, and how to number rows
+   * @returns {Promise<ImportReport>} What was (or would be) done with each row
+   */
+  async importInventory(
+    householdId: HouseholdId,
+    data: InventoryImport,
+    { dryRun, firstRow = 1 }: ImportOptions
+  ): Promise<ImportReport> {
+    const plan: ImportPlan = {
+      known: new Map(
+        walk(await this.inventory.locations.listTree(householdId)).map(
+          ({ id, path }) => [path, id]
+        )
+      ),
+      members: new Set(
+        (await this.inventory.households.listMembers(householdId)).map(
+          ({ id }) => String(id)
+        )
+      ),
+      locations: [],
+      rows: [],
+    };
+    const report: ImportReport = {
+      dry_run: dryRun,
+      summary: {
+        [ImportAction.CREATE]: 0,
+        [ImportAction.UPDATE]: 0,
+        [ImportAction.REJECT]: 0,
+      },
+      new_locations: [],
+      rows: [],
+    };
+
+    for (const raw of data.locations ?? []) {
+      const body = asBody(raw);
+      planPath(
+        plan,
+        requireString(body, "path"),
+        optionalString(body, "kind") ?? null
+      );
+    }
+
+    for (const [index, raw] of data.items.entries()) {
+      const row = firstRow + index;
+
+      try {
+        const planned = await this.planRow(householdId, plan, raw);
+        const result = {
+          row,
+          action: planned.existing ? ImportAction.UPDATE : ImportAction.CREATE,
+          ...(planned.existing?.id !== undefined && {
+            id: planned.existing.id,
+          }),
+          name: planned.input.name,
+        };
+        plan.rows.push({ ...planned, result });
+        report.rows.push(result);
+      } catch (error) {
+        if (!(error instanceof HomeInventoryError)) {
+          throw error;
+        }
+        report.rows.push({
+          row,
+          action: ImportAction.REJECT,
+          error: error.message,
+        });
+      }
+    }
+
+    report.new_locations = plan.locations.map(({ path }) => path);
+    if (!dryRun) {
+      await this.apply(householdId, plan);
+    }
+    for (const { action } of report.rows) {
+      report.summary[action]++;
+    }
+
+    return report;
+  }
+
+  /**
+   * Validates one item row and works out what it would do, without writing
+   * anything.
+   *
+   * @throws {HomeInventoryError} When the row is invalid
+   */
+  private async planRow(
+    householdId: HouseholdId,
+    plan: ImportPlan,
+    raw: unknown
+  ): Promise<Omit<PlannedRow, "result">> {
+    const body = withoutBlanks(asBody(raw));
+    const id = optionalId(body, "id");
+    const path = optionalString(body, "location_path") ?? null;
+    const input = parseItemInput({ ...body, location_id: null });
+
+    const found =
+      id === null || id === undefined
+        ? null
+        : await this.inventory.items.get(id);
+    // An ID from another household is treated as unknown, not updated
+    const existing =
+      found && String(found.household_id) === String(householdId)
+        ? found
+        : null;
+
+    if (
+      input.owner_id !== null &&
+      input.owner_id !== undefined &&
+      !plan.members.has(String(input.owner_id))
+    ) {
+      input.owner_id = null;
+    }
+    if (path) {
+      planPath(plan, path, null);
+    }
+
+    return { existing, input, path };
+  }
+
+  /**
+   * Writes the planned locations and rows in one transaction, then
+   * publishes their events. A row the database refuses is reported as
+   * rejected; any other error rolls the whole import back.
+   */
+  private async apply(
+    householdId: HouseholdId,
+    plan: ImportPlan
+  ): Promise<void> {
+    const { known } = plan;
+    const locationOf = (path: string | null) =>
+      path === null ? null : known.get(path) ?? null;
+
+    const written = await this.inventory.items.withTransaction(async (tx) => {
+      const locations = tx.enlist(this.inventory.locations.locations);
+      const ledger = this.inventory.ledger.joinTransaction(tx);
+      const movements = new Map<PlannedRow, StockMovement>();
+
+      for (const { path, name, parent, kind } of plan.locations) {
+        const id = await locations.create({
+          household_id: householdId,
+          name,
+          kind,
+          parent_id: locationOf(parent),
+        });
+        if (id === null || id === undefined) {
+          throw new Error("Storage location was not created");
+        }
+        known.set(path, id);
+      }
+
+      const updates = plan.rows.filter(({ existing }) => existing);
+      for (const planned of updates) {
+        const { existing, input, path } = planned;
+        const item = existing as InventoryItem;
+        const updated = await tx.update({
+          ...input,
+          location_id: locationOf(path),
+          id: item.id,
+          version: item.version,
+          updated_at: new Date(),
+        } as InventoryItem);
+        if (updated === null || updated === undefined) {
+          throw new NotFoundError("Inventory item", item.id as InventoryItemId);
+        }
+
+        if (input.quantity !== item.quantity) {
+          movements.set(
+            planned,
+            await ledger.record({
+              item_id: item.id as InventoryItemId,
+              type: StockMovementType.ADJUST,
+              quantity_change: input.quantity - item.quantity,
+              quantity_after: input.quantity,
+            })
+          );
+        }
+      }
+
+      const creates = plan.rows.filter(({ existing }) => !existing);
+      const results = await tx.createMany(
+        creates.map(({ input, path }) => ({
+          ...input,
+          location_id: locationOf(path),
+          household_id: householdId,
+        }))
+      );
+      for (const [index, { id, error }] of results.entries()) {
+        const planned = creates[index] as PlannedRow;
+        if (id === null) {
+          planned.result.action = ImportAction.REJECT;
+          planned.result.error =
+            error?.message ?? "Inventory item was not created";
+          delete planned.result.name;
+          continue;
+        }
+
+        planned.result.id = id;
+        if (planned.input.quantity > 0) {
+          movements.set(
+            planned,
+            await ledger.record({
+              item_id: id,
+              type: StockMovementType.ADD,
+              quantity_change: planned.input.quantity,
+              quantity_after: planned.input.quantity,
+              note: "Initial stock",
+              purchased_on: planned.input.purchase_date ?? null,
+            })
+          );
+        }
+      }
+
+      return movements;
+    });
+
+    await this.publish(householdId, plan, written);
+  }
+
+  /**
+   * Publishes the events of a committed import, as createItem() and
+   * updateItem() would have for each row.
+   */
+  private async publish(
+    householdId: HouseholdId,
+    plan: ImportPlan,
+    movements: Map<PlannedRow, StockMovement>
+  ): Promise<void> {
+    const { events, locations } = this.inventory;
+
+    for (const { path } of plan.locations) {
+      const id = plan.known.get(path) as StorageLocationId;
+      await events.emit(InventoryEventName.LOCATION_CREATED, {
+        location: await locations.getLocation(householdId, id),
+      });
+    }
+
+    const items = new Map(
+      (await this.inventory.listItems(householdId)).map((item) => [
+        String(item.id),
+        item,
+      ])
+    );
+    for (const planned of plan.rows) {
+      const item = items.get(String(planned.result.id));
+      if (!item) {
+        continue;
+      }
+
+      if (planned.existing) {
+        await events.emit(InventoryEventName.ITEM_UPDATED, {
+          item,
+          changed: Object.keys(planned.input).filter(
+            (field) => field !== "quantity"
+          ),
+        });
+      } else {
+        await events.emit(InventoryEventName.ITEM_CREATED, { item });
+      }
+
+      const movement = movements.get(planned);
+      if (movement) {
+        await events.emit(InventoryEventName.STOCK_CHANGED, { item, movement });
+        if (movement.quantity_change < 0) {
+          await this.inventory.restockIfLow(item);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Notes the locations missing along a path so the import can create them,
+ * parents before children.
+ *
+ * @throws {ValidationError} When the path has an empty segment
+ */
+function planPath(plan: ImportPlan, path: string, kind: string | null): void {
+  const names = path
+    .split(consts.LOCATION_PATH_SEPARATOR)
+    .map((name) => name.trim());
+  if (names.some((name) => name === "")) {
+    throw new ValidationError(`Location path '${path}' has an empty segment`);
+  }
+
+  let parent: string | null = null;
+  for (const [depth, name] of names.entries()) {
+    const prefix = names
+      .slice(0, depth + 1)
+      .join(consts.LOCATION_PATH_SEPARATOR);
+
+    if (!plan.known.has(prefix)) {
+      plan.known.set(prefix, null);
+      plan.locations.push({
+        path: prefix,
+        name,
+        parent,
+        kind: depth === names.length - 1 ? kind : null,
+      });
+    }
+    parent = prefix;
+  }
+}
+
+/**
+ * Flattens the location forest into paths, parents before children.
+ */
+function walk(
+  nodes: StorageLocationNode[],
+  prefix = ""
+): (LocationRecord & { id: StorageLocationId | null })[] {
+  return nodes.flatMap((node) => {
+    const path = prefix
+      ? `${prefix}${consts.LOCATION_PATH_SEPARATOR}${node.name}`
+      : node.name;
+
+    return [
+      { id: node.id ?? null, path, kind: node.kind ?? null },
+      ...walk(node.children, path),
+    ];
+  });
+}
+
+function toRecord(item: InventoryItem, paths: Map<string, string>): ItemRecord {
+  const locationId = item.location_id;
+
+  return {
+    id: item.id ?? null,
+    name: item.name,
+    category: item.category,
+    quantity: item.quantity,
+    unit: item.unit,
+    min_quantity: item.min_quantity ?? null,
+    location: item.location ?? null,
+    location_path:
+      locationId === null || locationId === undefined
+        ? null
+        : paths.get(String(locationId)) ?? null,
+    barcode: item.barcode ?? null,
+    owner_id: item.owner_id ?? null,
+    purchase_date: formatDate(item.purchase_date),
+    expiry_date: formatDate(item.expiry_date),
+  };
+}
+
+function formatDate(date: Date | null | undefined): string | null {
+  return date ? dayjs(date).format("YYYY-MM-DD") : null;
+}
+
+/**
+ * CSV cannot distinguish an empty field from a missing one; treat both as
+ * "no value" so optional fields validate.
+ */
+function withoutBlanks(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [
+      key,
+      value === "" ? null : value,
+    ])
+  );
+}
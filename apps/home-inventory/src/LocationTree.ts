@@ -0,0 +1,301 @@
+import {
+  createPostgresPersistence,
+  PostgresPersistence,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import InventoryEvents from "./InventoryEvents";
+import { InventoryItem } from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+import { InventoryEventName } from "./types/InventoryEvents";
+import {
+  LocationTreeInterface,
+  StorageLocation,
+  StorageLocationId,
+  StorageLocationInput,
+  StorageLocationNode,
+  StorageLocationUpdate,
+} from "./types/StorageLocation";
+
+/**
+ * Each household's nested storage locations (house → room → shelf → bin).
+ *
+ * The tree is stored as an adjacency list (`parent_id`) in PostgreSQL and
+ * walked with recursive CTEs, so "what's in the garage freezer" includes
+ * every shelf and bin inside it. A location's parent is always in the same
+ * household, so walking the tree never leaves it.
+ *
+ * @implements {LocationTreeInterface}
+ */
+export default class LocationTree implements LocationTreeInterface {
+  /** The persistence implementation backing the locations table */
+  locations: PostgresPersistence<StorageLocation>;
+
+  /** The domain events changes are published through */
+  events: InventoryEvents;
+
+  /**
+   * Creates a new LocationTree instance.
+   *
+   * @param {PostgresPersistence<StorageLocation>} locations - Persistence for storage locations
+   * @param {InventoryEvents} events - The domain events changes are published through
+   */
+  constructor(
+    locations: PostgresPersistence<StorageLocation>,
+    events: InventoryEvents
+  ) {
+    this.locations = locations;
+    this.events = events;
+  }
+
+  /**
+   * Factory method to create a LocationTree backed by PostgreSQL.
+   *
+   * @param {InventoryEvents} events - The domain events changes are published through
+   * @returns {LocationTree} A new LocationTree instance
+   */
+  static create(events: InventoryEvents): LocationTree {
+    return new LocationTree(
+      createPostgresPersistence<StorageLocation>(consts.LOCATIONS_TABLE),
+      events
+    );
+  }
+
+  /**
+   * Adds a location, optionally under an existing parent.
+   *
+   * @param {HouseholdId} householdId - The household the location belongs to
+   * @param {StorageLocationInput} input - The validated location fields
+   * @returns {Promise<StorageLocation>} The stored location
+   * @throws {NotFoundError} When the parent is not in the household
+   */
+  async createLocation(
+    householdId: HouseholdId,
+    input: StorageLocationInput
+  ): Promise<StorageLocation> {
+    if (input.parent_id !== null && input.parent_id !== undefined) {
+      await this.getLocation(householdId, input.parent_id);
+    }
+
+    const id = await this.locations.create({
+      ...input,
+      household_id: householdId,
+      parent_id: input.parent_id ?? null,
+      kind: input.kind ?? null,
+    });
+    if (id === null || id === undefined) {
+      throw new Error("Storage location was not created");
+    }
+
+    const location = await this.getLocation(householdId, id);
+    await this.events.emit(InventoryEventName.LOCATION_CREATED, { location });
+
+    return location;
+  }
+
+  /**
+   * Returns a household's locations arranged as a forest of root nodes,
+   * with children sorted by name.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @returns {Promise<StorageLocationNode[]>} The root locations and their descendants
+   */
+  async listTree(householdId: HouseholdId): Promise<StorageLocationNode[]> {
+    const result = await this.locations.query(
+      `SELECT * FROM ${consts.LOCATIONS_TABLE} WHERE household_id = $1 ORDER BY name`,
+      [householdId]
+    );
+
+    const nodes = new Map<string, StorageLocationNode>();
+    for (const row of result.rows as StorageLocation[]) {
+      nodes.set(String(row.id), { ...row, children: [] });
+    }
+
+    const roots: StorageLocationNode[] = [];
+    for (const node of nodes.values()) {
+      const parent =
+        node.parent_id === null || node.parent_id === undefined
+          ? undefined
+          : nodes.get(String(node.parent_id));
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Fetches a single location.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @returns {Promise<StorageLocation>} The stored location
+   * @throws {NotFoundError} When the household has no location with the given ID
+   */
+  async getLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<StorageLocation> {
+    const location = await this.locations.get(id);
+    if (!location || String(location.household_id) !== String(householdId)) {
+      throw new NotFoundError("Storage location", id);
+    }
+
+    return location;
+  }
+
+  /**
+   * Returns the chain of locations from the root down to the given node.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @returns {Promise<StorageLocation[]>} The path, root first
+   * @throws {NotFoundError} When the household has no location with the given ID
+   */
+  async getPath(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<StorageLocation[]> {
+    const result = await this.locations.query(
+      `WITH RECURSIVE path AS (
+         SELECT l.*, 0 AS depth FROM ${consts.LOCATIONS_TABLE} l
+         WHERE l.id = $1 AND l.household_id = $2
+         UNION ALL
+         SELECT p.*, path.depth + 1 FROM ${consts.LOCATIONS_TABLE} p
+         JOIN path ON p.id = path.parent_id
+       )
+       SELECT id, household_id, name, kind, parent_id, created_at, updated_at
+       FROM path ORDER BY depth DESC`,
+      [id, householdId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError("Storage location", id);
+    }
+
+    return result.rows as StorageLocation[];
+  }
+
+  /**
+   * Lists the direct children of a location.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @returns {Promise<StorageLocation[]>} The child locations sorted by name
+   */
+  async listChildren(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<StorageLocation[]> {
+    const result = await this.locations.query(
+      `SELECT * FROM ${consts.LOCATIONS_TABLE}
+       WHERE parent_id = $1 AND household_id = $2 ORDER BY name`,
+      [id, householdId]
+    );
+
+    return result.rows as StorageLocation[];
+  }
+
+  /**
+   * Lists every item stored in a location or anywhere beneath it.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @returns {Promise<InventoryItem[]>} The items sorted by name
+   * @throws {NotFoundError} When the household has no location with the given ID
+   */
+  async listItemsUnder(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<InventoryItem[]> {
+    await this.getLocation(householdId, id);
+
+    const result = await this.locations.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM ${consts.LOCATIONS_TABLE} WHERE id = $1
+         UNION ALL
+         SELECT c.id FROM ${consts.LOCATIONS_TABLE} c
+         JOIN subtree ON c.parent_id = subtree.id
+       )
+       SELECT i.* FROM ${consts.ITEMS_TABLE} i
+       WHERE i.household_id = $2 AND i.deleted_at IS NULL
+         AND i.location_id IN (SELECT id FROM subtree)
+       ORDER BY i.name`,
+      [id, householdId]
+    );
+
+    return result.rows as InventoryItem[];
+  }
+
+  /**
+   * Renames or re-parents a location. A location cannot be moved underneath
+   * itself or one of its descendants.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @param {StorageLocationUpdate} changes - The validated fields to change
+   * @returns {Promise<StorageLocation>} The location after the update
+   * @throws {NotFoundError} When the location or new parent is not in the household
+   * @throws {ValidationError} When the move would create a cycle
+   */
+  async updateLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId,
+    changes: StorageLocationUpdate
+  ): Promise<StorageLocation> {
+    const location = await this.getLocation(householdId, id);
+
+    if (changes.parent_id !== null && changes.parent_id !== undefined) {
+      const ancestors = await this.getPath(householdId, changes.parent_id);
+      if (ancestors.some((ancestor) => String(ancestor.id) === String(id))) {
+        throw new ValidationError(
+          `Cannot move '${location.name}' underneath itself`
+        );
+      }
+    }
+
+    await this.locations.update({
+      ...changes,
+      id: location.id,
+      updated_at: new Date(),
+    } as StorageLocation);
+
+    const updated = await this.getLocation(householdId, id);
+    await this.events.emit(InventoryEventName.LOCATION_UPDATED, {
+      location: updated,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Removes an empty location.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {StorageLocationId} id - The location ID
+   * @throws {NotFoundError} When the household has no location with the given ID
+   * @throws {ConflictError} When the location still holds locations or items
+   */
+  async deleteLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<void> {
+    const location = await this.getLocation(householdId, id);
+
+    const children = await this.listChildren(householdId, id);
+    const items = await this.listItemsUnder(householdId, id);
+    if (children.length > 0 || items.length > 0) {
+      throw new ConflictError(
+        `Storage location '${location.name}' is not empty; move its contents first`
+      );
+    }
+
+    await this.locations.delete(location);
+    await this.events.emit(InventoryEventName.LOCATION_DELETED, {
+      household_id: location.household_id,
+      location_id: location.id as StorageLocationId,
+    });
+  }
+}
@@ -0,0 +1,286 @@
+import dayjs from "dayjs";
+import {
+  createPostgresPersistence,
+  PostgresPersistence,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { HomeInventoryError, NotFoundError } from "./errors";
+import InventoryEvents from "./InventoryEvents";
+import { InventoryItemInput } from "./types/HomeInventory";
+import { InventoryEventName } from "./types/InventoryEvents";
+import {
+  CatalogImportResult,
+  CatalogProduct,
+  CatalogProductId,
+  CatalogProductInput,
+  ProductCatalogInterface,
+} from "./types/ProductCatalog";
+import { normalizeBarcode, parseCatalogProductInput } from "./validation";
+
+/**
+ * The local product catalog, shared by every household.
+ *
+ * Maps UPC/EAN barcodes to product templates so a scanned code can prefill
+ * a new inventory item. The catalog is maintained locally (by hand or via
+ * CSV/JSON import) because inventory data never leaves the home network.
+ *
+ * @implements {ProductCatalogInterface}
+ */
+export default class ProductCatalog implements ProductCatalogInterface {
+  /** The persistence implementation backing the catalog table */
+  products: PostgresPersistence<CatalogProduct>;
+
+  /** The domain events changes are published through */
+  events: InventoryEvents;
+
+  /**
+   * Creates a new ProductCatalog instance.
+   *
+   * @param {PostgresPersistence<CatalogProduct>} products - Persistence for catalog products
+   * @param {InventoryEvents} events - The domain events changes are published through
+   */
+  constructor(
+    products: PostgresPersistence<CatalogProduct>,
+    events: InventoryEvents
+  ) {
+    this.products = products;
+    this.events = events;
+  }
+
+  /**
+   * Factory method to create a ProductCatalog backed by PostgreSQL.
+   *
+   * @param {InventoryEvents} events - The domain events changes are published through
+   * @returns {ProductCatalog} A new ProductCatalog instance
+   */
+  static create(events: InventoryEvents): ProductCatalog {
+    return new ProductCatalog(
+      createPostgresPersistence<CatalogProduct>(consts.CATALOG_TABLE),
+      events
+    );
+  }
+
+  /**
+   * Lists every product, sorted by name.
+   *
+   * @returns {Promise<CatalogProduct[]>} The catalog
+   */
+  async listProducts(): Promise<CatalogProduct[]> {
+    const result = await this.products.query(
+      `SELECT * FROM ${consts.CATALOG_TABLE} ORDER BY name`
+    );
+
+    return result.rows as CatalogProduct[];
+  }
+
+  /**
+   * Resolves a scanned barcode to its product.
+   *
+   * @param {string} barcode - The scanned barcode, in any supported form
+   * @returns {Promise<CatalogProduct>} The product
+   * @throws {ValidationError} When the barcode is malformed
+   * @throws {NotFoundError} When the barcode is not in the catalog
+   */
+  async lookup(barcode: string): Promise<CatalogProduct> {
+    const code = normalizeBarcode(barcode);
+    const result = await this.products.query(
+      `SELECT * FROM ${consts.CATALOG_TABLE} WHERE barcode = $1`,
+      [code]
+    );
+
+    const product = result.rows[0] as CatalogProduct | undefined;
+    if (!product) {
+      throw new NotFoundError("Product with barcode", code);
+    }
+
+    return product;
+  }
+
+  /**
+   * Builds the fields of a new inventory item from a product. One unit is
+   * assumed to have been bought today, and the expiry date is derived from
+   * the product's typical shelf life.
+   *
+   * @param {CatalogProduct} product - The product to copy from
+   * @returns {InventoryItemInput} The prefilled item fields
+   */
+  itemTemplate(product: CatalogProduct): InventoryItemInput {
+    const today = dayjs().startOf("day");
+    const shelfLife = product.shelf_life_days;
+
+    return {
+      name: product.name,
+      category: product.category,
+      quantity: 1,
+      unit: product.default_unit,
+      min_quantity: null,
+      location: null,
+      location_id: null,
+      barcode: product.barcode,
+      purchase_date: today.toDate(),
+      expiry_date:
+        shelfLife === null || shelfLife === undefined
+          ? null
+          : today.add(shelfLife, "day").toDate(),
+    };
+  }
+
+  /**
+   * Adds a product, or replaces the product already stored under the same
+   * barcode.
+   *
+   * @param {CatalogProductInput} input - The validated product fields
+   * @returns {Promise<CatalogProduct>} The stored product
+   */
+  async saveProduct(input: CatalogProductInput): Promise<CatalogProduct> {
+    const { product } = await this.upsert(input);
+
+    return product;
+  }
+
+  /**
+   * Removes a product from the catalog.
+   *
+   * @param {string} barcode - The product's barcode
+   * @throws {NotFoundError} When the barcode is not in the catalog
+   */
+  async deleteProduct(barcode: string): Promise<void> {
+    const product = await this.lookup(barcode);
+
+    await this.products.delete(product);
+    await this.events.emit(InventoryEventName.CATALOG_PRODUCT_DELETED, {
+      barcode: product.barcode,
+    });
+  }
+
+  /**
+   * Imports products from parsed CSV rows or a JSON array. Each row is
+   * validated on its own; bad rows are reported and skipped rather than
+   * failing the whole import. The valid rows are written together in one
+   * batch, and when a barcode appears more than once the last row wins.
+   *
+   * @param {unknown[]} rows - The products to import
+   * @param {number} firstRow - The number reported for the first row in rejections (2 for CSV, after the header)
+   * @returns {Promise<CatalogImportResult>} Counts of created and updated products, and the rejected rows
+   */
+  async importProducts(
+    rows: unknown[],
+    firstRow = 1
+  ): Promise<CatalogImportResult> {
+    const result: CatalogImportResult = {
+      created: 0,
+      updated: 0,
+      rejected: [],
+    };
+
+    // Keyed by barcode, so a repeated barcode replaces the earlier row
+    const inputs = new Map<
+      string,
+      { row: number; input: CatalogProductInput }
+    >();
+    for (const [index, row] of rows.entries()) {
+      try {
+        const input = parseCatalogProductInput(row);
+        if (inputs.has(input.barcode)) {
+          result.updated++;
+        }
+        inputs.set(input.barcode, { row: firstRow + index, input });
+      } catch (error) {
+        if (!(error instanceof HomeInventoryError)) {
+          throw error;
+        }
+        result.rejected.push({ row: firstRow + index, error: error.message });
+      }
+    }
+    if (inputs.size === 0) {
+      return result;
+    }
+
+    const existing = await this.products.query(
+      `SELECT id, barcode FROM ${consts.CATALOG_TABLE} WHERE barcode = ANY($1)`,
+      [[...inputs.keys()]]
+    );
+    const ids = new Map<string, CatalogProductId>(
+      existing.rows.map((product) => [product.barcode, product.id])
+    );
+
+    const batch = [...inputs.values()];
+    const written = await this.products.upsertMany(
+      batch.map(({ input }) => {
+        const id = ids.get(input.barcode);
+        return {
+          ...(id === undefined ? {} : { id }),
+          barcode: input.barcode,
+          name: input.name,
+          category: input.category,
+          default_unit: input.default_unit,
+          shelf_life_days: input.shelf_life_days ?? null,
+          updated_at: new Date(),
+        };
+      })
+    );
+
+    const stored: CatalogProductId[] = [];
+    written.forEach(({ id, error }, index) => {
+      const { row, input } = batch[index]!;
+      if (id === null) {
+        result.rejected.push({
+          row,
+          error: error?.message ?? "Product was not saved",
+        });
+      } else {
+        stored.push(id);
+        if (ids.has(input.barcode)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      }
+    });
+    result.rejected.sort((a, b) => a.row - b.row);
+
+    const products = await this.products.query(
+      `SELECT * FROM ${consts.CATALOG_TABLE} WHERE id = ANY($1) ORDER BY barcode`,
+      [stored]
+    );
+    for (const product of products.rows as CatalogProduct[]) {
+      await this.events.emit(InventoryEventName.CATALOG_PRODUCT_SAVED, {
+        product,
+      });
+    }
+
+    return result;
+  }
+
+  private async upsert(
+    input: CatalogProductInput
+  ): Promise<{ product: CatalogProduct; created: boolean }> {
+    const result = await this.products.query(
+      `INSERT INTO ${consts.CATALOG_TABLE}
+         (barcode, name, category, default_unit, shelf_life_days)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (barcode) DO UPDATE SET
+         name = EXCLUDED.name,
+         category = EXCLUDED.category,
+         default_unit = EXCLUDED.default_unit,
+         shelf_life_days = EXCLUDED.shelf_life_days,
+         updated_at = NOW()
+       RETURNING *, (xmax = 0) AS created`,
+      [
+        input.barcode,
+        input.name,
+        input.category,
+        input.default_unit,
+        input.shelf_life_days ?? null,
+      ]
+    );
+
+    const { created, ...stored } = result.rows[0];
+    const product = stored as CatalogProduct;
+    await this.events.emit(InventoryEventName.CATALOG_PRODUCT_SAVED, {
+      product,
+    });
+
+    return { product, created: Boolean(created) };
+  }
+}
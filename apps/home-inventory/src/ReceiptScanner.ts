@@ -0,0 +1,223 @@
+import dayjs from "dayjs";
+import Ollama, { OllamaClient } from "@platform/ollama";
+import * as consts from "./consts";
+import { ValidationError } from "./errors";
+import HomeInventory from "./HomeInventory";
+import { generateJsonArray } from "./llm";
+import { nameMatches, sameUnit } from "./matching";
+import { HouseholdId } from "./types/Household";
+import {
+  ProposedAddition,
+  ReceiptCommitResult,
+  ReceiptConfirmation,
+  ReceiptLine,
+  ReceiptLineAction,
+  ReceiptProposal,
+  ReceiptScannerInterface,
+} from "./types/ReceiptScanner";
+
+/**
+ * Turns pasted grocery receipts into inventory additions.
+ *
+ * Ingestion is two-step. `propose` asks an Ollama model to read the line
+ * items off the receipt and matches them against existing items, without
+ * writing anything. The user reviews and edits the proposal, then sends the
+ * lines they accept to `commit`, which adds the stock.
+ *
+ * @implements {ReceiptScannerInterface}
+ */
+export default class ReceiptScanner implements ReceiptScannerInterface {
+  /** The inventory purchases are added to */
+  inventory: HomeInventory;
+
+  /** The Ollama client used to read receipts */
+  ollamaClient: OllamaClient;
+
+  /**
+   * Creates a new ReceiptScanner instance.
+   *
+   * @param {HomeInventory} inventory - The inventory purchases are added to
+   * @param {OllamaClient} ollamaClient - The Ollama client used to read receipts
+   */
+  constructor(inventory: HomeInventory, ollamaClient: OllamaClient) {
+    this.inventory = inventory;
+    this.ollamaClient = ollamaClient;
+  }
+
+  /**
+   * Factory method to create a ReceiptScanner using the default Ollama model.
+   *
+   * @param {HomeInventory} inventory - The inventory purchases are added to
+   * @returns {Promise<ReceiptScanner>} A Promise that resolves to a new ReceiptScanner instance
+   */
+  static async create(inventory: HomeInventory): Promise<ReceiptScanner> {
+    const ollamaClient = await Ollama.create();
+
+    return new ReceiptScanner(inventory, ollamaClient);
+  }
+
+  /**
+   * Reads the purchased products off a receipt and proposes, for each one,
+   * either topping up a matching item of the household (same name and unit)
+   * or creating a new item. Nothing is stored.
+   *
+   * @param {HouseholdId} householdId - The household that made the purchase
+   * @param {string} text - The receipt text
+   * @returns {Promise<ReceiptProposal>} The proposed additions
+   * @throws {UpstreamError} When the model cannot be reached or its answer cannot be parsed
+   */
+  async propose(
+    householdId: HouseholdId,
+    text: string
+  ): Promise<ReceiptProposal> {
+    const entries = await generateJsonArray(
+      this.ollamaClient,
+      receiptPrompt(text),
+      "a list of receipt lines"
+    );
+    const items = await this.inventory.listItems(householdId);
+
+    const lines = parseReceiptLines(entries).map((line): ProposedAddition => {
+      const match = items.find(
+        (item) =>
+          nameMatches(line.product, item.name) && sameUnit(line.unit, item.unit)
+      );
+
+      return {
+        ...line,
+        action: match
+          ? ReceiptLineAction.ADD_STOCK
+          : ReceiptLineAction.CREATE_ITEM,
+        item_id: match?.id ?? null,
+        item_name: match?.name ?? null,
+      };
+    });
+
+    const priced = lines.every((line) => line.price !== null);
+    const total = lines.reduce((sum, line) => sum + (line.price ?? 0), 0);
+
+    return { lines, total: priced ? Math.round(total * 100) / 100 : null };
+  }
+
+  /**
+   * Adds the confirmed lines to the household's inventory, recording each
+   * line's price with the store and purchase date. Every referenced item is
+   * checked before anything is written, so a stale proposal is rejected as
+   * a whole instead of being half applied.
+   *
+   * @param {HouseholdId} householdId - The household that made the purchase
+   * @param {ReceiptConfirmation} receipt - The lines the user accepted, with the store and date
+   * @returns {Promise<ReceiptCommitResult>} The topped-up and the newly created items
+   * @throws {NotFoundError} When a referenced item is not in the household
+   * @throws {ValidationError} When a line's unit differs from its item's unit
+   */
+  async commit(
+    householdId: HouseholdId,
+    receipt: ReceiptConfirmation
+  ): Promise<ReceiptCommitResult> {
+    for (const line of receipt.lines) {
+      if (line.item_id === null) {
+        continue;
+      }
+      const item = await this.inventory.getItem(householdId, line.item_id);
+      if (!sameUnit(line.unit, item.unit)) {
+        throw new ValidationError(
+          `'${item.name}' is counted in ${item.unit}, not ${line.unit}`
+        );
+      }
+    }
+
+    const result: ReceiptCommitResult = { added: [], created: [] };
+    const purchasedOn =
+      receipt.purchase_date ?? dayjs().startOf("day").toDate();
+
+    for (const line of receipt.lines) {
+      const purchase = {
+        price: line.price,
+        store: receipt.store,
+        purchased_on: purchasedOn,
+      };
+
+      if (line.item_id !== null) {
+        result.added.push(
+          await this.inventory.addStock(
+            householdId,
+            line.item_id,
+            line.quantity,
+            "Bought (receipt)",
+            purchase
+          )
+        );
+        continue;
+      }
+
+      result.created.push(
+        await this.inventory.createItem(
+          householdId,
+          {
+            name: line.name,
+            category: line.category,
+            quantity: line.quantity,
+            unit: line.unit,
+            min_quantity: null,
+            location: null,
+            location_id: null,
+            barcode: null,
+            owner_id: null,
+            purchase_date: purchasedOn,
+            expiry_date: null,
+          },
+          purchase
+        )
+      );
+    }
+
+    return result;
+  }
+}
+
+function receiptPrompt(receipt: string): string {
+  return `You read grocery receipts for a household pantry inventory.
+List every purchased product on the receipt below. Skip totals, subtotals, tax, discounts, deposits, payment and store lines.
+For each product give:
+- "description": the line as printed
+- "product": the generic grocery name, singular and lowercase, with abbreviations expanded (for example "ORG BNNS" becomes "banana")
+- "category": one word such as produce, dairy, meat, bakery, pantry, frozen, drinks or household
+- "quantity": the number bought (1 if not printed; the weight if sold by weight)
+- "unit": "each" for counted items, otherwise the weight or volume unit such as kg, lb or l
+- "price": the line total as a number, or null if not printed
+Respond with only a JSON array of objects with those keys.
+
+Receipt:
+${receipt}`;
+}
+
+function parseReceiptLines(entries: unknown[]): ReceiptLine[] {
+  return entries.flatMap((entry): ReceiptLine[] => {
+    const { description, product, category, quantity, unit, price } = (entry ??
+      {}) as Record<string, unknown>;
+    if (typeof product !== "string" || product.trim() === "") {
+      return [];
+    }
+
+    return [
+      {
+        description: typeof description === "string" ? description : product,
+        product: product.trim().toLowerCase(),
+        category:
+          typeof category === "string" && category.trim() !== ""
+            ? category.trim().toLowerCase()
+            : consts.DEFAULT_CATEGORY,
+        quantity: typeof quantity === "number" && quantity > 0 ? quantity : 1,
+        unit:
+          typeof unit === "string" && unit.trim() !== ""
+            ? unit.trim().toLowerCase()
+            : consts.DEFAULT_UNIT,
+        price:
+          typeof price === "number" && Number.isFinite(price) && price >= 0
+            ? price
+            : null,
+      },
+    ];
+  });
+}
@@ -0,0 +1,215 @@
+import Ollama, { OllamaClient } from "@platform/ollama";
+import * as consts from "./consts";
+import HomeInventory from "./HomeInventory";
+import { generateJsonArray } from "./llm";
+import { nameMatches, sameUnit } from "./matching";
+import { ExpiringItem, InventoryItem } from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+import {
+  IngredientAvailability,
+  IngredientStatus,
+  RecipeAvailability,
+  RecipeIngredient,
+  RecipeInput,
+  RecipePlannerInterface,
+} from "./types/RecipePlanner";
+
+/**
+ * Checks a recipe against what is in stock.
+ *
+ * Recipes name ingredients loosely ("2 cups finely chopped yellow onions"),
+ * so the ingredient list is first normalized to plain grocery names by an
+ * Ollama model. The normalized names are then matched against inventory
+ * items word by word, which lets "onion" find "Red Onions" and "olive oil"
+ * find "Extra Virgin Olive Oil".
+ *
+ * @implements {RecipePlannerInterface}
+ */
+export default class RecipePlanner implements RecipePlannerInterface {
+  /** The inventory to check recipes against */
+  inventory: HomeInventory;
+
+  /** The Ollama client used to normalize ingredient names */
+  ollamaClient: OllamaClient;
+
+  /** How many days ahead a matched item counts as about to expire */
+  expiringDays: number;
+
+  /**
+   * Creates a new RecipePlanner instance.
+   *
+   * @param {HomeInventory} inventory - The inventory to check recipes against
+   * @param {OllamaClient} ollamaClient - The Ollama client used to normalize ingredient names
+   * @param {number} expiringDays - How many days ahead a matched item counts as about to expire
+   */
+  constructor(
+    inventory: HomeInventory,
+    ollamaClient: OllamaClient,
+    expiringDays: number = consts.EXPIRING_SOON_DAYS
+  ) {
+    this.inventory = inventory;
+    this.ollamaClient = ollamaClient;
+    this.expiringDays = expiringDays;
+  }
+
+  /**
+   * Factory method to create a RecipePlanner using the default Ollama model.
+   *
+   * @param {HomeInventory} inventory - The inventory to check recipes against
+   * @returns {Promise<RecipePlanner>} A Promise that resolves to a new RecipePlanner instance
+   */
+  static async create(inventory: HomeInventory): Promise<RecipePlanner> {
+    const ollamaClient = await Ollama.create();
+
+    return new RecipePlanner(inventory, ollamaClient);
+  }
+
+  /**
+   * Reduces a recipe's ingredients to plain grocery names with quantities.
+   *
+   * @param {RecipeInput} recipe - The recipe text or ingredient list
+   * @returns {Promise<RecipeIngredient[]>} The normalized ingredients
+   * @throws {UpstreamError} When the model cannot be reached or its answer cannot be parsed
+   */
+  async normalizeIngredients(recipe: RecipeInput): Promise<RecipeIngredient[]> {
+    const source =
+      "text" in recipe
+        ? recipe.text
+        : recipe.ingredients
+            .map(({ name, quantity, unit }) =>
+              [quantity, unit, name]
+                .filter((part) => part !== null && part !== undefined)
+                .join(" ")
+            )
+            .join("\n");
+
+    const entries = await generateJsonArray(
+      this.ollamaClient,
+      normalizePrompt(source),
+      "an ingredient list"
+    );
+
+    return parseIngredients(entries);
+  }
+
+  /**
+   * Reports which of a recipe's ingredients a household has in stock, which
+   * are short or missing, and which matching items should be used up first.
+   *
+   * @param {HouseholdId} householdId - The household whose stock to check
+   * @param {RecipeInput} recipe - The recipe text or ingredient list
+   * @returns {Promise<RecipeAvailability>} Availability per ingredient, with summary lists
+   * @throws {UpstreamError} When the ingredients cannot be normalized
+   */
+  async checkAvailability(
+    householdId: HouseholdId,
+    recipe: RecipeInput
+  ): Promise<RecipeAvailability> {
+    const ingredients = await this.normalizeIngredients(recipe);
+    const items = (await this.inventory.listItems(householdId)).filter(
+      (item) => item.quantity > 0
+    );
+    const expiring = await this.inventory.listExpiringItems(
+      householdId,
+      this.expiringDays
+    );
+
+    const availability = ingredients.map((ingredient) =>
+      checkIngredient(ingredient, items, expiring)
+    );
+    const namesWith = (status: IngredientStatus) =>
+      availability
+        .filter((ingredient) => ingredient.status === status)
+        .map((ingredient) => ingredient.name);
+
+    return {
+      can_cook: availability.every(
+        (ingredient) => ingredient.status === IngredientStatus.AVAILABLE
+      ),
+      available: namesWith(IngredientStatus.AVAILABLE),
+      insufficient: namesWith(IngredientStatus.INSUFFICIENT),
+      missing: namesWith(IngredientStatus.MISSING),
+      expiring: availability
+        .filter((ingredient) => ingredient.expiring.length > 0)
+        .map((ingredient) => ingredient.name),
+      ingredients: availability,
+    };
+  }
+}
+
+function normalizePrompt(recipe: string): string {
+  return `You normalize recipe ingredients for a household pantry inventory.
+For each ingredient in the recipe below, give the generic grocery item name: singular, lowercase, without brands, preparation or size words (for example "2 cups finely chopped yellow onions" becomes "onion").
+Give the quantity as a number and the unit in singular form, or null when the recipe does not state them.
+Respond with only a JSON array of objects with the keys "original", "name", "quantity" and "unit".
+
+Recipe:
+${recipe}`;
+}
+
+function parseIngredients(entries: unknown[]): RecipeIngredient[] {
+  return entries.flatMap((entry): RecipeIngredient[] => {
+    const { original, name, quantity, unit } = (entry ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof name !== "string" || name.trim() === "") {
+      return [];
+    }
+
+    return [
+      {
+        original: typeof original === "string" ? original : name,
+        name: name.trim().toLowerCase(),
+        quantity:
+          typeof quantity === "number" && Number.isFinite(quantity)
+            ? quantity
+            : null,
+        unit:
+          typeof unit === "string" && unit.trim() !== ""
+            ? unit.trim().toLowerCase()
+            : null,
+      },
+    ];
+  });
+}
+
+function checkIngredient(
+  ingredient: RecipeIngredient,
+  items: InventoryItem[],
+  expiring: ExpiringItem[]
+): IngredientAvailability {
+  const matches = items.filter((item) =>
+    nameMatches(ingredient.name, item.name)
+  );
+
+  // Quantities can only be compared when the units agree; a recipe without
+  // a unit counts items ("3 eggs").
+  const unit = ingredient.unit ?? consts.DEFAULT_UNIT;
+  const comparable = matches.filter((item) => sameUnit(item.unit, unit));
+  const inStock =
+    comparable.length > 0
+      ? comparable.reduce((total, item) => total + item.quantity, 0)
+      : null;
+
+  let status = IngredientStatus.AVAILABLE;
+  if (matches.length === 0) {
+    status = IngredientStatus.MISSING;
+  } else if (
+    ingredient.quantity !== null &&
+    inStock !== null &&
+    inStock < ingredient.quantity
+  ) {
+    status = IngredientStatus.INSUFFICIENT;
+  }
+
+  const matchedIds = new Set(matches.map((item) => String(item.id)));
+
+  return {
+    ...ingredient,
+    status,
+    in_stock: inStock,
+    items: matches,
+    expiring: expiring.filter((item) => matchedIds.has(String(item.id))),
+  };
+}
@@ -0,0 +1,240 @@
+import {
+  createPersistence,
+  DatabaseType,
+  PersistenceImplementation,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { NotFoundError } from "./errors";
+import InventoryEvents from "./InventoryEvents";
+import { InventoryItem } from "./types/HomeInventory";
+import { HouseholdId } from "./types/Household";
+import { InventoryEventName } from "./types/InventoryEvents";
+import {
+  ShoppingListEntry,
+  ShoppingListEntryId,
+  ShoppingListEntryInput,
+  ShoppingListInterface,
+  ShoppingListSource,
+} from "./types/ShoppingList";
+
+/**
+ * Each household's shopping list.
+ *
+ * Entries are added by hand or automatically when an item's stock drops
+ * below its minimum quantity. Checked-off entries stay on the list until
+ * they are cleared.
+ *
+ * @implements {ShoppingListInterface}
+ */
+export default class ShoppingList implements ShoppingListInterface {
+  /** The persistence implementation backing the shopping list table */
+  entries: PersistenceImplementation<ShoppingListEntry>;
+
+  /** The domain events changes are published through */
+  events: InventoryEvents;
+
+  /**
+   * Creates a new ShoppingList instance.
+   *
+   * @param {PersistenceImplementation<ShoppingListEntry>} entries - Persistence for shopping list entries
+   * @param {InventoryEvents} events - The domain events changes are published through
+   */
+  constructor(
+    entries: PersistenceImplementation<ShoppingListEntry>,
+    events: InventoryEvents
+  ) {
+    this.entries = entries;
+    this.events = events;
+  }
+
+  /**
+   * Factory method to create a ShoppingList backed by PostgreSQL.
+   *
+   * @param {InventoryEvents} events - The domain events changes are published through
+   * @returns {ShoppingList} A new ShoppingList instance
+   */
+  static create(events: InventoryEvents): ShoppingList {
+    const entries = createPersistence<ShoppingListEntry>({
+      databaseType: DatabaseType.POSTGRES,
+      tableOrCollectionName: consts.SHOPPING_LIST_TABLE,
+    });
+
+    return new ShoppingList(entries, events);
+  }
+
+  /**
+   * Lists a household's entries, unchecked first and then oldest first.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @returns {Promise<ShoppingListEntry[]>} The shopping list
+   */
+  async listEntries(householdId: HouseholdId): Promise<ShoppingListEntry[]> {
+    return await this.findEntries({ household_id: householdId });
+  }
+
+  /**
+   * Adds an entry by hand.
+   *
+   * @param {HouseholdId} householdId - The household whose list to add to
+   * @param {ShoppingListEntryInput} input - The validated entry fields
+   * @returns {Promise<ShoppingListEntry>} The stored entry
+   */
+  async addEntry(
+    householdId: HouseholdId,
+    input: ShoppingListEntryInput
+  ): Promise<ShoppingListEntry> {
+    return await this.insert({
+      ...input,
+      household_id: householdId,
+      item_id: input.item_id ?? null,
+      checked: false,
+      source: ShoppingListSource.MANUAL,
+    });
+  }
+
+  /**
+   * Adds an item whose stock has dropped below its minimum quantity. The
+   * suggested quantity tops the item back up to its minimum. Nothing is
+   * added when the item is already waiting on its household's list.
+   *
+   * @param {InventoryItem} item - The low-stock inventory item
+   * @returns {Promise<ShoppingListEntry | null>} The new entry, or null if the item was already listed
+   */
+  async addLowStockItem(
+    item: InventoryItem
+  ): Promise<ShoppingListEntry | null> {
+    const existing = await this.findEntries({
+      household_id: item.household_id,
+      item_id: item.id ?? null,
+      checked: false,
+    });
+    if (existing.length > 0) {
+      return null;
+    }
+
+    const minimum = item.min_quantity ?? 0;
+    return await this.insert({
+      household_id: item.household_id,
+      item_id: item.id ?? null,
+      name: item.name,
+      quantity: Math.max(minimum - item.quantity, 1),
+      unit: item.unit,
+      checked: false,
+      source: ShoppingListSource.LOW_STOCK,
+    });
+  }
+
+  /**
+   * Checks an entry off, or un-checks it.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {ShoppingListEntryId} id - The entry ID
+   * @param {boolean} checked - The new checked state
+   * @returns {Promise<ShoppingListEntry>} The entry after the change
+   * @throws {NotFoundError} When the household has no entry with the given ID
+   */
+  async setChecked(
+    householdId: HouseholdId,
+    id: ShoppingListEntryId,
+    checked: boolean
+  ): Promise<ShoppingListEntry> {
+    const current = await this.getEntry(householdId, id);
+    const updated = await this.entries.update({
+      id: current.id,
+      checked,
+      updated_at: new Date(),
+    } as ShoppingListEntry);
+    if (updated === null || updated === undefined) {
+      throw new NotFoundError("Shopping list entry", id);
+    }
+
+    const entry = await this.getEntry(householdId, id);
+    await this.events.emit(InventoryEventName.SHOPPING_LIST_ENTRY_UPDATED, {
+      entry,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Removes a single entry.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @param {ShoppingListEntryId} id - The entry ID
+   * @throws {NotFoundError} When the household has no entry with the given ID
+   */
+  async removeEntry(
+    householdId: HouseholdId,
+    id: ShoppingListEntryId
+  ): Promise<void> {
+    const entry = await this.getEntry(householdId, id);
+    const deleted = await this.entries.delete(entry);
+    if (deleted === null || deleted === undefined) {
+      throw new NotFoundError("Shopping list entry", id);
+    }
+
+    await this.events.emit(InventoryEventName.SHOPPING_LIST_ENTRY_REMOVED, {
+      household_id: entry.household_id,
+      entry_id: id,
+    });
+  }
+
+  /**
+   * Removes every checked-off entry from a household's list.
+   *
+   * @param {HouseholdId} householdId - The household ID
+   * @returns {Promise<number>} The number of entries removed
+   */
+  async clearChecked(householdId: HouseholdId): Promise<number> {
+    const checked = await this.findEntries({
+      household_id: householdId,
+      checked: true,
+    });
+    for (const entry of checked) {
+      await this.entries.delete(entry);
+      await this.events.emit(InventoryEventName.SHOPPING_LIST_ENTRY_REMOVED, {
+        household_id: householdId,
+        entry_id: entry.id as ShoppingListEntryId,
+      });
+    }
+
+    return checked.length;
+  }
+
+  private async getEntry(
+    householdId: HouseholdId,
+    id: ShoppingListEntryId
+  ): Promise<ShoppingListEntry> {
+    const entry = await this.entries.get(id);
+    if (!entry || String(entry.household_id) !== String(householdId)) {
+      throw new NotFoundError("Shopping list entry", id);
+    }
+
+    return entry;
+  }
+
+  private async insert(entry: ShoppingListEntry): Promise<ShoppingListEntry> {
+    const id = await this.entries.create(entry);
+    if (id === null || id === undefined) {
+      throw new Error("Shopping list entry was not created");
+    }
+
+    const stored = await this.getEntry(entry.household_id, id);
+    await this.events.emit(InventoryEventName.SHOPPING_LIST_ENTRY_ADDED, {
+      entry: stored,
+    });
+
+    return stored;
+  }
+
+  private async findEntries(
+    filter: Partial<ShoppingListEntry>
+  ): Promise<ShoppingListEntry[]> {
+    const page = await this.entries.findMany({
+      filter,
+      sort: { checked: "asc", created_at: "asc" },
+    });
+
+    return page.items;
+  }
+}
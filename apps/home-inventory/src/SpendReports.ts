@@ -0,0 +1,294 @@
+import {
+  createPostgresPersistence,
+  PostgresPersistence,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { ValidationError } from "./errors";
+import { HouseholdId } from "./types/Household";
+import {
+  DiscardReason,
+  StockMovement,
+  StockMovementType,
+} from "./types/StockMovement";
+import {
+  DiscardedSpendRow,
+  ReportRange,
+  SpendGrouping,
+  SpendReport,
+  SpendReportsInterface,
+  SpendRow,
+  WasteMonth,
+  WasteReport,
+  WasteRow,
+} from "./types/SpendReports";
+
+/** The SQL expression each grouping aggregates on */
+const GROUP_KEYS: Record<SpendGrouping, string> = {
+  [SpendGrouping.CATEGORY]: "i.category",
+  [SpendGrouping.STORE]: "m.store",
+  [SpendGrouping.MONTH]: "to_char(m.happened_on, 'YYYY-MM')",
+};
+
+/**
+ * Household spend and waste reports, aggregated in PostgreSQL from the
+ * prices recorded on `add` movements and the reasons recorded on `discard`
+ * movements in the stock ledger. Each report covers the items of one
+ * household.
+ *
+ * @implements {SpendReportsInterface}
+ */
+export default class SpendReports implements SpendReportsInterface {
+  /** The persistence implementation backing the movements table */
+  movements: PostgresPersistence<StockMovement>;
+
+  /**
+   * Creates a new SpendReports instance.
+   *
+   * @param {PostgresPersistence<StockMovement>} movements - Persistence for stock movements
+   */
+  constructor(movements: PostgresPersistence<StockMovement>) {
+    this.movements = movements;
+  }
+
+  /**
+   * Factory method to create SpendReports backed by PostgreSQL.
+   *
+   * @returns {SpendReports} A new SpendReports instance
+   */
+  static create(): SpendReports {
+    return new SpendReports(
+      createPostgresPersistence<StockMovement>(consts.STOCK_MOVEMENTS_TABLE)
+    );
+  }
+
+  /**
+   * Totals what was paid for stock, by category, store or month. Purchases
+   * are dated by their purchase date, or by when they were recorded when no
+   * date was given.
+   *
+   * @param {HouseholdId} householdId - The household to report on
+   * @param {SpendGrouping} groupBy - What to aggregate by
+   * @param {ReportRange} range - Optional purchase date range
+   * @returns {Promise<SpendReport<SpendRow>>} The report, largest spend first (months in order)
+   */
+  async spend(
+    householdId: HouseholdId,
+    groupBy: SpendGrouping,
+    range: ReportRange = {}
+  ): Promise<SpendReport<SpendRow>> {
+    const { where, params } = scope(householdId, range);
+    const result = await this.movements.query(
+      `SELECT ${GROUP_KEYS[groupBy]} AS key,
+              SUM(m.price)::float8 AS spend,
+              COUNT(*)::int AS purchases
+       FROM ${movementsWithDates()} m
+       JOIN ${consts.ITEMS_TABLE} i ON i.id = m.item_id
+       WHERE m.type = '${StockMovementType.ADD}'
+         AND m.price IS NOT NULL ${where}
+       GROUP BY 1
+       ORDER BY ${groupBy === SpendGrouping.MONTH ? "1" : "2 DESC"}`,
+      params
+    );
+
+    return toReport(groupBy, range, result.rows as SpendRow[], "spend");
+  }
+
+  /**
+   * Estimates the value of perishables (items with an expiry date) that
+   * were discarded, by category or month.
+   *
+   * @param {HouseholdId} householdId - The household to report on
+   * @param {SpendGrouping} groupBy - What to aggregate by; discards have no store
+   * @param {ReportRange} range - Optional discard date range
+   * @returns {Promise<SpendReport<DiscardedSpendRow>>} The report, largest value first (months in order)
+   * @throws {ValidationError} When grouping by store
+   */
+  async discardedSpend(
+    householdId: HouseholdId,
+    groupBy: SpendGrouping,
+    range: ReportRange = {}
+  ): Promise<SpendReport<DiscardedSpendRow>> {
+    if (groupBy === SpendGrouping.STORE) {
+      throw new ValidationError(
+        "Discarded spend can be grouped by category or month, not store"
+      );
+    }
+
+    const { where, params } = scope(householdId, range);
+    const result = await this.movements.query(
+      `WITH ${unitCosts()}
+       SELECT ${GROUP_KEYS[groupBy]} AS key,
+              COALESCE(SUM(-m.quantity_change * c.cost), 0)::float8 AS discarded_value,
+              COUNT(*)::int AS discards,
+              (COUNT(*) FILTER (WHERE c.cost IS NULL))::int AS unpriced_discards
+       FROM ${movementsWithDates()} m
+       JOIN ${consts.ITEMS_TABLE} i ON i.id = m.item_id
+       LEFT JOIN unit_cost c ON c.item_id = m.item_id
+       WHERE m.type = '${StockMovementType.DISCARD}'
+         AND i.expiry_date IS NOT NULL ${where}
+       GROUP BY 1
+       ORDER BY ${groupBy === SpendGrouping.MONTH ? "1" : "2 DESC"}`,
+      params
+    );
+
+    return toReport(
+      groupBy,
+      range,
+      result.rows as DiscardedSpendRow[],
+      "discarded_value"
+    );
+  }
+
+  /**
+   * Reports what was thrown away per month and category, with the
+   * quantity lost to each discard reason and its estimated cost. Rows are
+   * split by unit because quantities in different units cannot be added;
+   * the monthly totals count discards instead.
+   *
+   * @param {HouseholdId} householdId - The household to report on
+   * @param {ReportRange} range - Optional discard date range
+   * @returns {Promise<WasteReport>} Monthly totals and per-category rows, oldest month first
+   */
+  async waste(
+    householdId: HouseholdId,
+    range: ReportRange = {}
+  ): Promise<WasteReport> {
+    const reasons = Object.values(DiscardReason);
+    // Discards recorded before reasons were tracked count as "other"
+    const reasonColumns = reasons.map((reason) => {
+      const matches = `COALESCE(m.reason, '${DiscardReason.OTHER}') = '${reason}'`;
+      return `COALESCE(SUM(-m.quantity_change) FILTER (WHERE ${matches}), 0)::float8 AS "quantity_${reason}",
+              (COUNT(*) FILTER (WHERE ${matches}))::int AS "discards_${reason}"`;
+    });
+
+    const { where, params } = scope(householdId, range);
+    const result = await this.movements.query(
+      `WITH ${unitCosts()}
+       SELECT to_char(m.happened_on, 'YYYY-MM') AS month,
+              i.category,
+              i.unit,
+              COUNT(*)::int AS discards,
+              SUM(-m.quantity_change)::float8 AS quantity,
+              COALESCE(SUM(-m.quantity_change * c.cost), 0)::float8 AS cost,
+              (COUNT(*) FILTER (WHERE c.cost IS NULL))::int AS unpriced_discards,
+              ${reasonColumns.join(",\n")}
+       FROM ${movementsWithDates()} m
+       JOIN ${consts.ITEMS_TABLE} i ON i.id = m.item_id
+       LEFT JOIN unit_cost c ON c.item_id = m.item_id
+       WHERE m.type = '${StockMovementType.DISCARD}' ${where}
+       GROUP BY 1, 2, 3
+       ORDER BY 1, 6 DESC`,
+      params
+    );
+
+    const rows: WasteRow[] = [];
+    const months = new Map<string, WasteMonth>();
+    for (const row of result.rows) {
+      rows.push({
+        month: row.month,
+        category: row.category,
+        unit: row.unit,
+        discards: row.discards,
+        quantity: row.quantity,
+        cost: row.cost,
+        unpriced_discards: row.unpriced_discards,
+        quantity_by_reason: byReason(reasons, (reason) =>
+          Number(row[`quantity_${reason}`])
+        ),
+      });
+
+      const month = months.get(row.month) ?? {
+        month: row.month,
+        discards: 0,
+        cost: 0,
+        discards_by_reason: byReason(reasons, () => 0),
+      };
+      month.discards += row.discards;
+      month.cost = Math.round((month.cost + row.cost) * 100) / 100;
+      for (const reason of reasons) {
+        month.discards_by_reason[reason] += Number(row[`discards_${reason}`]);
+      }
+      months.set(row.month, month);
+    }
+
+    return {
+      from: range.from ?? null,
+      to: range.to ?? null,
+      months: [...months.values()],
+      rows,
+    };
+  }
+}
+
+/**
+ * Each item's average purchase price per unit, over the `add` movements
+ * that recorded a price.
+ */
+function unitCosts(): string {
+  return `unit_cost AS (
+    SELECT item_id, SUM(price) / NULLIF(SUM(quantity_change), 0) AS cost
+    FROM ${consts.STOCK_MOVEMENTS_TABLE}
+    WHERE type = '${StockMovementType.ADD}' AND price IS NOT NULL
+    GROUP BY item_id
+  )`;
+}
+
+function byReason(
+  reasons: DiscardReason[],
+  value: (reason: DiscardReason) => number
+): Record<DiscardReason, number> {
+  return Object.fromEntries(
+    reasons.map((reason) => [reason, value(reason)])
+  ) as Record<DiscardReason, number>;
+}
+
+/**
+ * Movements with the date they count towards: the purchase date when one
+ * was recorded, otherwise the day the movement was logged.
+ */
+function movementsWithDates(): string {
+  return `(SELECT *, COALESCE(purchased_on, created_at::date) AS happened_on
+           FROM ${consts.STOCK_MOVEMENTS_TABLE})`;
+}
+
+/**
+ * The conditions limiting a report to one household's items and the given
+ * date range.
+ */
+function scope(
+  householdId: HouseholdId,
+  range: ReportRange
+): { where: string; params: unknown[] } {
+  const conditions = ["i.household_id = $1"];
+  const params: unknown[] = [householdId];
+  if (range.from) {
+    params.push(range.from);
+    conditions.push(`m.happened_on >= $${params.length}`);
+  }
+  if (range.to) {
+    params.push(range.to);
+    conditions.push(`m.happened_on <= $${params.length}`);
+  }
+
+  return {
+    where: conditions.map((condition) => `AND ${condition}`).join(" "),
+    params,
+  };
+}
+
+function toReport<Row>(
+  groupBy: SpendGrouping,
+  range: ReportRange,
+  rows: Row[],
+  value: keyof Row
+): SpendReport<Row> {
+  const total = rows.reduce((sum, row) => sum + Number(row[value]), 0);
+
+  return {
+    group_by: groupBy,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    total: Math.round(total * 100) / 100,
+    rows,
+  };
+}
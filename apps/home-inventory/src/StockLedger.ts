@@ -0,0 +1,102 @@
+import {
+  createPersistence,
+  DatabaseType,
+  PersistenceImplementation,
+} from "@platform/persistence";
+import * as consts from "./consts";
+import { InventoryItemId } from "./types/HomeInventory";
+import { StockLedgerInterface, StockMovement } from "./types/StockMovement";
+
+/**
+ * Append-only log of every stock change (add, consume, discard, adjust).
+ *
+ * The ledger never updates or deletes a movement; corrections are recorded
+ * as new `adjust` movements so an item's history can always be replayed.
+ *
+ * @implements {StockLedgerInterface}
+ */
+export default class StockLedger implements StockLedgerInterface {
+  /** The persistence implementation backing the movements table */
+  movements: PersistenceImplementation<StockMovement>;
+
+  /**
+   * Creates a new StockLedger instance.
+   *
+   * @param {PersistenceImplementation<StockMovement>} movements - Persistence for stock movements
+   */
+  constructor(movements: PersistenceImplementation<StockMovement>) {
+    this.movements = movements;
+  }
+
+  /**
+   * Factory method to create a StockLedger backed by PostgreSQL.
+   *
+   * @returns {StockLedger} A new StockLedger instance
+   */
+  static create(): StockLedger {
+    const movements = createPersistence<StockMovement>({
+      databaseType: DatabaseType.POSTGRES,
+      tableOrCollectionName: consts.STOCK_MOVEMENTS_TABLE,
+    });
+
+    return new StockLedger(movements);
+  }
+
+  /**
+   * Returns a ledger that records through an open transaction, so a
+   * movement commits or rolls back together with the change it records.
+   *
+   * @param {PersistenceImplementation} tx - A transaction handle from another table
+   * @returns {StockLedger} The ledger bound to the transaction
+   */
+  joinTransaction<T extends Record<string, any>>(
+    tx: PersistenceImplementation<T>
+  ): StockLedger {
+    return new StockLedger(tx.enlist(this.movements));
+  }
+
+  /**
+   * Appends a movement to the ledger.
+   *
+   * @param {StockMovement} movement - The movement to record
+   * @returns {Promise<StockMovement>} The stored movement
+   */
+  async record(movement: StockMovement): Promise<StockMovement> {
+    const id = await this.movements.create({
+      ...movement,
+      note: movement.note ?? null,
+      reason: movement.reason ?? null,
+      price: movement.price ?? null,
+      store: movement.store ?? null,
+      purchased_on: movement.purchased_on ?? null,
+      created_at: new Date(),
+    });
+    if (id === null || id === undefined) {
+      throw new Error("Stock movement was not recorded");
+    }
+
+    return { ...movement, id };
+  }
+
+  /**
+   * Lists an item's movements, newest first.
+   *
+   * @param {InventoryItemId} itemId - The item ID
+   * @param {Date} since - Optional lower bound on the movement time
+   * @returns {Promise<StockMovement[]>} The item's movements
+   */
+  async listForItem(
+    itemId: InventoryItemId,
+    since?: Date
+  ): Promise<StockMovement[]> {
+    const page = await this.movements.findMany({
+      filter: {
+        item_id: itemId,
+        ...(since ? { created_at: { gte: since } } : {}),
+      },
+      sort: { created_at: "desc" },
+    });
+
+    return page.items;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Jest tests for expiring items and the expiry sweep, against PostgreSQL
+ */
+
+import dayjs from "dayjs";
+import { Publisher } from "@platform/messaging/Publisher";
+import * as consts from "../consts";
+import ExpirySweep from "../ExpirySweep";
+import HomeInventory from "../HomeInventory";
+import { HouseholdId } from "../types/Household";
+import { createTestDatabase, emptyTestDatabase } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+/** Midnight, `days` from today */
+const inDays = (days: number): Date =>
+  dayjs().startOf("day").add(days, "day").toDate();
+
+describe("ExpirySweep", () => {
+  let inventory: HomeInventory;
+  let publisher: jest.Mocked<Publisher>;
+  let home: HouseholdId;
+  let neighbours: HouseholdId;
+
+  /** Store an item expiring `days` from today, or never */
+  const stock = async (
+    householdId: HouseholdId,
+    name: string,
+    days: number | null
+  ) =>
+    await inventory.createItem(householdId, {
+      name,
+      category: "dairy",
+      quantity: 1,
+      unit: "each",
+      expiry_date: days === null ? null : inDays(days),
+    });
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    publisher = {
+      topic: consts.ITEM_EXPIRING_EVENT,
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("listExpiringItems", () => {
+    it("should list expired items and those expiring within the window, soonest first", async () => {
+      await stock(home, "Yoghurt", 2);
+      await stock(home, "Cream", -1);
+      await stock(home, "Cheese", 3);
+      await stock(home, "Butter", 4);
+      await stock(home, "Salt", null);
+      await stock(neighbours, "Milk", 0);
+
+      const items = await inventory.listExpiringItems(home, 3);
+
+      expect(
+        items.map(({ name, days_until_expiry }) => [name, days_until_expiry])
+      ).toEqual([
+        ["Cream", -1],
+        ["Yoghurt", 2],
+        ["Cheese", 3],
+      ]);
+    });
+
+    it("should leave out deleted items", async () => {
+      const item = await stock(home, "Yoghurt", 1);
+      await inventory.deleteItem(home, item.id!);
+
+      expect(await inventory.listExpiringItems(home, 3)).toEqual([]);
+    });
+  });
+
+  describe("sweep", () => {
+    it("should publish an event for every expiring item of every household", async () => {
+      const yoghurt = await stock(home, "Yoghurt", 1);
+      await stock(home, "Butter", 10);
+      await stock(neighbours, "Milk", 0);
+
+      const published = await new ExpirySweep(inventory, publisher).sweep();
+
+      expect(published).toBe(2);
+      expect(publisher.publish).toHaveBeenCalledTimes(2);
+      expect(publisher.publish).toHaveBeenCalledWith(
+        consts.ITEM_EXPIRING_EVENT,
+        {
+          household_id: home,
+          item_id: yoghurt.id,
+          name: "Yoghurt",
+          category: "dairy",
+          quantity: 1,
+          unit: "each",
+          location: null,
+          expiry_date: dayjs(inDays(1)).format("YYYY-MM-DD"),
+          days_until_expiry: 1,
+          detected_at: expect.any(String),
+        }
+      );
+    });
+
+    it("should use its own look-ahead window", async () => {
+      await stock(home, "Butter", 10);
+
+      expect(await new ExpirySweep(inventory, publisher, 3).sweep()).toBe(0);
+      expect(await new ExpirySweep(inventory, publisher, 10).sweep()).toBe(1);
+    });
+  });
+
+  describe("start", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should sweep right away and then on every interval until stopped", () => {
+      const sweep = new ExpirySweep(inventory, publisher);
+      const run = jest.spyOn(sweep, "sweep").mockResolvedValue(0);
+
+      sweep.start(1000);
+      sweep.start(1000);
+      expect(run).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(2000);
+      expect(run).toHaveBeenCalledTimes(3);
+
+      sweep.stop();
+      jest.advanceTimersByTime(2000);
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Jest tests for the inventory service, against PostgreSQL
+ */
+
+import dayjs from "dayjs";
+import { VersionConflictError } from "@platform/persistence";
+import { ConflictError, NotFoundError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import { InventoryItem, InventoryItemInput } from "../types/HomeInventory";
+import { HouseholdId } from "../types/Household";
+import { ShoppingListSource } from "../types/ShoppingList";
+import { DiscardReason, StockMovementType } from "../types/StockMovement";
+import { createTestDatabase, emptyTestDatabase, sql } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+const milk: InventoryItemInput = {
+  name: "Milk",
+  category: "dairy",
+  quantity: 3,
+  unit: "l",
+  min_quantity: 2,
+};
+
+describe("HomeInventory", () => {
+  let inventory: HomeInventory;
+  let home: HouseholdId;
+  let neighbours: HouseholdId;
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("items", () => {
+    it("should create an item and record its starting stock", async () => {
+      const item = await inventory.createItem(home, milk, { price: 2.5 });
+
+      expect(item).toMatchObject({ ...milk, household_id: home, version: 1 });
+      expect(await inventory.listMovements(home, item.id!)).toEqual([
+        expect.objectContaining({
+          type: StockMovementType.ADD,
+          quantity_change: 3,
+          quantity_after: 3,
+          price: 2.5,
+        }),
+      ]);
+    });
+
+    it("should list, update and delete items", async () => {
+      const item = await inventory.createItem(home, milk);
+      await inventory.createItem(home, { ...milk, name: "Butter" });
+
+      expect((await inventory.listItems(home)).map(({ name }) => name)).toEqual(
+        ["Butter", "Milk"]
+      );
+
+      const updated = await inventory.updateItem(home, item.id!, {
+        category: "drinks",
+        quantity: 5,
+      });
+      expect(updated).toMatchObject({ category: "drinks", quantity: 5 });
+      expect((await inventory.listMovements(home, item.id!))[0]).toMatchObject({
+        type: StockMovementType.ADJUST,
+        quantity_change: 2,
+      });
+
+      await inventory.deleteItem(home, item.id!);
+      await expect(inventory.getItem(home, item.id!)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it("should only update an item still at the version it was read at", async () => {
+      const item = await inventory.createItem(home, milk);
+      await inventory.consumeItem(home, item.id!, 1);
+
+      for (const changes of [{ category: "drinks" }, { quantity: 5 }]) {
+        await expect(
+          inventory.updateItem(home, item.id!, { ...changes, version: 1 })
+        ).rejects.toThrow(VersionConflictError);
+      }
+      expect(await inventory.getItem(home, item.id!)).toMatchObject({
+        category: "dairy",
+        quantity: 2,
+        version: 2,
+      });
+
+      const updated = await inventory.updateItem(home, item.id!, {
+        quantity: 5,
+        version: 2,
+      });
+      expect(updated).toMatchObject({ quantity: 5, version: 4 });
+    });
+  });
+
+  describe("stock changes", () => {
+    let item: InventoryItem;
+
+    beforeEach(async () => {
+      item = await inventory.createItem(home, { ...milk, min_quantity: null });
+    });
+
+    it("should move the quantity and record every change in the ledger", async () => {
+      await inventory.addStock(home, item.id!, 2, "Weekly shop", {
+        price: 3,
+        store: "Corner shop",
+      });
+      await inventory.consumeItem(home, item.id!, 1.5);
+      await inventory.discardStock(home, item.id!, 0.5, DiscardReason.SPOILED);
+      const adjusted = await inventory.adjustStock(home, item.id!, 2);
+
+      expect(adjusted.quantity).toBe(2);
+      const movements = await inventory.listMovements(home, item.id!);
+      expect(
+        movements
+          .map(({ type, quantity_change, quantity_after }) => [
+            type,
+            quantity_change,
+            quantity_after,
+          ])
+          .sort(([, , a], [, , b]) => Number(a) - Number(b))
+      ).toEqual(
+        expect.arrayContaining([
+          [StockMovementType.ADD, 3, 3],
+          [StockMovementType.ADD, 2, 5],
+          [StockMovementType.CONSUME, -1.5, 3.5],
+          [StockMovementType.DISCARD, -0.5, 3],
+          [StockMovementType.ADJUST, -1, 2],
+        ])
+      );
+      expect(movements).toHaveLength(5);
+      expect(movements).toContainEqual(
+        expect.objectContaining({
+          type: StockMovementType.DISCARD,
+          reason: DiscardReason.SPOILED,
+        })
+      );
+    });
+
+    it("should refuse to take out more than is in stock", async () => {
+      await expect(inventory.consumeItem(home, item.id!, 4)).rejects.toThrow(
+        ConflictError
+      );
+
+      expect((await inventory.getItem(home, item.id!)).quantity).toBe(3);
+      expect(await inventory.listMovements(home, item.id!)).toHaveLength(1);
+    });
+
+    it("should apply concurrent changes to the latest quantity", async () => {
+      const results = await Promise.allSettled([
+        inventory.consumeItem(home, item.id!, 2),
+        inventory.consumeItem(home, item.id!, 2),
+      ]);
+
+      expect(results.map(({ status }) => status).sort()).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+      expect((await inventory.getItem(home, item.id!)).quantity).toBe(1);
+      expect(await inventory.listMovements(home, item.id!)).toHaveLength(2);
+    });
+
+    describe("when the item changes between reading and writing", () => {
+      let read: jest.SpyInstance;
+      let get: HomeInventory["items"]["get"];
+
+      /** The item as it was before someone else's write */
+      const stale: HomeInventory["items"]["get"] = async (id) => ({
+        ...(await get(id))!,
+        version: 0,
+      });
+
+      beforeEach(() => {
+        get = inventory.items.get.bind(inventory.items);
+        // The service's own lookup of the item reads it as it is
+        read = jest.spyOn(inventory.items, "get").mockImplementationOnce(get);
+      });
+
+      it("should read the item again and retry", async () => {
+        read.mockImplementationOnce(stale);
+
+        const consumed = await inventory.consumeItem(home, item.id!, 2);
+
+        expect(consumed).toMatchObject({ quantity: 1, version: 2 });
+        expect(await inventory.listMovements(home, item.id!)).toHaveLength(2);
+      });
+
+      it("should give up when it keeps changing", async () => {
+        read.mockImplementation(stale);
+
+        await expect(inventory.consumeItem(home, item.id!, 2)).rejects.toThrow(
+          ConflictError
+        );
+
+        read.mockRestore();
+        expect((await inventory.getItem(home, item.id!)).quantity).toBe(3);
+        expect(await inventory.listMovements(home, item.id!)).toHaveLength(1);
+      });
+    });
+  });
+
+  describe("forecast", () => {
+    /** Pretend the item and its movements so far were recorded `days` ago */
+    const backdate = async (
+      item: InventoryItem,
+      days: number,
+      movementDays: number = days
+    ) => {
+      await sql(
+        `UPDATE inventory_items SET created_at = NOW() - make_interval(days => $2)
+         WHERE id = $1`,
+        [item.id, days]
+      );
+      await sql(
+        `UPDATE stock_movements SET created_at = NOW() - make_interval(days => $2)
+         WHERE item_id = $1`,
+        [item.id, movementDays]
+      );
+    };
+
+    it("should spread consumption over the days the item has been tracked", async () => {
+      const item = await inventory.createItem(home, { ...milk, quantity: 20 });
+      await inventory.consumeItem(home, item.id!, 10);
+      await backdate(item, 20, 10);
+
+      expect(await inventory.forecastItem(home, item.id!)).toEqual({
+        item_id: item.id,
+        quantity: 10,
+        unit: "l",
+        window_days: 20,
+        consumed: 10,
+        daily_rate: 0.5,
+        days_until_empty: 20,
+        empty_on: dayjs().add(20, "day").format("YYYY-MM-DD"),
+      });
+    });
+
+    it("should ignore consumption from before the window", async () => {
+      const item = await inventory.createItem(home, { ...milk, quantity: 20 });
+      await inventory.consumeItem(home, item.id!, 10);
+      await backdate(item, 60, 40);
+
+      expect(await inventory.forecastItem(home, item.id!)).toMatchObject({
+        window_days: 30,
+        consumed: 0,
+        daily_rate: 0,
+        days_until_empty: null,
+        empty_on: null,
+      });
+      expect(await inventory.forecastItem(home, item.id!, 45)).toMatchObject({
+        window_days: 45,
+        consumed: 10,
+      });
+    });
+
+    it("should count a new item as tracked for at least a day", async () => {
+      const item = await inventory.createItem(home, { ...milk, quantity: 10 });
+      await inventory.consumeItem(home, item.id!, 2);
+
+      expect(await inventory.forecastItem(home, item.id!)).toMatchObject({
+        window_days: 1,
+        daily_rate: 2,
+        days_until_empty: 4,
+      });
+    });
+
+    it("should only count what was consumed", async () => {
+      const item = await inventory.createItem(home, { ...milk, quantity: 10 });
+      await inventory.discardStock(home, item.id!, 2, DiscardReason.SPOILED);
+      await inventory.addStock(home, item.id!, 4);
+      await inventory.adjustStock(home, item.id!, 6);
+
+      expect(await inventory.forecastItem(home, item.id!)).toMatchObject({
+        quantity: 6,
+        consumed: 0,
+        days_until_empty: null,
+      });
+    });
+
+    it("should not forecast another household's item", async () => {
+      const item = await inventory.createItem(home, milk);
+
+      await expect(
+        inventory.forecastItem(neighbours, item.id!)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("low stock", () => {
+    it("should put an item that drops below its minimum on the shopping list once", async () => {
+      const item = await inventory.createItem(home, milk);
+
+      await inventory.consumeItem(home, item.id!, 1);
+      expect(await inventory.shoppingList.listEntries(home)).toEqual([]);
+
+      await inventory.consumeItem(home, item.id!, 1.5);
+      await inventory.consumeItem(home, item.id!, 0.5);
+
+      expect(await inventory.shoppingList.listEntries(home)).toEqual([
+        expect.objectContaining({
+          item_id: item.id,
+          name: "Milk",
+          quantity: 1.5,
+          unit: "l",
+          source: ShoppingListSource.LOW_STOCK,
+          checked: false,
+        }),
+      ]);
+    });
+  });
+
+  describe("household scoping", () => {
+    it("should treat another household's items as missing", async () => {
+      const item = await inventory.createItem(home, milk);
+
+      await expect(inventory.getItem(neighbours, item.id!)).rejects.toThrow(
+        NotFoundError
+      );
+      await expect(
+        inventory.consumeItem(neighbours, item.id!, 1)
+      ).rejects.toThrow(NotFoundError);
+      await expect(inventory.deleteItem(neighbours, item.id!)).rejects.toThrow(
+        NotFoundError
+      );
+      expect(await inventory.listItems(neighbours)).toEqual([]);
+      expect((await inventory.getItem(home, item.id!)).quantity).toBe(3);
+    });
+
+    it("should refuse locations and owners from another household", async () => {
+      const shelf = await inventory.locations.createLocation(neighbours, {
+        name: "Shelf",
+      });
+      const member = await inventory.households.addMember(neighbours, {
+        name: "Sam",
+      });
+
+      await expect(
+        inventory.createItem(home, { ...milk, location_id: shelf.id! })
+      ).rejects.toThrow(NotFoundError);
+      await expect(
+        inventory.createItem(home, { ...milk, owner_id: member.id! })
+      ).rejects.toThrow(NotFoundError);
+      expect(await inventory.listItems(home)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Jest tests for domain events and their correlation IDs, against
+ * PostgreSQL
+ */
+
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { Publisher } from "@platform/messaging/Publisher";
+import { createApp } from "../app";
+import * as consts from "../consts";
+import HomeInventory from "../HomeInventory";
+import InventoryEvents from "../InventoryEvents";
+import ReceiptScanner from "../ReceiptScanner";
+import RecipePlanner from "../RecipePlanner";
+import { HouseholdId } from "../types/Household";
+import { InventoryEvent, InventoryEventName } from "../types/InventoryEvents";
+import { createTestDatabase, emptyTestDatabase, fakeOllama } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe("InventoryEvents", () => {
+  let publisher: jest.Mocked<Publisher>;
+
+  /** The events handed to the publisher so far */
+  const published = (): InventoryEvent[] =>
+    publisher.publish.mock.calls.map(([, event]) => event as InventoryEvent);
+
+  beforeEach(() => {
+    publisher = {
+      topic: consts.EVENTS_TOPIC,
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  describe("emit", () => {
+    it("should publish the payload in the event envelope", async () => {
+      const events = new InventoryEvents(publisher);
+      const data = { household_id: 1, item_id: 2 };
+
+      const event = await events.emit(InventoryEventName.ITEM_DELETED, data);
+
+      expect(event).toEqual({
+        id: expect.stringMatching(UUID),
+        name: InventoryEventName.ITEM_DELETED,
+        schema_version: consts.EVENT_SCHEMA_VERSION,
+        source: consts.KAFKA_CLIENT_ID,
+        occurred_at: expect.any(String),
+        correlation_id: expect.stringMatching(UUID),
+        data,
+      });
+      expect(publisher.publish).toHaveBeenCalledWith(
+        InventoryEventName.ITEM_DELETED,
+        event
+      );
+    });
+
+    it("should give every event outside a request a fresh correlation ID", async () => {
+      const events = new InventoryEvents(publisher);
+      const data = { household_id: 1, item_id: 2 };
+
+      const first = await events.emit(InventoryEventName.ITEM_DELETED, data);
+      const second = await events.emit(InventoryEventName.ITEM_DELETED, data);
+
+      expect(first.correlation_id).not.toBe(second.correlation_id);
+    });
+
+    it("should drop events until a publisher is connected", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const event = await new InventoryEvents().emit(
+        InventoryEventName.ITEM_DELETED,
+        { household_id: 1, item_id: 2 }
+      );
+
+      expect(event.name).toBe(InventoryEventName.ITEM_DELETED);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("no publisher is connected")
+      );
+      warn.mockRestore();
+    });
+
+    it("should not fail the change when publishing fails", async () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      publisher.publish.mockRejectedValue(new Error("Broker unavailable"));
+
+      await expect(
+        new InventoryEvents(publisher).emit(InventoryEventName.ITEM_DELETED, {
+          household_id: 1,
+          item_id: 2,
+        })
+      ).resolves.toMatchObject({ name: InventoryEventName.ITEM_DELETED });
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("requests", () => {
+    let inventory: HomeInventory;
+    let server: Server;
+    let baseUrl: string;
+    let home: HouseholdId;
+
+    /** Create an item over HTTP, with the given request headers */
+    const createItem = async (headers: Record<string, string> = {}) =>
+      await fetch(`${baseUrl}/api/home-inventory/households/${home}/items`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ name: "Milk", category: "dairy", quantity: 1 }),
+      });
+
+    beforeAll(async () => {
+      await createTestDatabase();
+    });
+
+    beforeEach(async () => {
+      await emptyTestDatabase();
+      inventory = HomeInventory.create();
+      inventory.events.publisher = publisher;
+      home = (await inventory.households.createHousehold({ name: "Home" }))
+        .id as HouseholdId;
+      publisher.publish.mockClear();
+
+      const ollama = fakeOllama([]);
+      const app = createApp(
+        inventory,
+        new RecipePlanner(inventory, ollama),
+        new ReceiptScanner(inventory, ollama)
+      );
+      server = await new Promise<Server>((resolve) => {
+        const listening = app.listen(0, () => resolve(listening));
+      });
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await inventory.close();
+    });
+
+    it("should stamp the caller's correlation ID on every event of the request", async () => {
+      const response = await createItem({
+        [consts.CORRELATION_ID_HEADER]: "checkout-42",
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get(consts.CORRELATION_ID_HEADER)).toBe(
+        "checkout-42"
+      );
+      expect(
+        published().map(({ name, correlation_id }) => [name, correlation_id])
+      ).toEqual([
+        [InventoryEventName.ITEM_CREATED, "checkout-42"],
+        [InventoryEventName.STOCK_CHANGED, "checkout-42"],
+      ]);
+    });
+
+    it("should generate a correlation ID when the caller sent none or a malformed one", async () => {
+      for (const headers of [{}, { [consts.CORRELATION_ID_HEADER]: "a b" }]) {
+        publisher.publish.mockClear();
+
+        const response = await createItem(headers);
+
+        const id = response.headers.get(consts.CORRELATION_ID_HEADER);
+        expect(id).toMatch(UUID);
+        expect(published().map(({ correlation_id }) => correlation_id)).toEqual(
+          [id, id]
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Jest tests for inventory import and export, against PostgreSQL
+ */
+
+import { parseCsv } from "../csv";
+import HomeInventory from "../HomeInventory";
+import InventoryTransfer from "../InventoryTransfer";
+import { InventoryItemInput } from "../types/HomeInventory";
+import { HouseholdId } from "../types/Household";
+import { InventoryEventName } from "../types/InventoryEvents";
+import { ImportAction } from "../types/InventoryTransfer";
+import { StockMovementType } from "../types/StockMovement";
+import { createTestDatabase, emptyTestDatabase } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+const milk: InventoryItemInput = {
+  name: "Milk",
+  category: "dairy",
+  quantity: 3,
+  unit: "l",
+  min_quantity: 2,
+};
+
+describe("InventoryTransfer", () => {
+  let inventory: HomeInventory;
+  let transfer: InventoryTransfer;
+  let home: HouseholdId;
+  let neighbours: HouseholdId;
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    transfer = new InventoryTransfer(inventory);
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("importInventory", () => {
+    it("should report a dry run without writing anything", async () => {
+      const existing = await inventory.createItem(home, milk);
+
+      const report = await transfer.importInventory(
+        home,
+        {
+          items: [
+            { id: existing.id, name: "Milk", category: "dairy", quantity: 4 },
+            {
+              name: "Rice",
+              category: "pantry",
+              quantity: 1,
+              location_path: "Kitchen > Pantry",
+            },
+            { name: "Nameless", quantity: 1 },
+          ],
+        },
+        { dryRun: true }
+      );
+
+      expect(report).toEqual({
+        dry_run: true,
+        summary: {
+          [ImportAction.CREATE]: 1,
+          [ImportAction.UPDATE]: 1,
+          [ImportAction.REJECT]: 1,
+        },
+        new_locations: ["Kitchen", "Kitchen > Pantry"],
+        rows: [
+          {
+            row: 1,
+            action: ImportAction.UPDATE,
+            id: existing.id,
+            name: "Milk",
+          },
+          { row: 2, action: ImportAction.CREATE, name: "Rice" },
+          {
+            row: 3,
+            action: ImportAction.REJECT,
+            error: expect.stringContaining("category"),
+          },
+        ],
+      });
+      expect(await inventory.listItems(home)).toEqual([
+        expect.objectContaining({ name: "Milk", quantity: 3 }),
+      ]);
+      expect(await inventory.locations.listTree(home)).toEqual([]);
+    });
+
+    it("should write the rows the dry run reported", async () => {
+      const existing = await inventory.createItem(home, milk);
+      const stranger = await inventory.households.addMember(neighbours, {
+        name: "Stranger",
+      });
+      const data = {
+        items: [
+          {
+            id: existing.id,
+            name: "Milk",
+            category: "dairy",
+            quantity: 1,
+            min_quantity: 2,
+          },
+          {
+            name: "Rice",
+            category: "pantry",
+            quantity: 2,
+            location_path: "Kitchen > Pantry",
+            owner_id: stranger.id,
+          },
+        ],
+      };
+
+      const dryRun = await transfer.importInventory(home, data, {
+        dryRun: true,
+      });
+      const report = await transfer.importInventory(home, data, {
+        dryRun: false,
+      });
+
+      expect(report.summary).toEqual(dryRun.summary);
+      expect(report.new_locations).toEqual(dryRun.new_locations);
+      expect(report.rows.map(({ action }) => action)).toEqual([
+        ImportAction.UPDATE,
+        ImportAction.CREATE,
+      ]);
+
+      const [pantry] = (await inventory.locations.listTree(home))[0]!.children;
+      const rice = await inventory.getItem(home, report.rows[1]!.id!);
+      expect(rice).toMatchObject({
+        quantity: 2,
+        owner_id: null,
+        location_id: pantry!.id,
+      });
+      expect(await inventory.listMovements(home, rice.id!)).toEqual([
+        expect.objectContaining({
+          type: StockMovementType.ADD,
+          quantity_change: 2,
+          quantity_after: 2,
+        }),
+      ]);
+
+      expect((await inventory.getItem(home, existing.id!)).quantity).toBe(1);
+      expect(
+        (await inventory.listMovements(home, existing.id!))[0]
+      ).toMatchObject({
+        type: StockMovementType.ADJUST,
+        quantity_change: -2,
+        quantity_after: 1,
+      });
+      expect(await inventory.shoppingList.listEntries(home)).toEqual([
+        expect.objectContaining({ item_id: existing.id, name: "Milk" }),
+      ]);
+    });
+
+    it("should create new items in one batch and publish their events after the commit", async () => {
+      const createMany = jest.spyOn(inventory.items, "createMany");
+      const emit = jest.spyOn(inventory.events, "emit");
+
+      await transfer.importInventory(
+        home,
+        {
+          items: [
+            { name: "Rice", category: "pantry", quantity: 1 },
+            {
+              name: "Flour",
+              category: "pantry",
+              quantity: 0,
+              location_path: "Pantry",
+            },
+          ],
+        },
+        { dryRun: false }
+      );
+
+      expect(createMany).toHaveBeenCalledTimes(1);
+      expect(emit.mock.calls.map(([name]) => name)).toEqual([
+        InventoryEventName.LOCATION_CREATED,
+        InventoryEventName.ITEM_CREATED,
+        InventoryEventName.STOCK_CHANGED,
+        InventoryEventName.ITEM_CREATED,
+      ]);
+    });
+
+    it("should write nothing when the import fails part way", async () => {
+      const existing = await inventory.createItem(home, milk);
+      jest
+        .spyOn(inventory.items, "createMany")
+        .mockRejectedValue(new Error("Connection lost"));
+      const emit = jest.spyOn(inventory.events, "emit");
+
+      await expect(
+        transfer.importInventory(
+          home,
+          {
+            items: [
+              { id: existing.id, name: "Milk", category: "dairy", quantity: 9 },
+              {
+                name: "Rice",
+                category: "pantry",
+                quantity: 1,
+                location_path: "Kitchen",
+              },
+            ],
+          },
+          { dryRun: false }
+        )
+      ).rejects.toThrow("Connection lost");
+
+      expect((await inventory.getItem(home, existing.id!)).quantity).toBe(3);
+      expect(await inventory.listMovements(home, existing.id!)).toHaveLength(1);
+      expect(await inventory.locations.listTree(home)).toEqual([]);
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it("should reject a row whose ID is not a positive integer", async () => {
+      const report = await transfer.importInventory(
+        home,
+        {
+          items: parseCsv(
+            "id,name,category,quantity\nabc,Milk,dairy,1\n,Rice,pantry,2\n"
+          ),
+        },
+        { dryRun: false, firstRow: 2 }
+      );
+
+      expect(report.rows).toEqual([
+        {
+          row: 2,
+          action: ImportAction.REJECT,
+          error: expect.stringContaining("id"),
+        },
+        expect.objectContaining({ row: 3, action: ImportAction.CREATE }),
+      ]);
+      expect((await inventory.listItems(home)).map(({ name }) => name)).toEqual(
+        ["Rice"]
+      );
+    });
+  });
+
+  describe("exportCsv", () => {
+    it("should restore an export into an empty database", async () => {
+      const owner = await inventory.households.addMember(home, {
+        name: "Alex",
+      });
+      const garage = await inventory.locations.createLocation(home, {
+        name: "Garage",
+        kind: "room",
+        parent_id: null,
+      });
+      const freezer = await inventory.locations.createLocation(home, {
+        name: "Freezer",
+        kind: null,
+        parent_id: garage.id!,
+      });
+      await inventory.createItem(home, {
+        ...milk,
+        owner_id: owner.id!,
+        location_id: freezer.id!,
+        barcode: "4006381333931",
+        purchase_date: new Date("2026-01-02"),
+        expiry_date: new Date("2026-01-09"),
+      });
+      await inventory.createItem(home, {
+        name: "Rice, basmati",
+        category: "pantry",
+        quantity: 2.5,
+        unit: "kg",
+      });
+      const exported = await transfer.exportInventory(home);
+      const csv = await transfer.exportCsv(home);
+
+      await emptyTestDatabase();
+      const restored = (
+        await inventory.households.createHousehold({ name: "Home" })
+      ).id as HouseholdId;
+      const report = await transfer.importInventory(
+        restored,
+        { items: parseCsv(csv) },
+        { dryRun: false, firstRow: 2 }
+      );
+
+      expect(report.summary).toEqual({
+        [ImportAction.CREATE]: 2,
+        [ImportAction.UPDATE]: 0,
+        [ImportAction.REJECT]: 0,
+      });
+      const { items } = await transfer.exportInventory(restored);
+      expect(items).toEqual(
+        exported.items.map((item) => ({
+          ...item,
+          id: expect.anything(),
+          owner_id: null,
+        }))
+      );
+    });
+  });
+});
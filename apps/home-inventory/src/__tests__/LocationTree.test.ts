@@ -0,0 +1,202 @@
+/**
+ * Jest tests for nested storage locations, against PostgreSQL
+ */
+
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import LocationTree from "../LocationTree";
+import { HouseholdId } from "../types/Household";
+import { StorageLocation } from "../types/StorageLocation";
+import { createTestDatabase, emptyTestDatabase } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+describe("LocationTree", () => {
+  let inventory: HomeInventory;
+  let tree: LocationTree;
+  let home: HouseholdId;
+  let neighbours: HouseholdId;
+  let garage: StorageLocation;
+  let freezer: StorageLocation;
+  let drawer: StorageLocation;
+
+  /** Add a location under `parent`, or at the root */
+  const place = async (
+    name: string,
+    parent: StorageLocation | null = null,
+    householdId: HouseholdId = home
+  ) =>
+    await tree.createLocation(householdId, {
+      name,
+      kind: null,
+      parent_id: parent?.id ?? null,
+    });
+
+  /** Store an item in a location */
+  const stock = async (name: string, location: StorageLocation) =>
+    await inventory.createItem(home, {
+      name,
+      category: "frozen",
+      quantity: 1,
+      unit: "each",
+      location_id: location.id ?? null,
+    });
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    tree = inventory.locations;
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+    garage = await place("Garage");
+    freezer = await place("Freezer", garage);
+    drawer = await place("Top drawer", freezer);
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("createLocation", () => {
+    it("should refuse a parent from another household", async () => {
+      const shed = await place("Shed", null, neighbours);
+
+      await expect(place("Shelf", shed)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("listTree", () => {
+    it("should nest every location under its parent, sorted by name", async () => {
+      await place("Attic");
+      await place("Bottom drawer", freezer);
+      await place("Shed", null, neighbours);
+
+      const roots = await tree.listTree(home);
+
+      expect(roots.map(({ name }) => name)).toEqual(["Attic", "Garage"]);
+      expect(roots[1]!.children).toEqual([
+        expect.objectContaining({
+          name: "Freezer",
+          children: [
+            expect.objectContaining({ name: "Bottom drawer", children: [] }),
+            expect.objectContaining({ name: "Top drawer", children: [] }),
+          ],
+        }),
+      ]);
+    });
+  });
+
+  describe("getPath", () => {
+    it("should walk from the root down to the location", async () => {
+      const path = await tree.getPath(home, drawer.id!);
+
+      expect(path.map(({ name }) => name)).toEqual([
+        "Garage",
+        "Freezer",
+        "Top drawer",
+      ]);
+    });
+
+    it("should not find another household's location", async () => {
+      await expect(tree.getPath(neighbours, drawer.id!)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe("listItemsUnder", () => {
+    it("should include items anywhere beneath the location", async () => {
+      await stock("Peas", drawer);
+      await stock("Ice cream", freezer);
+      const deleted = await stock("Chips", drawer);
+      await inventory.deleteItem(home, deleted.id!);
+      await stock("Bike", garage);
+
+      const items = await tree.listItemsUnder(home, freezer.id!);
+
+      expect(items.map(({ name }) => name)).toEqual(["Ice cream", "Peas"]);
+    });
+  });
+
+  describe("updateLocation", () => {
+    it("should move a location and everything beneath it", async () => {
+      const kitchen = await place("Kitchen");
+
+      const moved = await tree.updateLocation(home, freezer.id!, {
+        parent_id: kitchen.id!,
+      });
+
+      expect(moved.parent_id).toBe(kitchen.id);
+      expect(
+        (await tree.getPath(home, drawer.id!)).map(({ name }) => name)
+      ).toEqual(["Kitchen", "Freezer", "Top drawer"]);
+    });
+
+    it("should move a location back to the root", async () => {
+      await tree.updateLocation(home, freezer.id!, { parent_id: null });
+
+      expect(
+        (await tree.listTree(home)).map(({ name }) => name).sort()
+      ).toEqual(["Freezer", "Garage"]);
+    });
+
+    it("should refuse to move a location underneath itself", async () => {
+      await expect(
+        tree.updateLocation(home, freezer.id!, { parent_id: freezer.id! })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        tree.updateLocation(home, garage.id!, { parent_id: drawer.id! })
+      ).rejects.toThrow(ValidationError);
+
+      expect((await tree.getLocation(home, garage.id!)).parent_id).toBeNull();
+    });
+
+    it("should refuse a parent from another household", async () => {
+      const shed = await place("Shed", null, neighbours);
+
+      await expect(
+        tree.updateLocation(home, freezer.id!, { parent_id: shed.id! })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("deleteLocation", () => {
+    it("should refuse to delete a location that holds other locations", async () => {
+      await expect(tree.deleteLocation(home, freezer.id!)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it("should refuse to delete a location that holds items", async () => {
+      const item = await stock("Peas", drawer);
+
+      await expect(tree.deleteLocation(home, drawer.id!)).rejects.toThrow(
+        ConflictError
+      );
+
+      await inventory.moveItem(home, item.id!, null);
+      await tree.deleteLocation(home, drawer.id!);
+      await expect(tree.getLocation(home, drawer.id!)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it("should not delete another household's location", async () => {
+      await expect(tree.deleteLocation(neighbours, drawer.id!)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+});
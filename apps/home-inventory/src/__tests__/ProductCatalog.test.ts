@@ -0,0 +1,174 @@
+/**
+ * Jest tests for the barcode catalog, against PostgreSQL
+ */
+
+import dayjs from "dayjs";
+import { NotFoundError, ValidationError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import ProductCatalog from "../ProductCatalog";
+import { InventoryEventName } from "../types/InventoryEvents";
+import { normalizeBarcode } from "../validation";
+import { createTestDatabase, emptyTestDatabase } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+describe("normalizeBarcode", () => {
+  it("should accept EAN-8, EAN-13 and GTIN-14 codes as they are", () => {
+    expect(normalizeBarcode("96385074")).toBe("96385074");
+    expect(normalizeBarcode("4006381333931")).toBe("4006381333931");
+    expect(normalizeBarcode("10036000291459")).toBe("10036000291459");
+  });
+
+  it("should widen UPC-A codes to EAN-13", () => {
+    expect(normalizeBarcode("036000291452")).toBe("0036000291452");
+  });
+
+  it("should drop spaces and dashes", () => {
+    expect(normalizeBarcode(" 4 006381-333931 ")).toBe("4006381333931");
+  });
+
+  it("should reject a wrong check digit", () => {
+    expect(() => normalizeBarcode("4006381333932")).toThrow(
+      "invalid check digit"
+    );
+    expect(() => normalizeBarcode("036000291453")).toThrow(ValidationError);
+  });
+
+  it("should reject codes of other lengths or with other characters", () => {
+    for (const code of ["1234567", "12345678901", "123456789012345", "ABC"]) {
+      expect(() => normalizeBarcode(code)).toThrow(ValidationError);
+    }
+  });
+});
+
+describe("ProductCatalog", () => {
+  let inventory: HomeInventory;
+  let catalog: ProductCatalog;
+
+  const cola = {
+    barcode: "036000291452",
+    name: "Cola",
+    category: "drinks",
+    default_unit: "can",
+    shelf_life_days: 180,
+  };
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    catalog = inventory.catalog;
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("lookup", () => {
+    it("should find a product by either form of its barcode", async () => {
+      await catalog.saveProduct({ ...cola, barcode: "0036000291452" });
+
+      expect(await catalog.lookup("036000291452")).toMatchObject({
+        barcode: "0036000291452",
+        name: "Cola",
+      });
+      expect((await catalog.lookup("0036000291452")).name).toBe("Cola");
+    });
+
+    it("should reject a malformed barcode and miss an unknown one", async () => {
+      await expect(catalog.lookup("036000291453")).rejects.toThrow(
+        ValidationError
+      );
+      await expect(catalog.lookup("4006381333931")).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe("itemTemplate", () => {
+    it("should prefill an item expiring after the product's shelf life", async () => {
+      const product = await catalog.saveProduct({
+        ...cola,
+        barcode: "0036000291452",
+      });
+
+      expect(catalog.itemTemplate(product)).toMatchObject({
+        name: "Cola",
+        category: "drinks",
+        quantity: 1,
+        unit: "can",
+        barcode: "0036000291452",
+        purchase_date: dayjs().startOf("day").toDate(),
+        expiry_date: dayjs().startOf("day").add(180, "day").toDate(),
+      });
+    });
+  });
+
+  describe("importProducts", () => {
+    it("should create and update products in one batch and report bad rows", async () => {
+      await catalog.saveProduct({ ...cola, barcode: "0036000291452" });
+      const upsertMany = jest.spyOn(catalog.products, "upsertMany");
+      const emit = jest.spyOn(catalog.events, "emit");
+
+      const result = await catalog.importProducts(
+        [
+          { ...cola, name: "Cola Zero" },
+          { barcode: "4006381333931", name: "Pencils", category: "office" },
+          { barcode: "4006381333932", name: "Broken", category: "office" },
+          { barcode: "96385074", category: "snacks" },
+        ],
+        2
+      );
+
+      expect(result).toEqual({
+        created: 1,
+        updated: 1,
+        rejected: [
+          { row: 4, error: expect.stringContaining("check digit") },
+          { row: 5, error: expect.stringContaining("name") },
+        ],
+      });
+      expect(upsertMany).toHaveBeenCalledTimes(1);
+      expect(emit).toHaveBeenCalledTimes(2);
+      expect(emit).toHaveBeenCalledWith(
+        InventoryEventName.CATALOG_PRODUCT_SAVED,
+        { product: expect.objectContaining({ name: "Pencils" }) }
+      );
+      expect(
+        (await catalog.listProducts()).map(
+          ({ barcode, name, default_unit }) => [barcode, name, default_unit]
+        )
+      ).toEqual([
+        ["0036000291452", "Cola Zero", "can"],
+        ["4006381333931", "Pencils", "each"],
+      ]);
+    });
+
+    it("should keep the last row for a repeated barcode", async () => {
+      const result = await catalog.importProducts([
+        cola,
+        { ...cola, barcode: "0036000291452", name: "Cola Zero" },
+      ]);
+
+      expect(result).toEqual({ created: 1, updated: 1, rejected: [] });
+      expect((await catalog.lookup(cola.barcode)).name).toBe("Cola Zero");
+    });
+
+    it("should not write anything when every row is rejected", async () => {
+      const upsertMany = jest.spyOn(catalog.products, "upsertMany");
+
+      const result = await catalog.importProducts([{ barcode: "123" }]);
+
+      expect(result.rejected).toHaveLength(1);
+      expect(upsertMany).not.toHaveBeenCalled();
+    });
+  });
+});
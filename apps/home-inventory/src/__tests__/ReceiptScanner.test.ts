@@ -0,0 +1,265 @@
+/**
+ * Jest tests for receipt ingestion, against PostgreSQL and a fake Ollama
+ * model
+ */
+
+import dayjs from "dayjs";
+import { NotFoundError, UpstreamError, ValidationError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import ReceiptScanner from "../ReceiptScanner";
+import { InventoryItem } from "../types/HomeInventory";
+import { HouseholdId } from "../types/Household";
+import { ReceiptLineAction } from "../types/ReceiptScanner";
+import { StockMovementType } from "../types/StockMovement";
+import { createTestDatabase, emptyTestDatabase, fakeOllama } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+describe("ReceiptScanner", () => {
+  let inventory: HomeInventory;
+  let home: HouseholdId;
+  let neighbours: HouseholdId;
+  let bananas: InventoryItem;
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+    bananas = await inventory.createItem(home, {
+      name: "Organic Bananas",
+      category: "produce",
+      quantity: 2,
+      unit: "each",
+    });
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("propose", () => {
+    it("should top up matching items and create the rest", async () => {
+      const ollama = fakeOllama(
+        `\`\`\`json\n${JSON.stringify([
+          {
+            description: "ORG BNNS",
+            product: "Banana",
+            category: "produce",
+            quantity: 6,
+            unit: "each",
+            price: 1.99,
+          },
+          {
+            description: "BNNS CHIPS 200G",
+            product: "banana",
+            category: "snacks",
+            quantity: 0.2,
+            unit: "kg",
+            price: 2.5,
+          },
+          { description: "MYSTERY", product: "mystery item", quantity: -1 },
+          { description: "SUBTOTAL", product: "" },
+        ])}\n\`\`\``
+      );
+      const scanner = new ReceiptScanner(inventory, ollama);
+
+      const proposal = await scanner.propose(home, "ORG BNNS 1.99\n...");
+
+      expect(ollama.generate).toHaveBeenCalledWith(
+        expect.stringContaining("ORG BNNS 1.99")
+      );
+      expect(proposal).toEqual({
+        lines: [
+          expect.objectContaining({
+            product: "banana",
+            action: ReceiptLineAction.ADD_STOCK,
+            item_id: bananas.id,
+            item_name: "Organic Bananas",
+          }),
+          // Same name, but sold by weight, so not the counted bananas
+          expect.objectContaining({
+            product: "banana",
+            unit: "kg",
+            action: ReceiptLineAction.CREATE_ITEM,
+            item_id: null,
+          }),
+          {
+            description: "MYSTERY",
+            product: "mystery item",
+            category: "uncategorized",
+            quantity: 1,
+            unit: "each",
+            price: null,
+            action: ReceiptLineAction.CREATE_ITEM,
+            item_id: null,
+            item_name: null,
+          },
+        ],
+        total: null,
+      });
+      expect(await inventory.listItems(home)).toHaveLength(1);
+    });
+
+    it("should total a receipt whose lines are all priced", async () => {
+      const scanner = new ReceiptScanner(
+        inventory,
+        fakeOllama([
+          { product: "milk", price: 1.1 },
+          { product: "bread", price: 2.2 },
+        ])
+      );
+
+      expect((await scanner.propose(home, "...")).total).toBe(3.3);
+    });
+
+    it("should only match the household's own items", async () => {
+      const scanner = new ReceiptScanner(
+        inventory,
+        fakeOllama([{ product: "banana", unit: "each" }])
+      );
+
+      const { lines } = await scanner.propose(neighbours, "...");
+
+      expect(lines[0]!.action).toBe(ReceiptLineAction.CREATE_ITEM);
+    });
+
+    it("should fail when the model does not answer with a list", async () => {
+      const scanner = new ReceiptScanner(inventory, fakeOllama({}));
+
+      await expect(scanner.propose(home, "...")).rejects.toThrow(UpstreamError);
+    });
+  });
+
+  describe("commit", () => {
+    const scanner = () => new ReceiptScanner(inventory, fakeOllama([]));
+
+    it("should add and create items with the price, store and date of the purchase", async () => {
+      const result = await scanner().commit(home, {
+        store: "Corner Shop",
+        purchase_date: dayjs("2026-10-01").toDate(),
+        lines: [
+          {
+            item_id: bananas.id!,
+            name: "",
+            category: "",
+            quantity: 6,
+            unit: "each",
+            price: 1.99,
+          },
+          {
+            item_id: null,
+            name: "Oat Milk",
+            category: "drinks",
+            quantity: 2,
+            unit: "l",
+            price: 3.5,
+          },
+        ],
+      });
+
+      expect(result.added).toEqual([
+        expect.objectContaining({ id: bananas.id, quantity: 8 }),
+      ]);
+      expect(result.created).toEqual([
+        expect.objectContaining({
+          name: "Oat Milk",
+          quantity: 2,
+          purchase_date: dayjs("2026-10-01").toDate(),
+        }),
+      ]);
+      for (const item of [...result.added, ...result.created]) {
+        expect(
+          (await inventory.listMovements(home, item.id!))[0]
+        ).toMatchObject({
+          type: StockMovementType.ADD,
+          store: "Corner Shop",
+          purchased_on: dayjs("2026-10-01").toDate(),
+        });
+      }
+    });
+
+    it("should date the purchase today when no date is given", async () => {
+      const { added } = await scanner().commit(home, {
+        store: null,
+        purchase_date: null,
+        lines: [
+          {
+            item_id: bananas.id!,
+            name: "",
+            category: "",
+            quantity: 1,
+            unit: "each",
+            price: null,
+          },
+        ],
+      });
+
+      expect(
+        (await inventory.listMovements(home, added[0]!.id!))[0]!.purchased_on
+      ).toEqual(dayjs().startOf("day").toDate());
+    });
+
+    it("should write nothing when a line refers to a missing item", async () => {
+      const stale = {
+        store: null,
+        purchase_date: null,
+        lines: [
+          {
+            item_id: null,
+            name: "Oat Milk",
+            category: "drinks",
+            quantity: 2,
+            unit: "l",
+            price: null,
+          },
+          {
+            item_id: bananas.id!,
+            name: "",
+            category: "",
+            quantity: 6,
+            unit: "each",
+            price: null,
+          },
+        ],
+      };
+
+      await expect(scanner().commit(neighbours, stale)).rejects.toThrow(
+        NotFoundError
+      );
+      expect(await inventory.listItems(neighbours)).toEqual([]);
+    });
+
+    it("should write nothing when a line's unit differs from its item's", async () => {
+      await expect(
+        scanner().commit(home, {
+          store: null,
+          purchase_date: null,
+          lines: [
+            {
+              item_id: bananas.id!,
+              name: "",
+              category: "",
+              quantity: 1,
+              unit: "kg",
+              price: null,
+            },
+          ],
+        })
+      ).rejects.toThrow(ValidationError);
+      expect((await inventory.getItem(home, bananas.id!)).quantity).toBe(2);
+    });
+  });
+});
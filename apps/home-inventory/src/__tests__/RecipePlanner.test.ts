@@ -0,0 +1,173 @@
+/**
+ * Jest tests for recipe availability checks, against PostgreSQL and a fake
+ * Ollama model
+ */
+
+import dayjs from "dayjs";
+import { UpstreamError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import RecipePlanner from "../RecipePlanner";
+import { HouseholdId } from "../types/Household";
+import { IngredientStatus } from "../types/RecipePlanner";
+import { createTestDatabase, emptyTestDatabase, fakeOllama } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+describe("RecipePlanner", () => {
+  let inventory: HomeInventory;
+  let home: HouseholdId;
+
+  /** Store an item, optionally expiring `days` from today */
+  const stock = async (
+    name: string,
+    quantity: number,
+    unit: string,
+    days: number | null = null
+  ) =>
+    await inventory.createItem(home, {
+      name,
+      category: "pantry",
+      quantity,
+      unit,
+      expiry_date:
+        days === null ? null : dayjs().startOf("day").add(days, "day").toDate(),
+    });
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("normalizeIngredients", () => {
+    it("should send the ingredient list to the model and clean up its answer", async () => {
+      const ollama = fakeOllama(
+        `Here you go:\n${JSON.stringify([
+          {
+            original: "2 cups chopped Yellow Onions",
+            name: " Onion ",
+            quantity: 2,
+            unit: "Cup",
+          },
+          { original: "salt to taste", name: "salt", quantity: "some" },
+          { original: "love", name: "" },
+        ])}`
+      );
+      const planner = new RecipePlanner(inventory, ollama);
+
+      const ingredients = await planner.normalizeIngredients({
+        ingredients: [
+          { name: "chopped Yellow Onions", quantity: 2, unit: "cups" },
+          { name: "salt to taste" },
+        ],
+      });
+
+      expect(ollama.generate).toHaveBeenCalledWith(
+        expect.stringContaining("2 cups chopped Yellow Onions\nsalt to taste")
+      );
+      expect(ingredients).toEqual([
+        {
+          original: "2 cups chopped Yellow Onions",
+          name: "onion",
+          quantity: 2,
+          unit: "cup",
+        },
+        { original: "salt to taste", name: "salt", quantity: null, unit: null },
+      ]);
+    });
+
+    it("should fail when the model does not answer with a list", async () => {
+      const planner = new RecipePlanner(inventory, fakeOllama("I can't"));
+
+      await expect(
+        planner.normalizeIngredients({ text: "Pancakes" })
+      ).rejects.toThrow(UpstreamError);
+    });
+
+    it("should fail when the model cannot be reached", async () => {
+      const ollama = fakeOllama([]);
+      ollama.generate.mockRejectedValue(new Error("connect ECONNREFUSED"));
+      const planner = new RecipePlanner(inventory, ollama);
+
+      await expect(
+        planner.normalizeIngredients({ text: "Pancakes" })
+      ).rejects.toThrow("Could not reach the Ollama model");
+    });
+  });
+
+  describe("checkAvailability", () => {
+    it("should sort ingredients into available, insufficient and missing", async () => {
+      const eggs = await stock("Free Range Eggs", 6, "each", 2);
+      await stock("Whole Milk", 0.2, "l");
+      await stock("Plain Flour", 1, "kg");
+      await stock("Butter", 0, "g");
+      const planner = new RecipePlanner(
+        inventory,
+        fakeOllama([
+          { original: "3 eggs", name: "egg", quantity: 3, unit: null },
+          { original: "0.5 l milk", name: "milk", quantity: 0.5, unit: "l" },
+          { original: "2 cups flour", name: "flour", quantity: 2, unit: "cup" },
+          { original: "butter", name: "butter", quantity: 50, unit: "g" },
+        ])
+      );
+
+      const result = await planner.checkAvailability(home, {
+        text: "Pancakes",
+      });
+
+      expect(result).toMatchObject({
+        can_cook: false,
+        available: ["egg", "flour"],
+        insufficient: ["milk"],
+        missing: ["butter"],
+        expiring: ["egg"],
+      });
+      expect(result.ingredients[0]).toMatchObject({
+        status: IngredientStatus.AVAILABLE,
+        in_stock: 6,
+        items: [expect.objectContaining({ id: eggs.id })],
+        expiring: [
+          expect.objectContaining({ id: eggs.id, days_until_expiry: 2 }),
+        ],
+      });
+      // Cups cannot be compared with kilograms, so the flour is assumed enough
+      expect(result.ingredients[2]).toMatchObject({
+        status: IngredientStatus.AVAILABLE,
+        in_stock: null,
+      });
+    });
+
+    it("should say a recipe can be cooked when everything is in stock", async () => {
+      await stock("Spaghetti", 500, "g");
+      const planner = new RecipePlanner(
+        inventory,
+        fakeOllama([
+          {
+            original: "spaghetti",
+            name: "spaghetti",
+            quantity: 200,
+            unit: "g",
+          },
+        ])
+      );
+
+      expect(
+        await planner.checkAvailability(home, { text: "Spaghetti" })
+      ).toMatchObject({ can_cook: true, missing: [], insufficient: [] });
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Jest tests for the spend reports, against PostgreSQL
+ */
+
+import dayjs from "dayjs";
+import { ValidationError } from "../errors";
+import HomeInventory from "../HomeInventory";
+import SpendReports from "../SpendReports";
+import { InventoryItem } from "../types/HomeInventory";
+import { HouseholdId } from "../types/Household";
+import { SpendGrouping } from "../types/SpendReports";
+import { DiscardReason } from "../types/StockMovement";
+import { createTestDatabase, emptyTestDatabase, sql } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+/** A date at midnight, as purchase dates are stored */
+const day = (date: string): Date => dayjs(date).toDate();
+
+describe("SpendReports", () => {
+  let inventory: HomeInventory;
+  let reports: SpendReports;
+  let home: HouseholdId;
+  let milk: InventoryItem;
+  let yoghurt: InventoryItem;
+  let rice: InventoryItem;
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    reports = inventory.reports;
+    home = (await inventory.households.createHousehold({ name: "Home" }))
+      .id as HouseholdId;
+    const neighbours = (
+      await inventory.households.createHousehold({ name: "Neighbours" })
+    ).id as HouseholdId;
+
+    const expiry_date = dayjs().add(7, "day").toDate();
+    milk = await inventory.createItem(
+      home,
+      { name: "Milk", category: "dairy", quantity: 2, unit: "l", expiry_date },
+      { price: 3, store: "Market", purchased_on: day("2026-08-10") }
+    );
+    await inventory.addStock(home, milk.id!, 2, null, {
+      price: 4,
+      store: "Corner Shop",
+      purchased_on: day("2026-09-05"),
+    });
+    yoghurt = await inventory.createItem(home, {
+      name: "Yoghurt",
+      category: "dairy",
+      quantity: 2,
+      unit: "each",
+      expiry_date,
+    });
+    rice = await inventory.createItem(
+      home,
+      { name: "Rice", category: "pantry", quantity: 1, unit: "kg" },
+      { price: 5, store: "Market", purchased_on: day("2026-09-20") }
+    );
+    await inventory.createItem(
+      neighbours,
+      { name: "Caviar", category: "dairy", quantity: 1, unit: "each" },
+      { price: 100, store: "Market", purchased_on: day("2026-09-01") }
+    );
+  });
+
+  afterEach(async () => {
+    await inventory.close();
+  });
+
+  describe("spend", () => {
+    it("should total the household's priced purchases by category", async () => {
+      expect(await reports.spend(home, SpendGrouping.CATEGORY)).toEqual({
+        group_by: SpendGrouping.CATEGORY,
+        from: null,
+        to: null,
+        total: 12,
+        rows: [
+          { key: "dairy", spend: 7, purchases: 2 },
+          { key: "pantry", spend: 5, purchases: 1 },
+        ],
+      });
+    });
+
+    it("should total purchases by store and by month", async () => {
+      expect((await reports.spend(home, SpendGrouping.STORE)).rows).toEqual([
+        { key: "Market", spend: 8, purchases: 2 },
+        { key: "Corner Shop", spend: 4, purchases: 1 },
+      ]);
+      expect((await reports.spend(home, SpendGrouping.MONTH)).rows).toEqual([
+        { key: "2026-08", spend: 3, purchases: 1 },
+        { key: "2026-09", spend: 9, purchases: 2 },
+      ]);
+    });
+
+    it("should only count purchases within the range", async () => {
+      const report = await reports.spend(home, SpendGrouping.MONTH, {
+        from: day("2026-09-01"),
+        to: day("2026-09-10"),
+      });
+
+      expect(report).toMatchObject({
+        total: 4,
+        rows: [{ key: "2026-09", spend: 4, purchases: 1 }],
+      });
+    });
+
+    it("should keep counting purchases of deleted items", async () => {
+      await inventory.deleteItem(home, rice.id!);
+
+      expect((await reports.spend(home, SpendGrouping.CATEGORY)).total).toBe(
+        12
+      );
+    });
+  });
+
+  describe("discardedSpend", () => {
+    it("should value discarded perishables at their average unit price", async () => {
+      await inventory.discardStock(home, milk.id!, 1, DiscardReason.EXPIRED);
+      await inventory.discardStock(home, yoghurt.id!, 1, DiscardReason.SPOILED);
+      // Rice does not expire, so discarding it is not counted
+      await inventory.discardStock(home, rice.id!, 1, DiscardReason.DAMAGED);
+
+      expect(
+        await reports.discardedSpend(home, SpendGrouping.MONTH)
+      ).toMatchObject({
+        total: 1.75,
+        rows: [
+          {
+            key: dayjs().format("YYYY-MM"),
+            discarded_value: 1.75,
+            discards: 2,
+            unpriced_discards: 1,
+          },
+        ],
+      });
+    });
+
+    it("should refuse to group discards by store", async () => {
+      await expect(
+        reports.discardedSpend(home, SpendGrouping.STORE)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("waste", () => {
+    const thisMonth = dayjs().format("YYYY-MM");
+    const lastMonth = dayjs().subtract(1, "month").format("YYYY-MM");
+
+    beforeEach(async () => {
+      await inventory.discardStock(home, milk.id!, 1, DiscardReason.EXPIRED);
+      await inventory.discardStock(home, milk.id!, 0.5, DiscardReason.SPOILED);
+      await inventory.discardStock(home, yoghurt.id!, 1, DiscardReason.SPOILED);
+      await inventory.discardStock(home, rice.id!, 0.2, DiscardReason.DAMAGED);
+      // Yoghurt was discarded before reasons were tracked, rice a month ago
+      await sql(
+        `UPDATE stock_movements SET reason = NULL
+         WHERE item_id = $1 AND type = 'discard'`,
+        [yoghurt.id]
+      );
+      await sql(
+        `UPDATE stock_movements SET created_at = created_at - interval '1 month'
+         WHERE item_id = $1 AND type = 'discard'`,
+        [rice.id]
+      );
+    });
+
+    it("should total waste per month, category and unit by reason", async () => {
+      const report = await reports.waste(home);
+
+      expect(report.rows).toEqual([
+        {
+          month: lastMonth,
+          category: "pantry",
+          unit: "kg",
+          discards: 1,
+          quantity: 0.2,
+          cost: 1,
+          unpriced_discards: 0,
+          quantity_by_reason: {
+            expired: 0,
+            spoiled: 0,
+            damaged: 0.2,
+            other: 0,
+          },
+        },
+        {
+          month: thisMonth,
+          category: "dairy",
+          unit: "l",
+          discards: 2,
+          quantity: 1.5,
+          cost: 2.625,
+          unpriced_discards: 0,
+          quantity_by_reason: {
+            expired: 1,
+            spoiled: 0.5,
+            damaged: 0,
+            other: 0,
+          },
+        },
+        {
+          month: thisMonth,
+          category: "dairy",
+          unit: "each",
+          discards: 1,
+          quantity: 1,
+          cost: 0,
+          unpriced_discards: 1,
+          quantity_by_reason: { expired: 0, spoiled: 0, damaged: 0, other: 1 },
+        },
+      ]);
+      expect(report.months).toEqual([
+        {
+          month: lastMonth,
+          discards: 1,
+          cost: 1,
+          discards_by_reason: { expired: 0, spoiled: 0, damaged: 1, other: 0 },
+        },
+        {
+          month: thisMonth,
+          discards: 3,
+          cost: 2.63,
+          discards_by_reason: { expired: 1, spoiled: 1, damaged: 0, other: 1 },
+        },
+      ]);
+    });
+
+    it("should only count discards within the range", async () => {
+      const from = dayjs().startOf("month").toDate();
+
+      const report = await reports.waste(home, { from });
+
+      expect(report.from).toEqual(from);
+      expect(report.months.map(({ month }) => month)).toEqual([thisMonth]);
+      expect(report.rows).toHaveLength(2);
+    });
+  });
+});
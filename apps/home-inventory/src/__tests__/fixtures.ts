@@ -0,0 +1,105 @@
+import { randomBytes } from "crypto";
+import path from "path";
+import { Client } from "pg";
+import { OllamaClient, OllamaGenerateResponse } from "@platform/ollama";
+import { PostgresMigrator } from "@platform/persistence/migrations";
+
+/** The service's migrations, applied to every test database */
+const MIGRATIONS_DIR = path.join(__dirname, "../../migrations");
+
+/**
+ * Creates a database for the calling test file on the server globalSetup
+ * started, applies the service's migrations to it and points `POSTGRES_DB`
+ * at it, so that `HomeInventory.create()` and the other factories use it
+ * exactly as in production.
+ */
+export async function createTestDatabase(): Promise<void> {
+  const database = `home_inventory_${randomBytes(6).toString("hex")}`;
+  await withClient("postgres", (client) =>
+    client.query(`CREATE DATABASE ${database}`)
+  );
+
+  const migrator = PostgresMigrator.fromDirectory(
+    "home-inventory",
+    MIGRATIONS_DIR,
+    { database }
+  );
+  try {
+    await migrator.up();
+  } finally {
+    await migrator.close();
+  }
+
+  process.env["POSTGRES_DB"] = database;
+}
+
+/**
+ * Empties every table of the test database and restarts its ID sequences,
+ * keeping the applied migrations
+ */
+export async function emptyTestDatabase(): Promise<void> {
+  await withClient(process.env["POSTGRES_DB"]!, async (client) => {
+    const { rows } = await client.query<{ tablename: string }>(
+      `SELECT tablename FROM pg_tables
+       WHERE schemaname = 'public' AND tablename <> 'schema_migrations'`
+    );
+    const tables = rows.map(({ tablename }) => `"${tablename}"`).join(", ");
+    await client.query(`TRUNCATE ${tables} RESTART IDENTITY CASCADE`);
+  });
+}
+
+/**
+ * Runs a statement against the test database, for setting up what the API
+ * cannot, such as movements recorded days ago
+ */
+export async function sql<R extends Record<string, any> = any>(
+  text: string,
+  params: unknown[] = []
+): Promise<R[]> {
+  return await withClient(process.env["POSTGRES_DB"]!, async (client) => {
+    const { rows } = await client.query<R>(text, params);
+    return rows;
+  });
+}
+
+/**
+ * An Ollama client whose model answers every prompt with `answer`, encoded
+ * as JSON unless it is a string already
+ */
+export function fakeOllama(answer: unknown): jest.Mocked<OllamaClient> {
+  return {
+    model: "test",
+    generate: jest.fn<Promise<OllamaGenerateResponse>, [string]>(async () => ({
+      model: "test",
+      created_at: new Date().toISOString(),
+      response: typeof answer === "string" ? answer : JSON.stringify(answer),
+      done: true,
+      done_reason: "stop",
+      total_duration: 0,
+      load_duration: 0,
+      prompt_eval_count: 0,
+      prompt_eval_duration: 0,
+      eval_count: 0,
+      eval_duration: 0,
+    })),
+  };
+}
+
+async function withClient<R>(
+  database: string,
+  fn: (client: Client) => Promise<R>
+): Promise<R> {
+  const client = new Client({
+    host: process.env["POSTGRES_HOST"],
+    port: Number(process.env["POSTGRES_PORT"]),
+    user: process.env["POSTGRES_USER"],
+    password: process.env["POSTGRES_PASSWORD"],
+    database,
+  });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+}
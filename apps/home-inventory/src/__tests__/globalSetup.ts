@@ -0,0 +1,51 @@
+import EmbeddedPostgres from "embedded-postgres";
+import { createServer } from "net";
+import { tmpdir } from "os";
+import path from "path";
+
+/** The server the test run shares, stopped by globalTeardown */
+export interface TestGlobals {
+  postgres?: EmbeddedPostgres;
+}
+
+/**
+ * Starts a throwaway PostgreSQL server for the test run and points the
+ * standard `POSTGRES_*` variables at it. Test files each create their own
+ * database on it; see fixtures.ts.
+ */
+export default async function globalSetup(): Promise<void> {
+  const port = await freePort();
+  const postgres = new EmbeddedPostgres({
+    databaseDir: path.join(tmpdir(), `home-inventory-postgres-${port}`),
+    port,
+    user: "postgres",
+    password: "password",
+    persistent: false,
+    // PostgreSQL refuses to run as root, as in most containers
+    createPostgresUser: process.getuid?.() === 0,
+    onLog: () => {},
+  });
+  await postgres.initialise();
+  await postgres.start();
+  (globalThis as TestGlobals).postgres = postgres;
+
+  process.env["POSTGRES_HOST"] = "localhost";
+  process.env["POSTGRES_PORT"] = String(port);
+  process.env["POSTGRES_USER"] = "postgres";
+  process.env["POSTGRES_PASSWORD"] = "password";
+}
+
+async function freePort(): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on("error", reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() =>
+        typeof address === "object" && address
+          ? resolve(address.port)
+          : reject(new Error("No free port for PostgreSQL"))
+      );
+    });
+  });
+}
@@ -0,0 +1,8 @@
+import { TestGlobals } from "./globalSetup";
+
+/**
+ * Stops the server globalSetup started, deleting its data
+ */
+export default async function globalTeardown(): Promise<void> {
+  await (globalThis as TestGlobals).postgres?.stop();
+}
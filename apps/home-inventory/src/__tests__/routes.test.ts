@@ -0,0 +1,410 @@
+/**
+ * Jest tests for the HTTP API, against PostgreSQL
+ */
+
+import dayjs from "dayjs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { OllamaClient } from "@platform/ollama";
+import { createApp } from "../app";
+import HomeInventory from "../HomeInventory";
+import ReceiptScanner from "../ReceiptScanner";
+import RecipePlanner from "../RecipePlanner";
+import { createTestDatabase, emptyTestDatabase, fakeOllama } from "./fixtures";
+
+// Mock the utils module
+jest.mock("@platform/utils", () => ({
+  fetchEnvVar: jest.fn(
+    (key: string, defaultValue: string) => process.env[key] || defaultValue
+  ),
+}));
+
+describe("Home Inventory API", () => {
+  let inventory: HomeInventory;
+  let ollama: jest.Mocked<OllamaClient>;
+  let server: Server;
+  let baseUrl: string;
+
+  /** Send a request, with a JSON body when one is given */
+  const request = async (
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<{ status: number; body: any }> => {
+    const response = await fetch(`${baseUrl}/api/home-inventory${path}`, {
+      method,
+      ...(body === undefined
+        ? {}
+        : {
+            headers: { "Content-Type": "application/json" },
+            body: typeof body === "string" ? body : JSON.stringify(body),
+          }),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  /** Create a household and return its ID */
+  const createHousehold = async (name: string): Promise<number> => {
+    const response = await request("POST", "/households", { name });
+    expect(response.status).toBe(201);
+    return response.body.household.id;
+  };
+
+  beforeAll(async () => {
+    await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await emptyTestDatabase();
+    inventory = HomeInventory.create();
+    ollama = fakeOllama([]);
+    const app = createApp(
+      inventory,
+      new RecipePlanner(inventory, ollama),
+      new ReceiptScanner(inventory, ollama)
+    );
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await inventory.close();
+  });
+
+  describe("items", () => {
+    it("should create, read, update and delete an item", async () => {
+      const home = await createHousehold("Home");
+
+      const created = await request("POST", `/households/${home}/items`, {
+        name: "Milk",
+        category: "dairy",
+        quantity: 3,
+        unit: "l",
+      });
+      expect(created.status).toBe(201);
+      const id = created.body.item.id;
+
+      const read = await request("GET", `/households/${home}/items/${id}`);
+      expect(read.status).toBe(200);
+      expect(read.body.item).toMatchObject({ name: "Milk", quantity: 3 });
+
+      const path = `/households/${home}/items/${id}`;
+      const updated = await request("PATCH", path, { category: "drinks" });
+      expect(updated.status).toBe(200);
+      expect(updated.body.item.category).toBe("drinks");
+
+      const stale = await request("PATCH", path, {
+        category: "dairy",
+        version: 1,
+      });
+      expect(stale.status).toBe(409);
+      expect(
+        (await request("PATCH", path, { category: "dairy", version: "2" }))
+          .status
+      ).toBe(400);
+
+      const listed = await request("GET", `/households/${home}/items`);
+      expect(listed.body).toMatchObject({ count: 1 });
+
+      expect((await request("DELETE", path)).status).toBe(204);
+      expect((await request("GET", path)).status).toBe(404);
+    });
+
+    it("should reject an item without a name", async () => {
+      const home = await createHousehold("Home");
+
+      const response = await request("POST", `/households/${home}/items`, {
+        category: "dairy",
+        quantity: 1,
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual(expect.stringContaining("name"));
+    });
+
+    it("should reject IDs that are not positive integers", async () => {
+      const home = await createHousehold("Home");
+
+      for (const location_id of ["abc", "1.5", -1]) {
+        const response = await request("POST", `/households/${home}/items`, {
+          name: "Milk",
+          category: "dairy",
+          quantity: 1,
+          location_id,
+        });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toEqual(
+          expect.stringContaining("location_id")
+        );
+      }
+    });
+  });
+
+  describe("expiring items", () => {
+    it("should list items expiring within the requested days", async () => {
+      const home = await createHousehold("Home");
+      const expiring = (days: number) =>
+        dayjs().add(days, "day").format("YYYY-MM-DD");
+      for (const [name, days] of [
+        ["Yoghurt", 1],
+        ["Butter", 5],
+      ] as const) {
+        await request("POST", `/households/${home}/items`, {
+          name,
+          category: "dairy",
+          quantity: 1,
+          expiry_date: expiring(days),
+        });
+      }
+
+      const soon = await request("GET", `/households/${home}/items/expiring`);
+      expect(soon.status).toBe(200);
+      expect(soon.body).toMatchObject({
+        days: 3,
+        count: 1,
+        items: [{ name: "Yoghurt", days_until_expiry: 1 }],
+      });
+
+      const week = await request(
+        "GET",
+        `/households/${home}/items/expiring?days=7`
+      );
+      expect(week.body).toMatchObject({ days: 7, count: 2 });
+
+      expect(
+        (await request("GET", `/households/${home}/items/expiring?days=-1`))
+          .status
+      ).toBe(400);
+    });
+  });
+
+  describe("stock changes", () => {
+    it("should consume stock and refuse to take out more than is left", async () => {
+      const home = await createHousehold("Home");
+      const { body } = await request("POST", `/households/${home}/items`, {
+        name: "Rice",
+        category: "pantry",
+        quantity: 2,
+        unit: "kg",
+      });
+      const items = `/households/${home}/items/${body.item.id}`;
+
+      const consumed = await request("POST", `${items}/consume`, {
+        amount: 1.5,
+      });
+      expect(consumed.status).toBe(200);
+      expect(consumed.body.item.quantity).toBe(0.5);
+
+      const refused = await request("POST", `${items}/consume`, {
+        amount: 1,
+      });
+      expect(refused.status).toBe(409);
+
+      const movements = await request("GET", `${items}/movements`);
+      expect(movements.status).toBe(200);
+      expect(movements.body.movements).toHaveLength(2);
+    });
+
+    it("should forecast when an item runs out", async () => {
+      const home = await createHousehold("Home");
+      const { body } = await request("POST", `/households/${home}/items`, {
+        name: "Rice",
+        category: "pantry",
+        quantity: 10,
+        unit: "kg",
+      });
+      const items = `/households/${home}/items/${body.item.id}`;
+      await request("POST", `${items}/consume`, { amount: 2 });
+
+      const response = await request("GET", `${items}/forecast?window=7`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.forecast).toMatchObject({
+        item_id: body.item.id,
+        consumed: 2,
+        daily_rate: 2,
+        days_until_empty: 4,
+      });
+      expect((await request("GET", `${items}/forecast?window=-1`)).status).toBe(
+        400
+      );
+    });
+  });
+
+  describe("locations", () => {
+    it("should nest, move and delete locations", async () => {
+      const home = await createHousehold("Home");
+      const locations = `/households/${home}/locations`;
+      const garage = (await request("POST", locations, { name: "Garage" })).body
+        .location.id;
+      const freezer = (
+        await request("POST", locations, { name: "Freezer", parent_id: garage })
+      ).body.location.id;
+
+      const listed = await request("GET", locations);
+      expect(listed.status).toBe(200);
+      expect(listed.body.locations).toEqual([
+        expect.objectContaining({
+          name: "Garage",
+          children: [expect.objectContaining({ name: "Freezer" })],
+        }),
+      ]);
+
+      const cycle = await request("PATCH", `${locations}/${garage}`, {
+        parent_id: freezer,
+      });
+      expect(cycle.status).toBe(400);
+
+      expect((await request("DELETE", `${locations}/${garage}`)).status).toBe(
+        409
+      );
+      const moved = await request("PATCH", `${locations}/${freezer}`, {
+        parent_id: null,
+      });
+      expect(moved.status).toBe(200);
+      expect(moved.body.location.parent_id).toBeNull();
+      expect((await request("DELETE", `${locations}/${garage}`)).status).toBe(
+        204
+      );
+    });
+  });
+
+  describe("recipes", () => {
+    it("should check a recipe against the household's stock", async () => {
+      const home = await createHousehold("Home");
+      await request("POST", `/households/${home}/items`, {
+        name: "Eggs",
+        category: "dairy",
+        quantity: 6,
+      });
+      ollama.generate.mockImplementation(
+        fakeOllama([
+          { original: "2 eggs", name: "egg", quantity: 2, unit: null },
+          { original: "milk", name: "milk", quantity: null, unit: null },
+        ]).generate
+      );
+      const path = `/households/${home}/recipes/availability`;
+
+      const response = await request("POST", path, {
+        ingredients: [{ name: "eggs", quantity: 2 }, { name: "milk" }],
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        can_cook: false,
+        available: ["egg"],
+        missing: ["milk"],
+      });
+      expect((await request("POST", path, {})).status).toBe(400);
+
+      ollama.generate.mockRejectedValue(new Error("connect ECONNREFUSED"));
+      expect((await request("POST", path, { text: "Omelette" })).status).toBe(
+        502
+      );
+    });
+  });
+
+  describe("reports", () => {
+    it("should report spend grouped as asked", async () => {
+      const home = await createHousehold("Home");
+      await request("POST", `/households/${home}/items`, {
+        name: "Rice",
+        category: "pantry",
+        quantity: 1,
+        price: 5,
+        store: "Market",
+      });
+      const reports = `/households/${home}/reports`;
+
+      const spend = await request("GET", `${reports}/spend?group_by=store`);
+      expect(spend.status).toBe(200);
+      expect(spend.body).toMatchObject({
+        group_by: "store",
+        total: 5,
+        rows: [{ key: "Market", spend: 5, purchases: 1 }],
+      });
+
+      expect(
+        (await request("GET", `${reports}/spend?group_by=brand`)).status
+      ).toBe(400);
+      expect(
+        (await request("GET", `${reports}/spend/discarded?group_by=store`))
+          .status
+      ).toBe(400);
+    });
+
+    it("should report waste within the range", async () => {
+      const home = await createHousehold("Home");
+      const reports = `/households/${home}/reports`;
+
+      const waste = await request("GET", `${reports}/waste?from=2026-01-01`);
+      expect(waste.status).toBe(200);
+      expect(waste.body).toMatchObject({ to: null, months: [], rows: [] });
+
+      expect(
+        (await request("GET", `${reports}/waste?from=last-week`)).status
+      ).toBe(400);
+    });
+  });
+
+  describe("household scoping", () => {
+    it("should reject an invalid household ID", async () => {
+      expect((await request("GET", "/households/abc/items")).status).toBe(400);
+    });
+
+    it("should answer 404 for an unknown household", async () => {
+      expect((await request("GET", "/households/999/items")).status).toBe(404);
+    });
+
+    it("should not reach another household's items", async () => {
+      const home = await createHousehold("Home");
+      const neighbours = await createHousehold("Neighbours");
+      const { body } = await request("POST", `/households/${home}/items`, {
+        name: "Milk",
+        category: "dairy",
+        quantity: 1,
+      });
+      const path = `/households/${neighbours}/items/${body.item.id}`;
+
+      expect((await request("GET", path)).status).toBe(404);
+      expect(
+        (await request("POST", `${path}/consume`, { amount: 1 })).status
+      ).toBe(404);
+      expect((await request("DELETE", path)).status).toBe(404);
+    });
+  });
+
+  describe("import", () => {
+    it("should dry-run a JSON import by default", async () => {
+      const home = await createHousehold("Home");
+
+      const response = await request("POST", `/households/${home}/import`, [
+        { name: "Flour", category: "pantry", quantity: 1, unit: "kg" },
+      ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        dry_run: true,
+        summary: { create: 1 },
+      });
+      expect(await inventory.listItems(home)).toEqual([]);
+    });
+
+    it("should reject malformed JSON", async () => {
+      const home = await createHousehold("Home");
+
+      const response = await request(
+        "POST",
+        `/households/${home}/import`,
+        "{ not json"
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
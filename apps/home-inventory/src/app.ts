@@ -0,0 +1,78 @@
+import express, { Express, NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { VersionConflictError } from "@platform/persistence";
+import * as consts from "./consts";
+import { correlationId } from "./correlation";
+import HomeInventory from "./HomeInventory";
+import { HomeInventoryError } from "./errors";
+import ReceiptScanner from "./ReceiptScanner";
+import RecipePlanner from "./RecipePlanner";
+import { homeInventoryRouter } from "./routes/home-inventory-router";
+
+/**
+ * Creates and configures the Express application for Home Inventory
+ *
+ * @param inventory - The inventory service backing the routes
+ * @param planner - The recipe planner backing the recipe routes
+ * @param scanner - The receipt scanner backing the receipt routes
+ * @returns Configured Express app
+ */
+export function createApp(
+  inventory: HomeInventory,
+  planner: RecipePlanner,
+  scanner: ReceiptScanner
+): Express {
+  const app = express();
+
+  // Middleware
+  app.use(correlationId());
+  app.use(express.json({ limit: consts.IMPORT_BODY_LIMIT }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // Routes
+  app.use(
+    "/api/home-inventory",
+    homeInventoryRouter(inventory, planner, scanner)
+  );
+
+  // Root endpoint
+  app.get("/", (_req: Request, res: Response) => {
+    res.json({
+      message: "Home Inventory API",
+      version: "1.0.0",
+    });
+  });
+
+  // Error handling middleware
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof HomeInventoryError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+
+    // An update sent with a stale version
+    if (err instanceof VersionConflictError) {
+      res.status(StatusCodes.CONFLICT).json({ error: err.message });
+      return;
+    }
+
+    // body-parser errors, such as malformed JSON or an oversized body,
+    // carry the client error status to answer with
+    const { status, expose } = err as Error & {
+      status?: number;
+      expose?: boolean;
+    };
+    if (expose && status && status < StatusCodes.INTERNAL_SERVER_ERROR) {
+      res.status(status).json({ error: err.message });
+      return;
+    }
+
+    console.error("Error:", err);
+    res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+      error: "Internal server error",
+      message: err.message,
+    });
+  });
+
+  return app;
+}
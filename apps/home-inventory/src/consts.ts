@@ -0,0 +1,49 @@
+export const ITEMS_TABLE = "inventory_items";
+
+export const DEFAULT_UNIT = "each";
+
+/** How far ahead, in days, an item counts as "expiring soon" */
+export const EXPIRING_SOON_DAYS = 3;
+
+/** How often the expiry sweep runs (once a day) */
+export const EXPIRY_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export const KAFKA_CLIENT_ID = "home-inventory";
+
+export const ITEM_EXPIRING_EVENT = "inventory.item.expiring";
+
+export const SHOPPING_LIST_TABLE = "shopping_list_entries";
+
+export const STOCK_MOVEMENTS_TABLE = "stock_movements";
+
+/** How often a stock change is retried when the item changed concurrently */
+export const STOCK_WRITE_ATTEMPTS = 3;
+
+/** How many days of consumption history the usage forecast looks at */
+export const FORECAST_WINDOW_DAYS = 30;
+
+export const LOCATIONS_TABLE = "storage_locations";
+
+export const CATALOG_TABLE = "catalog_products";
+
+export const HOUSEHOLDS_TABLE = "households";
+
+export const HOUSEHOLD_MEMBERS_TABLE = "household_members";
+
+/** Largest request body accepted, sized for bulk imports */
+export const IMPORT_BODY_LIMIT = "5mb";
+
+/** Joins location names in exported paths, e.g. "House > Kitchen > Pantry" */
+export const LOCATION_PATH_SEPARATOR = " > ";
+
+/** Topic all inventory domain events are published to */
+export const EVENTS_TOPIC = "inventory.events";
+
+/** Version of the domain event envelope and payloads */
+export const EVENT_SCHEMA_VERSION = 1;
+
+/** Request/response header carrying the correlation ID */
+export const CORRELATION_ID_HEADER = "X-Correlation-ID";
+
+/** Category given to receipt lines the model could not place */
+export const DEFAULT_CATEGORY = "uncategorized";
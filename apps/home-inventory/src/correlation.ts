@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import * as consts from "./consts";
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Runs each request with a correlation ID, taken from the
+ * `X-Correlation-ID` request header when the caller sent one and generated
+ * otherwise. The ID is echoed on the response and stamped on every event
+ * published while the request is handled.
+ *
+ * @returns Express middleware
+ */
+export function correlationId(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get(consts.CORRELATION_ID_HEADER)?.trim();
+    const id =
+      header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+
+    res.setHeader(consts.CORRELATION_ID_HEADER, id);
+    storage.run(id, next);
+  };
+}
+
+/**
+ * Returns the correlation ID of the request being handled, if any.
+ *
+ * @returns {string | undefined} The current correlation ID
+ */
+export function currentCorrelationId(): string | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,113 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Parses RFC 4180 CSV text into one object per row, keyed by the header
+ * row. Quoted fields may contain commas, escaped quotes ("") and newlines.
+ * Blank lines are skipped.
+ *
+ * @param {string} text - The CSV document
+ * @returns {Record<string, string>[]} The data rows
+ * @throws {ValidationError} When a quoted field is never closed
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      endRecord();
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new ValidationError("CSV contains an unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  const [header, ...rows] = records;
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ""])
+    )
+  );
+}
+
+/**
+ * Formats rows as RFC 4180 CSV with a header row. Fields containing commas,
+ * quotes or line breaks are quoted; `null` and `undefined` become empty
+ * fields.
+ *
+ * @param {string[]} columns - The columns to write, in order
+ * @param {object[]} rows - The records to write
+ * @returns {string} The CSV document
+ */
+export function toCsv<T extends object>(
+  columns: (keyof T & string)[],
+  rows: T[]
+): string {
+  const lines = [columns.map(formatField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => formatField(row[column])).join(","));
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+function formatField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
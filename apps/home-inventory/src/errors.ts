@@ -0,0 +1,54 @@
+import { StatusCodes } from "http-status-codes";
+
+/**
+ * Base class for errors raised by the Home Inventory domain. Each error
+ * carries the HTTP status the API should answer with, so controllers can
+ * hand them straight to `next()` and let the app's error handler respond.
+ */
+export class HomeInventoryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = this.constructor.name;
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when a request body or query does not describe a valid item.
+ */
+export class ValidationError extends HomeInventoryError {
+  constructor(message: string) {
+    super(message, StatusCodes.BAD_REQUEST);
+  }
+}
+
+/**
+ * Raised when the requested record does not exist.
+ */
+export class NotFoundError extends HomeInventoryError {
+  constructor(resource: string, id: number | string) {
+    super(`${resource} '${id}' not found`, StatusCodes.NOT_FOUND);
+  }
+}
+
+/**
+ * Raised when a request conflicts with the current state of a record, such
+ * as consuming more stock than is on hand.
+ */
+export class ConflictError extends HomeInventoryError {
+  constructor(message: string) {
+    super(message, StatusCodes.CONFLICT);
+  }
+}
+
+/**
+ * Raised when a service the inventory depends on, such as the Ollama model,
+ * fails or returns something unusable.
+ */
+export class UpstreamError extends HomeInventoryError {
+  constructor(message: string) {
+    super(message, StatusCodes.BAD_GATEWAY);
+  }
+}
@@ -0,0 +1,43 @@
+import { OllamaClient } from "@platform/ollama";
+import { UpstreamError } from "./errors";
+
+/**
+ * Sends a prompt that asks for a JSON array and returns the parsed array.
+ * Models often wrap their answer in prose or code fences, so the outermost
+ * `[...]` in the response is used.
+ *
+ * @param {OllamaClient} ollamaClient - The Ollama client to ask
+ * @param {string} prompt - The prompt, which must request a JSON array
+ * @param {string} expected - What the array holds, for error messages
+ * @returns {Promise<unknown[]>} The parsed array
+ * @throws {UpstreamError} When the model cannot be reached or does not answer with an array
+ */
+export async function generateJsonArray(
+  ollamaClient: OllamaClient,
+  prompt: string,
+  expected: string
+): Promise<unknown[]> {
+  let response: string;
+  try {
+    response = (await ollamaClient.generate(prompt)).response;
+  } catch (error) {
+    throw new UpstreamError(
+      `Could not reach the Ollama model: ${(error as Error).message}`
+    );
+  }
+
+  const start = response.indexOf("[");
+  const end = response.lastIndexOf("]");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    parsed = undefined;
+  }
+  if (start === -1 || !Array.isArray(parsed)) {
+    throw new UpstreamError(`The Ollama model did not return ${expected}`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,54 @@
+/**
+ * Loose name matching between free-form product names (from recipes or
+ * receipts) and inventory items. Names are compared word by word after
+ * lower-casing and naive singularization, so "onion" matches "Red Onions"
+ * and "olive oil" matches "Extra Virgin Olive Oil".
+ */
+
+/**
+ * Tells whether every word of `query` appears in `name`.
+ *
+ * @param {string} query - The normalized product name to look for
+ * @param {string} name - The inventory item name to test
+ * @returns {boolean} True when the item is a match
+ */
+export function nameMatches(query: string, name: string): boolean {
+  const wanted = words(query);
+  const have = new Set(words(name));
+
+  return wanted.length > 0 && wanted.every((word) => have.has(word));
+}
+
+/**
+ * Tells whether two units name the same thing, ignoring case and plurals
+ * ("Cups" and "cup").
+ *
+ * @param {string} a - A unit
+ * @param {string} b - Another unit
+ * @returns {boolean} True when the units agree
+ */
+export function sameUnit(a: string, b: string): boolean {
+  return singular(a) === singular(b);
+}
+
+function words(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word !== "")
+    .map(singular);
+}
+
+function singular(word: string): string {
+  const lower = word.trim().toLowerCase();
+  if (lower.endsWith("ies") && lower.length > 4) {
+    return `${lower.slice(0, -3)}y`;
+  }
+  if (lower.endsWith("oes") || /(ch|sh|x)es$/.test(lower)) {
+    return lower.slice(0, -2);
+  }
+  if (lower.endsWith("s") && !lower.endsWith("ss") && lower.length > 3) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+}
@@ -0,0 +1,121 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { parseCsv } from "../csv";
+import { ValidationError } from "../errors";
+import ProductCatalog from "../ProductCatalog";
+import { asBody, parseCatalogProductInput } from "../validation";
+
+/**
+ * List every product in the catalog
+ */
+export function listProducts(catalog: ProductCatalog): RequestHandler {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const products = await catalog.listProducts();
+
+      res.status(StatusCodes.OK).json({
+        count: products.length,
+        products,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Resolve a scanned barcode to its product and a prefilled item that can be
+ * posted to `/items` as-is
+ *
+ * @param req.params.barcode - The scanned UPC/EAN barcode
+ */
+export function lookupProduct(catalog: ProductCatalog): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const product = await catalog.lookup(String(req.params["barcode"]));
+
+      res.status(StatusCodes.OK).json({
+        product,
+        template: catalog.itemTemplate(product),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Add or replace the product for a barcode
+ *
+ * @param req.params.barcode - The product's UPC/EAN barcode
+ * @param req.body - The product fields (name, category, default_unit, shelf_life_days)
+ */
+export function saveProduct(catalog: ProductCatalog): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const product = await catalog.saveProduct(
+        parseCatalogProductInput({
+          ...asBody(req.body),
+          barcode: req.params["barcode"],
+        })
+      );
+
+      res.status(StatusCodes.OK).json({ product });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Remove a product from the catalog
+ *
+ * @param req.params.barcode - The product's UPC/EAN barcode
+ */
+export function deleteProduct(catalog: ProductCatalog): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await catalog.deleteProduct(String(req.params["barcode"]));
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Bulk import products. Accepts a CSV document (`text/csv`) with a header
+ * row, a JSON array of products, or `{ "products": [...] }`.
+ *
+ * @param req.body - The products to import
+ */
+export function importProducts(catalog: ProductCatalog): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result =
+        typeof req.body === "string"
+          ? await catalog.importProducts(parseCsv(req.body), 2)
+          : await catalog.importProducts(jsonRows(req.body));
+
+      res.status(StatusCodes.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function jsonRows(body: unknown): unknown[] {
+  if (Array.isArray(body)) {
+    return body;
+  }
+
+  const products = asBody(body)["products"];
+  if (!Array.isArray(products)) {
+    throw new ValidationError(
+      "Expected a CSV document, a JSON array or an object with a 'products' array"
+    );
+  }
+
+  return products;
+}
@@ -0,0 +1,35 @@
+import express, { Router } from "express";
+import * as consts from "../consts";
+import ProductCatalog from "../ProductCatalog";
+import {
+  listProducts,
+  lookupProduct,
+  saveProduct,
+  deleteProduct,
+  importProducts,
+} from "./catalog-controller";
+
+/**
+ * Creates and configures the barcode product catalog router
+ *
+ * @param catalog - The product catalog the handlers operate on
+ * @returns Configured Express router
+ */
+export function catalogRouter(catalog: ProductCatalog): Router {
+  const router = Router();
+
+  router.get("/", listProducts(catalog));
+  router.post(
+    "/import",
+    express.text({
+      type: ["text/csv", "text/plain"],
+      limit: consts.IMPORT_BODY_LIMIT,
+    }),
+    importProducts(catalog)
+  );
+  router.get("/:barcode", lookupProduct(catalog));
+  router.put("/:barcode", saveProduct(catalog));
+  router.delete("/:barcode", deleteProduct(catalog));
+
+  return router;
+}
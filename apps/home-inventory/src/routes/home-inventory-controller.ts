@@ -1,11 +1,393 @@
-import { NextFunction, Request, Response } from "express";
-
-export function getHomeInventory(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  res.status(200).json({
-    message: "Hello World",
-  });
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import * as consts from "../consts";
+import HomeInventory from "../HomeInventory";
+import { ValidationError } from "../errors";
+import {
+  idParam,
+  nonNegativeNumber,
+  optionalId,
+  optionalIdParam,
+  optionalString,
+  parseItemInput,
+  parseDiscardReason,
+  parseItemUpdate,
+  parsePurchaseDetails,
+  positiveNumber,
+} from "../validation";
+import { InventoryItemFilter } from "../types/HomeInventory";
+
+/**
+ * Health check endpoint
+ */
+export function getHealth(inventory: HomeInventory): RequestHandler {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const database = await inventory.healthCheck();
+
+      res
+        .status(database ? StatusCodes.OK : StatusCodes.SERVICE_UNAVAILABLE)
+        .json({
+          status: database ? "healthy" : "unhealthy",
+          service: "home-inventory",
+        });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create a new inventory item
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - The item fields (name, category, quantity, unit, min_quantity, location, location_id, barcode, purchase_date, expiry_date)
+ * @param req.body.price - Optional total paid for the starting quantity
+ * @param req.body.store - Optional store it was bought at
+ */
+export function createItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await inventory.createItem(
+        idParam(req.params, "householdId"),
+        parseItemInput(req.body),
+        parsePurchaseDetails(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List a household's inventory items
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.category - Optional category to filter by
+ * @param req.query.location - Optional location to filter by
+ * @param req.query.owner_id - Optional owner to filter by
+ */
+export function listItems(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = req.query as Record<string, unknown>;
+      const filter: InventoryItemFilter = {};
+      const category = optionalString(query, "category");
+      if (category) {
+        filter.category = category;
+      }
+      const location = optionalString(query, "location");
+      if (location) {
+        filter.location = location;
+      }
+      const owner = optionalIdParam(query, "owner_id");
+      if (owner !== undefined) {
+        filter.owner_id = owner;
+      }
+
+      const items = await inventory.listItems(
+        idParam(req.params, "householdId"),
+        filter
+      );
+
+      res.status(StatusCodes.OK).json({
+        count: items.length,
+        items,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List items that expire within the given number of days, including items
+ * that have already expired
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.days - Optional look-ahead window in days (defaults to 3)
+ */
+export function listExpiringItems(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const days =
+        nonNegativeNumber(req.query as Record<string, unknown>, "days") ??
+        consts.EXPIRING_SOON_DAYS;
+
+      const items = await inventory.listExpiringItems(
+        idParam(req.params, "householdId"),
+        days
+      );
+
+      res.status(StatusCodes.OK).json({
+        days,
+        count: items.length,
+        items,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Get a single inventory item
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ */
+export function getItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await inventory.getItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Update fields of an inventory item
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body - The fields to change
+ * @param req.body.version - Optional version last read; a stale one answers 409
+ */
+export function updateItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await inventory.updateItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        parseItemUpdate(req.body)
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Put an amount into an item's stock
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body.amount - How much was added, in the item's unit
+ * @param req.body.note - Optional note for the stock ledger
+ * @param req.body.price - Optional total paid for the amount
+ * @param req.body.store - Optional store it was bought at
+ * @param req.body.purchase_date - Optional purchase date (ISO 8601)
+ */
+export function addStock(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+      const item = await inventory.addStock(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        positiveNumber(body, "amount"),
+        optionalString(body, "note") ?? null,
+        parsePurchaseDetails(body)
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Take an amount out of an item's stock
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body.amount - How much was used, in the item's unit
+ * @param req.body.note - Optional note for the stock ledger
+ */
+export function consumeItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+      const item = await inventory.consumeItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        positiveNumber(body, "amount"),
+        optionalString(body, "note") ?? null
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Throw an amount of an item away
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body.amount - How much was discarded, in the item's unit
+ * @param req.body.reason - Why: "expired", "spoiled", "damaged" or "other"
+ * @param req.body.note - Optional note for the stock ledger
+ */
+export function discardStock(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+      const item = await inventory.discardStock(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        positiveNumber(body, "amount"),
+        parseDiscardReason(body),
+        optionalString(body, "note") ?? null
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Correct an item's quantity after a stock take
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body.quantity - The counted quantity
+ * @param req.body.note - Optional note for the stock ledger
+ */
+export function adjustStock(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+      const quantity = nonNegativeNumber(body, "quantity");
+      if (quantity === undefined) {
+        throw new ValidationError("Missing required field: quantity");
+      }
+
+      const item = await inventory.adjustStock(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        quantity,
+        optionalString(body, "note") ?? null
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List an item's stock movements, newest first
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ */
+export function listMovements(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const movements = await inventory.listMovements(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.OK).json({
+        count: movements.length,
+        movements,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Forecast when an item will run out from its recent consumption rate
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.query.window - Optional number of days of history to use (defaults to 30)
+ */
+export function forecastItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const window =
+        nonNegativeNumber(req.query as Record<string, unknown>, "window") ||
+        consts.FORECAST_WINDOW_DAYS;
+
+      const forecast = await inventory.forecastItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        window
+      );
+
+      res.status(StatusCodes.OK).json({ forecast });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Move an item to another storage location
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ * @param req.body.location_id - The destination location, or null to unassign
+ */
+export function moveItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const locationId = optionalId(req.body ?? {}, "location_id");
+      if (locationId === undefined) {
+        throw new ValidationError("Missing required field: location_id");
+      }
+
+      const item = await inventory.moveItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        locationId
+      );
+
+      res.status(StatusCodes.OK).json({ item });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Delete an inventory item
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The item ID
+ */
+export function deleteItem(inventory: HomeInventory): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await inventory.deleteItem(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
 }
@@ -1,7 +1,129 @@
-import { Router } from "express";
-import { getHomeInventory } from "./home-inventory-controller";
+import express, { Router } from "express";
+import * as consts from "../consts";
+import HomeInventory from "../HomeInventory";
+import InventoryTransfer from "../InventoryTransfer";
+import ReceiptScanner from "../ReceiptScanner";
+import RecipePlanner from "../RecipePlanner";
+import {
+  getHealth,
+  createItem,
+  listItems,
+  listExpiringItems,
+  getItem,
+  updateItem,
+  addStock,
+  consumeItem,
+  discardStock,
+  adjustStock,
+  listMovements,
+  forecastItem,
+  moveItem,
+  deleteItem,
+} from "./home-inventory-controller";
+import { catalogRouter } from "./catalog-router";
+import { requireHousehold } from "./households-controller";
+import { householdsRouter } from "./households-router";
+import { locationsRouter } from "./locations-router";
+import { receiptsRouter } from "./receipts-router";
+import { reportsRouter } from "./reports-router";
+import { recipesRouter } from "./recipes-router";
+import { shoppingListRouter } from "./shopping-list-router";
+import { exportInventory, importInventory } from "./transfer-controller";
 
-export function homeInventoryRouter() {
+/**
+ * Creates and configures the Home Inventory router with all endpoints.
+ * Inventory routes live under `/households/:householdId`; only the health
+ * check, the shared barcode catalog and household management sit outside
+ * a household.
+ *
+ * The API does not authenticate callers: households are kept apart only by
+ * the ID in the path, and anyone who can reach the API can read and change
+ * every household. It is meant for a single trusted home network and must
+ * not be exposed beyond it, or only behind a gateway that authenticates
+ * users and restricts them to their own households.
+ *
+ * @param inventory - The inventory service the handlers operate on
+ * @param planner - The recipe planner the recipe handlers operate on
+ * @param scanner - The receipt scanner the receipt handlers operate on
+ * @returns Configured Express router
+ */
+export function homeInventoryRouter(
+  inventory: HomeInventory,
+  planner: RecipePlanner,
+  scanner: ReceiptScanner
+): Router {
   const router = Router();
-  router.get("/", getHomeInventory);
+
+  // Health check
+  router.get("/health", getHealth(inventory));
+
+  // Barcode catalog
+  router.use("/catalog", catalogRouter(inventory.catalog));
+
+  // Households and members
+  router.use("/households", householdsRouter(inventory.households));
+
+  // Everything scoped to one household
+  router.use(
+    "/households/:householdId",
+    householdRouter(inventory, planner, scanner)
+  );
+
+  return router;
+}
+
+function householdRouter(
+  inventory: HomeInventory,
+  planner: RecipePlanner,
+  scanner: ReceiptScanner
+): Router {
+  const router = Router({ mergeParams: true });
+
+  router.use(requireHousehold(inventory.households));
+
+  // Item CRUD
+  router.post("/items", createItem(inventory));
+  router.get("/items", listItems(inventory));
+  router.get("/items/expiring", listExpiringItems(inventory));
+  router.get("/items/:id", getItem(inventory));
+  router.patch("/items/:id", updateItem(inventory));
+  router.delete("/items/:id", deleteItem(inventory));
+
+  // Stock changes
+  router.post("/items/:id/add", addStock(inventory));
+  router.post("/items/:id/consume", consumeItem(inventory));
+  router.post("/items/:id/discard", discardStock(inventory));
+  router.post("/items/:id/adjust", adjustStock(inventory));
+  router.get("/items/:id/movements", listMovements(inventory));
+  router.get("/items/:id/forecast", forecastItem(inventory));
+
+  // Storage locations
+  router.post("/items/:id/move", moveItem(inventory));
+  router.use("/locations", locationsRouter(inventory.locations));
+
+  // Shopping list
+  router.use("/shopping-list", shoppingListRouter(inventory.shoppingList));
+
+  // Recipes
+  router.use("/recipes", recipesRouter(planner));
+
+  // Receipts
+  router.use("/receipts", receiptsRouter(scanner));
+
+  // Spend and waste reports
+  router.use("/reports", reportsRouter(inventory.reports));
+
+  // Bulk import/export
+  const transfer = new InventoryTransfer(inventory);
+  router.get("/export", exportInventory(transfer));
+  router.post(
+    "/import",
+    express.text({
+      type: ["text/csv", "text/plain"],
+      limit: consts.IMPORT_BODY_LIMIT,
+    }),
+    importInventory(transfer)
+  );
+
+  return router;
 }
@@ -0,0 +1,185 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import Households from "../Households";
+import {
+  idParam,
+  parseHouseholdInput,
+  parseHouseholdMemberInput,
+} from "../validation";
+
+/**
+ * Answer 404 for routes under an unknown household before any handler runs.
+ * This only checks that the household exists, not that the caller belongs
+ * to it; see homeInventoryRouter().
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function requireHousehold(households: Households): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      await households.getHousehold(idParam(req.params, "householdId"));
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List every household
+ */
+export function listHouseholds(households: Households): RequestHandler {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = await households.listHouseholds();
+
+      res.status(StatusCodes.OK).json({
+        count: list.length,
+        households: list,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create a household
+ *
+ * @param req.body.name - The household name
+ */
+export function createHousehold(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const household = await households.createHousehold(
+        parseHouseholdInput(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json({ household });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Get a household with its members
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function getHousehold(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idParam(req.params, "householdId");
+      const household = await households.getHousehold(id);
+      const members = await households.listMembers(id);
+
+      res.status(StatusCodes.OK).json({ household, members });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Rename a household
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body.name - The new name
+ */
+export function updateHousehold(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const household = await households.updateHousehold(
+        idParam(req.params, "householdId"),
+        parseHouseholdInput(req.body)
+      );
+
+      res.status(StatusCodes.OK).json({ household });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Delete a household that no longer holds items or locations
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function deleteHousehold(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await households.deleteHousehold(idParam(req.params, "householdId"));
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List a household's members
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function listMembers(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const members = await households.listMembers(
+        idParam(req.params, "householdId")
+      );
+
+      res.status(StatusCodes.OK).json({
+        count: members.length,
+        members,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Add a member to a household
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - The member fields (name, email)
+ */
+export function addMember(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const member = await households.addMember(
+        idParam(req.params, "householdId"),
+        parseHouseholdMemberInput(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json({ member });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Remove a member from a household; their items become shared
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.memberId - The member ID
+ */
+export function removeMember(households: Households): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await households.removeMember(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "memberId")
+      );
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import Households from "../Households";
+import {
+  listHouseholds,
+  createHousehold,
+  getHousehold,
+  updateHousehold,
+  deleteHousehold,
+  listMembers,
+  addMember,
+  removeMember,
+} from "./households-controller";
+
+/**
+ * Creates and configures the households router
+ *
+ * @param households - The households the handlers operate on
+ * @returns Configured Express router
+ */
+export function householdsRouter(households: Households): Router {
+  const router = Router();
+
+  router.get("/", listHouseholds(households));
+  router.post("/", createHousehold(households));
+  router.get("/:householdId", getHousehold(households));
+  router.patch("/:householdId", updateHousehold(households));
+  router.delete("/:householdId", deleteHousehold(households));
+
+  // Members
+  router.get("/:householdId/members", listMembers(households));
+  router.post("/:householdId/members", addMember(households));
+  router.delete("/:householdId/members/:memberId", removeMember(households));
+
+  return router;
+}
@@ -0,0 +1,136 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import LocationTree from "../LocationTree";
+import {
+  idParam,
+  parseLocationInput,
+  parseLocationUpdate,
+} from "../validation";
+
+/**
+ * List every storage location of a household as a tree
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function listLocations(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tree = await locations.listTree(idParam(req.params, "householdId"));
+
+      res.status(StatusCodes.OK).json({ locations: tree });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Create a storage location
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - The location fields (name, kind, parent_id)
+ */
+export function createLocation(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const location = await locations.createLocation(
+        idParam(req.params, "householdId"),
+        parseLocationInput(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json({ location });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Get a storage location with its path from the root and its direct children
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The location ID
+ */
+export function getLocation(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const householdId = idParam(req.params, "householdId");
+      const id = idParam(req.params, "id");
+      const location = await locations.getLocation(householdId, id);
+      const path = await locations.getPath(householdId, id);
+      const children = await locations.listChildren(householdId, id);
+
+      res.status(StatusCodes.OK).json({ location, path, children });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * List every item in a storage location or anywhere beneath it
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The location ID
+ */
+export function listItemsUnder(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const items = await locations.listItemsUnder(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.OK).json({
+        count: items.length,
+        items,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Rename or re-parent a storage location
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The location ID
+ * @param req.body - The fields to change (name, kind, parent_id)
+ */
+export function updateLocation(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const location = await locations.updateLocation(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        parseLocationUpdate(req.body)
+      );
+
+      res.status(StatusCodes.OK).json({ location });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Delete an empty storage location
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The location ID
+ */
+export function deleteLocation(locations: LocationTree): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await locations.deleteLocation(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
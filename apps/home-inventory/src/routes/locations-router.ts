@@ -0,0 +1,29 @@
+import { Router } from "express";
+import LocationTree from "../LocationTree";
+import {
+  listLocations,
+  createLocation,
+  getLocation,
+  listItemsUnder,
+  updateLocation,
+  deleteLocation,
+} from "./locations-controller";
+
+/**
+ * Creates and configures the storage locations router
+ *
+ * @param locations - The location tree the handlers operate on
+ * @returns Configured Express router
+ */
+export function locationsRouter(locations: LocationTree): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", listLocations(locations));
+  router.post("/", createLocation(locations));
+  router.get("/:id", getLocation(locations));
+  router.get("/:id/items", listItemsUnder(locations));
+  router.patch("/:id", updateLocation(locations));
+  router.delete("/:id", deleteLocation(locations));
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import ReceiptScanner from "../ReceiptScanner";
+import {
+  idParam,
+  parseReceiptConfirmation,
+  parseReceiptText,
+} from "../validation";
+
+/**
+ * Read a receipt and propose inventory additions. Nothing is stored until
+ * the proposal is confirmed.
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - The receipt as plain text (pasted or an uploaded `.txt` file) or `{ text }`
+ */
+export function proposeReceipt(scanner: ReceiptScanner): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const proposal = await scanner.propose(
+        idParam(req.params, "householdId"),
+        parseReceiptText(req.body)
+      );
+
+      res.status(StatusCodes.OK).json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Commit the confirmed lines of a receipt proposal
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - `{ store, purchase_date, lines: [...] }`, each line with item_id (to add stock) or name and category (to create an item), quantity, unit and price
+ */
+export function commitReceipt(scanner: ReceiptScanner): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await scanner.commit(
+        idParam(req.params, "householdId"),
+        parseReceiptConfirmation(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,23 @@
+import express, { Router } from "express";
+import * as consts from "../consts";
+import ReceiptScanner from "../ReceiptScanner";
+import { proposeReceipt, commitReceipt } from "./receipts-controller";
+
+/**
+ * Creates and configures the receipts router
+ *
+ * @param scanner - The receipt scanner the handlers operate on
+ * @returns Configured Express router
+ */
+export function receiptsRouter(scanner: ReceiptScanner): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post(
+    "/",
+    express.text({ type: "text/plain", limit: consts.IMPORT_BODY_LIMIT }),
+    proposeReceipt(scanner)
+  );
+  router.post("/confirm", commitReceipt(scanner));
+
+  return router;
+}
@@ -0,0 +1,45 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import RecipePlanner from "../RecipePlanner";
+import { idParam, parseRecipeInput } from "../validation";
+
+/**
+ * Normalize a recipe's ingredients without checking stock
+ *
+ * @param req.body - `{ text }` or `{ ingredients: [...] }`
+ */
+export function normalizeIngredients(planner: RecipePlanner): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ingredients = await planner.normalizeIngredients(
+        parseRecipeInput(req.body)
+      );
+
+      res.status(StatusCodes.OK).json({ ingredients });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Report which of a recipe's ingredients are available, short, missing or
+ * about to expire
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - `{ text }` or `{ ingredients: [...] }`, where ingredients are strings or `{ name, quantity, unit }`
+ */
+export function checkAvailability(planner: RecipePlanner): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const availability = await planner.checkAvailability(
+        idParam(req.params, "householdId"),
+        parseRecipeInput(req.body)
+      );
+
+      res.status(StatusCodes.OK).json(availability);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import RecipePlanner from "../RecipePlanner";
+import { normalizeIngredients, checkAvailability } from "./recipes-controller";
+
+/**
+ * Creates and configures the recipes router
+ *
+ * @param planner - The recipe planner the handlers operate on
+ * @returns Configured Express router
+ */
+export function recipesRouter(planner: RecipePlanner): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post("/normalize", normalizeIngredients(planner));
+  router.post("/availability", checkAvailability(planner));
+
+  return router;
+}
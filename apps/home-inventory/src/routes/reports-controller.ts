@@ -0,0 +1,81 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import SpendReports from "../SpendReports";
+import { idParam, parseReportRange, parseSpendQuery } from "../validation";
+
+/**
+ * Report household spend
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.group_by - "category" (default), "store" or "month"
+ * @param req.query.from - Optional first purchase date (ISO 8601)
+ * @param req.query.to - Optional last purchase date (ISO 8601)
+ */
+export function getSpend(reports: SpendReports): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { groupBy, range } = parseSpendQuery(
+        req.query as Record<string, unknown>
+      );
+      const report = await reports.spend(
+        idParam(req.params, "householdId"),
+        groupBy,
+        range
+      );
+
+      res.status(StatusCodes.OK).json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Report the estimated value of perishables that were discarded
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.group_by - "category" (default) or "month"
+ * @param req.query.from - Optional first discard date (ISO 8601)
+ * @param req.query.to - Optional last discard date (ISO 8601)
+ */
+export function getDiscardedSpend(reports: SpendReports): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { groupBy, range } = parseSpendQuery(
+        req.query as Record<string, unknown>
+      );
+      const report = await reports.discardedSpend(
+        idParam(req.params, "householdId"),
+        groupBy,
+        range
+      );
+
+      res.status(StatusCodes.OK).json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Report wasted quantity and cost per month and category, broken down by
+ * discard reason
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.from - Optional first discard date (ISO 8601)
+ * @param req.query.to - Optional last discard date (ISO 8601)
+ */
+export function getWaste(reports: SpendReports): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await reports.waste(
+        idParam(req.params, "householdId"),
+        parseReportRange(req.query as Record<string, unknown>)
+      );
+
+      res.status(StatusCodes.OK).json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
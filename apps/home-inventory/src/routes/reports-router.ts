@@ -0,0 +1,19 @@
+import { Router } from "express";
+import SpendReports from "../SpendReports";
+import { getSpend, getDiscardedSpend, getWaste } from "./reports-controller";
+
+/**
+ * Creates and configures the spend and waste reports router
+ *
+ * @param reports - The spend reports the handlers operate on
+ * @returns Configured Express router
+ */
+export function reportsRouter(reports: SpendReports): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/spend", getSpend(reports));
+  router.get("/spend/discarded", getDiscardedSpend(reports));
+  router.get("/waste", getWaste(reports));
+
+  return router;
+}
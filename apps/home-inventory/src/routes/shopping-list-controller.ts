@@ -0,0 +1,124 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import ShoppingList from "../ShoppingList";
+import { ValidationError } from "../errors";
+import {
+  idParam,
+  optionalBoolean,
+  parseShoppingListEntryInput,
+} from "../validation";
+
+/**
+ * List every entry on a household's shopping list, unchecked entries first
+ *
+ * @param req.params.householdId - The household ID
+ */
+export function listEntries(shoppingList: ShoppingList): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entries = await shoppingList.listEntries(
+        idParam(req.params, "householdId")
+      );
+
+      res.status(StatusCodes.OK).json({
+        count: entries.length,
+        entries,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Add an entry to the shopping list by hand
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.body - The entry fields (name, quantity, unit, item_id)
+ */
+export function addEntry(shoppingList: ShoppingList): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await shoppingList.addEntry(
+        idParam(req.params, "householdId"),
+        parseShoppingListEntryInput(req.body)
+      );
+
+      res.status(StatusCodes.CREATED).json({ entry });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Check an entry off the list, or un-check it
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The entry ID
+ * @param req.body.checked - Optional new state (defaults to true)
+ */
+export function checkEntry(shoppingList: ShoppingList): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const checked = optionalBoolean(req.body ?? {}, "checked") ?? true;
+      const entry = await shoppingList.setChecked(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id"),
+        checked
+      );
+
+      res.status(StatusCodes.OK).json({ entry });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Remove a single entry from the list
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.params.id - The entry ID
+ */
+export function removeEntry(shoppingList: ShoppingList): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await shoppingList.removeEntry(
+        idParam(req.params, "householdId"),
+        idParam(req.params, "id")
+      );
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Clear every checked-off entry from the list
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.checked - Must be "true"; guards against wiping the list by accident
+ */
+export function clearChecked(shoppingList: ShoppingList): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = req.query as Record<string, unknown>;
+      if (optionalBoolean(query, "checked") !== true) {
+        throw new ValidationError(
+          "Only checked entries can be cleared; pass ?checked=true"
+        );
+      }
+
+      const removed = await shoppingList.clearChecked(
+        idParam(req.params, "householdId")
+      );
+
+      res.status(StatusCodes.OK).json({ removed });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
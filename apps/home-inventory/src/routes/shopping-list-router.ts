@@ -0,0 +1,27 @@
+import { Router } from "express";
+import ShoppingList from "../ShoppingList";
+import {
+  listEntries,
+  addEntry,
+  checkEntry,
+  removeEntry,
+  clearChecked,
+} from "./shopping-list-controller";
+
+/**
+ * Creates and configures the shopping list router
+ *
+ * @param shoppingList - The shopping list the handlers operate on
+ * @returns Configured Express router
+ */
+export function shoppingListRouter(shoppingList: ShoppingList): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", listEntries(shoppingList));
+  router.post("/", addEntry(shoppingList));
+  router.delete("/", clearChecked(shoppingList));
+  router.post("/:id/check", checkEntry(shoppingList));
+  router.delete("/:id", removeEntry(shoppingList));
+
+  return router;
+}
@@ -0,0 +1,103 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { parseCsv } from "../csv";
+import { ValidationError } from "../errors";
+import InventoryTransfer from "../InventoryTransfer";
+import { InventoryImport } from "../types/InventoryTransfer";
+import {
+  asBody,
+  idParam,
+  optionalBoolean,
+  optionalString,
+} from "../validation";
+
+/**
+ * Export a household's whole inventory as JSON (locations and items) or
+ * CSV (items)
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.format - "json" (default) or "csv"
+ */
+export function exportInventory(transfer: InventoryTransfer): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const householdId = idParam(req.params, "householdId");
+      const format =
+        optionalString(req.query as Record<string, unknown>, "format") ??
+        "json";
+
+      if (format === "csv") {
+        const csv = await transfer.exportCsv(householdId);
+        res
+          .status(StatusCodes.OK)
+          .type("text/csv")
+          .attachment("inventory.csv")
+          .send(csv);
+        return;
+      }
+      if (format !== "json") {
+        throw new ValidationError(
+          "Query parameter 'format' must be json or csv"
+        );
+      }
+
+      const data = await transfer.exportInventory(householdId);
+      res.status(StatusCodes.OK).json(data);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Import locations and items into a household. Runs as a dry run unless
+ * `dry_run=false` is given, so the report can be reviewed before anything
+ * is written.
+ *
+ * @param req.params.householdId - The household ID
+ * @param req.query.dry_run - Set to "false" to apply the import
+ * @param req.body - A CSV document (`text/csv`) of items, a JSON array of items, or `{ "locations": [...], "items": [...] }` as produced by the JSON export
+ */
+export function importInventory(transfer: InventoryTransfer): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const householdId = idParam(req.params, "householdId");
+      const dryRun =
+        optionalBoolean(req.query as Record<string, unknown>, "dry_run") ??
+        true;
+
+      const report =
+        typeof req.body === "string"
+          ? await transfer.importInventory(
+              householdId,
+              { items: parseCsv(req.body) },
+              { dryRun, firstRow: 2 }
+            )
+          : await transfer.importInventory(householdId, jsonImport(req.body), {
+              dryRun,
+            });
+
+      res.status(StatusCodes.OK).json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function jsonImport(body: unknown): InventoryImport {
+  if (Array.isArray(body)) {
+    return { items: body };
+  }
+
+  const { locations, items } = asBody(body);
+  if (!Array.isArray(items)) {
+    throw new ValidationError(
+      "Expected a CSV document, a JSON array or an object with an 'items' array"
+    );
+  }
+  if (locations !== undefined && !Array.isArray(locations)) {
+    throw new ValidationError("Field 'locations' must be an array");
+  }
+
+  return locations ? { locations, items } : { items };
+}
@@ -0,0 +1,33 @@
+import { createApp } from "./app";
+import ExpirySweep from "./ExpirySweep";
+import HomeInventory from "./HomeInventory";
+import ReceiptScanner from "./ReceiptScanner";
+import RecipePlanner from "./RecipePlanner";
+
+const PORT = process.env["PORT"] || 3000;
+
+async function main() {
+  const inventory = HomeInventory.create();
+  const planner = await RecipePlanner.create(inventory);
+  const scanner = await ReceiptScanner.create(inventory);
+  const app = createApp(inventory, planner, scanner);
+
+  app.listen(PORT, () => {
+    console.log(`Home Inventory API server is running on port ${PORT}`);
+  });
+
+  // The API stays up without Kafka; only the events are lost.
+  inventory.events.connect().catch((error) => {
+    console.error("Failed to connect domain event publisher:", error);
+  });
+  ExpirySweep.create(inventory)
+    .then((sweep) => sweep.start())
+    .catch((error) => {
+      console.error("Failed to start expiry sweep:", error);
+    });
+}
+
+main().catch((error) => {
+  console.error("Failed to start Home Inventory:", error);
+  process.exit(1);
+});
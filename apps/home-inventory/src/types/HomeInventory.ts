@@ -0,0 +1,146 @@
+import { HouseholdId, HouseholdMemberId } from "./Household";
+import {
+  ConsumptionForecast,
+  DiscardReason,
+  PurchaseDetails,
+  StockMovement,
+} from "./StockMovement";
+import { StorageLocationId } from "./StorageLocation";
+
+export type InventoryItemId = number | string;
+
+export interface InventoryItem {
+  id?: InventoryItemId;
+  household_id: HouseholdId;
+  owner_id?: HouseholdMemberId | null;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  min_quantity?: number | null;
+  location?: string | null;
+  location_id?: StorageLocationId | null;
+  barcode?: string | null;
+  purchase_date?: Date | null;
+  expiry_date?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+  /** Bumped by every write; stock changes only apply at the version they read */
+  version?: number;
+}
+
+/**
+ * The writable fields of an inventory item, as accepted by the create route.
+ * The household comes from the route, not the body.
+ */
+export type InventoryItemInput = Omit<
+  InventoryItem,
+  "id" | "household_id" | "created_at" | "updated_at" | "version"
+>;
+
+/**
+ * The fields accepted by the update route. Every field is optional so
+ * clients can patch a single value without resending the whole item.
+ * `version` is the version the client last read; when given, the update
+ * only applies if the item is still at that version.
+ */
+export type InventoryItemUpdate = Partial<InventoryItemInput> & {
+  version?: number;
+};
+
+export interface InventoryItemFilter {
+  category?: string;
+  location?: string;
+  owner_id?: HouseholdMemberId;
+}
+
+/**
+ * An item with an expiry date inside the "expiring soon" window. Items that
+ * have already expired are included with a negative `days_until_expiry`.
+ */
+export interface ExpiringItem extends InventoryItem {
+  days_until_expiry: number;
+}
+
+/**
+ * Payload of the `inventory.item.expiring` event published by the expiry
+ * sweep.
+ */
+export interface ItemExpiringEvent {
+  household_id: HouseholdId;
+  item_id: InventoryItemId;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  location: string | null;
+  expiry_date: string;
+  days_until_expiry: number;
+  detected_at: string;
+}
+
+export interface HomeInventoryInterface {
+  createItem(
+    householdId: HouseholdId,
+    input: InventoryItemInput,
+    purchase?: PurchaseDetails
+  ): Promise<InventoryItem>;
+  listItems(
+    householdId: HouseholdId,
+    filter?: InventoryItemFilter
+  ): Promise<InventoryItem[]>;
+  getItem(
+    householdId: HouseholdId,
+    id: InventoryItemId
+  ): Promise<InventoryItem>;
+  updateItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    changes: InventoryItemUpdate
+  ): Promise<InventoryItem>;
+  deleteItem(householdId: HouseholdId, id: InventoryItemId): Promise<void>;
+  listExpiringItems(
+    householdId: HouseholdId,
+    days: number
+  ): Promise<ExpiringItem[]>;
+  addStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    note?: string | null,
+    purchase?: PurchaseDetails
+  ): Promise<InventoryItem>;
+  consumeItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    note?: string | null
+  ): Promise<InventoryItem>;
+  discardStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    amount: number,
+    reason: DiscardReason,
+    note?: string | null
+  ): Promise<InventoryItem>;
+  adjustStock(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    quantity: number,
+    note?: string | null
+  ): Promise<InventoryItem>;
+  listMovements(
+    householdId: HouseholdId,
+    id: InventoryItemId
+  ): Promise<StockMovement[]>;
+  forecastItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    windowDays?: number
+  ): Promise<ConsumptionForecast>;
+  moveItem(
+    householdId: HouseholdId,
+    id: InventoryItemId,
+    locationId: StorageLocationId | null
+  ): Promise<InventoryItem>;
+}
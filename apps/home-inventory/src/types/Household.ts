@@ -0,0 +1,58 @@
+export type HouseholdId = number | string;
+
+export type HouseholdMemberId = number | string;
+
+/**
+ * A group of people sharing one inventory, e.g. a family or the tenants of
+ * one unit. Items, locations and the shopping list all belong to exactly
+ * one household.
+ */
+export interface Household {
+  id?: HouseholdId;
+  name: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type HouseholdInput = Omit<
+  Household,
+  "id" | "created_at" | "updated_at"
+>;
+
+/**
+ * A person in a household. Items can be owned by a member; items without
+ * an owner are shared by the whole household.
+ */
+export interface HouseholdMember {
+  id?: HouseholdMemberId;
+  household_id: HouseholdId;
+  name: string;
+  email?: string | null;
+  created_at?: Date;
+}
+
+/**
+ * The fields a user supplies when adding a member.
+ */
+export interface HouseholdMemberInput {
+  name: string;
+  email?: string | null;
+}
+
+export interface HouseholdsInterface {
+  createHousehold(input: HouseholdInput): Promise<Household>;
+  listHouseholds(): Promise<Household[]>;
+  getHousehold(id: HouseholdId): Promise<Household>;
+  updateHousehold(id: HouseholdId, changes: HouseholdInput): Promise<Household>;
+  deleteHousehold(id: HouseholdId): Promise<void>;
+  addMember(
+    householdId: HouseholdId,
+    input: HouseholdMemberInput
+  ): Promise<HouseholdMember>;
+  listMembers(householdId: HouseholdId): Promise<HouseholdMember[]>;
+  getMember(
+    householdId: HouseholdId,
+    id: HouseholdMemberId
+  ): Promise<HouseholdMember>;
+  removeMember(householdId: HouseholdId, id: HouseholdMemberId): Promise<void>;
+}
@@ -0,0 +1,98 @@
+import { CatalogProduct } from "./ProductCatalog";
+import {
+  Household,
+  HouseholdId,
+  HouseholdMember,
+  HouseholdMemberId,
+} from "./Household";
+import { InventoryItem, InventoryItemId } from "./HomeInventory";
+import { ShoppingListEntry, ShoppingListEntryId } from "./ShoppingList";
+import { StockMovement } from "./StockMovement";
+import { StorageLocation, StorageLocationId } from "./StorageLocation";
+
+export enum InventoryEventName {
+  ITEM_CREATED = "inventory.item.created",
+  ITEM_UPDATED = "inventory.item.updated",
+  ITEM_DELETED = "inventory.item.deleted",
+  STOCK_CHANGED = "inventory.stock.changed",
+  LOCATION_CREATED = "inventory.location.created",
+  LOCATION_UPDATED = "inventory.location.updated",
+  LOCATION_DELETED = "inventory.location.deleted",
+  SHOPPING_LIST_ENTRY_ADDED = "inventory.shopping_list.entry_added",
+  SHOPPING_LIST_ENTRY_UPDATED = "inventory.shopping_list.entry_updated",
+  SHOPPING_LIST_ENTRY_REMOVED = "inventory.shopping_list.entry_removed",
+  CATALOG_PRODUCT_SAVED = "inventory.catalog.product_saved",
+  CATALOG_PRODUCT_DELETED = "inventory.catalog.product_deleted",
+  HOUSEHOLD_CREATED = "inventory.household.created",
+  HOUSEHOLD_UPDATED = "inventory.household.updated",
+  HOUSEHOLD_DELETED = "inventory.household.deleted",
+  HOUSEHOLD_MEMBER_ADDED = "inventory.household.member_added",
+  HOUSEHOLD_MEMBER_REMOVED = "inventory.household.member_removed",
+}
+
+/**
+ * The `data` carried by each event. Create and update events carry the full
+ * record after the change so consumers can rebuild state without calling
+ * back into the API. Delete events carry the household the record belonged
+ * to, since the record itself is gone.
+ */
+export interface InventoryEventPayloads {
+  [InventoryEventName.ITEM_CREATED]: { item: InventoryItem };
+  [InventoryEventName.ITEM_UPDATED]: { item: InventoryItem; changed: string[] };
+  [InventoryEventName.ITEM_DELETED]: {
+    household_id: HouseholdId;
+    item_id: InventoryItemId;
+  };
+  [InventoryEventName.STOCK_CHANGED]: {
+    item: InventoryItem;
+    movement: StockMovement;
+  };
+  [InventoryEventName.LOCATION_CREATED]: { location: StorageLocation };
+  [InventoryEventName.LOCATION_UPDATED]: { location: StorageLocation };
+  [InventoryEventName.LOCATION_DELETED]: {
+    household_id: HouseholdId;
+    location_id: StorageLocationId;
+  };
+  [InventoryEventName.SHOPPING_LIST_ENTRY_ADDED]: { entry: ShoppingListEntry };
+  [InventoryEventName.SHOPPING_LIST_ENTRY_UPDATED]: {
+    entry: ShoppingListEntry;
+  };
+  [InventoryEventName.SHOPPING_LIST_ENTRY_REMOVED]: {
+    household_id: HouseholdId;
+    entry_id: ShoppingListEntryId;
+  };
+  [InventoryEventName.CATALOG_PRODUCT_SAVED]: { product: CatalogProduct };
+  [InventoryEventName.CATALOG_PRODUCT_DELETED]: { barcode: string };
+  [InventoryEventName.HOUSEHOLD_CREATED]: { household: Household };
+  [InventoryEventName.HOUSEHOLD_UPDATED]: { household: Household };
+  [InventoryEventName.HOUSEHOLD_DELETED]: { household_id: HouseholdId };
+  [InventoryEventName.HOUSEHOLD_MEMBER_ADDED]: { member: HouseholdMember };
+  [InventoryEventName.HOUSEHOLD_MEMBER_REMOVED]: {
+    household_id: HouseholdId;
+    member_id: HouseholdMemberId;
+  };
+}
+
+/**
+ * The envelope every domain event is published in. `schema_version` is
+ * bumped whenever a payload changes incompatibly.
+ */
+export interface InventoryEvent<
+  N extends InventoryEventName = InventoryEventName
+> {
+  id: string;
+  name: N;
+  schema_version: number;
+  source: string;
+  occurred_at: string;
+  correlation_id: string;
+  data: InventoryEventPayloads[N];
+}
+
+export interface InventoryEventsInterface {
+  connect(): Promise<void>;
+  emit<N extends InventoryEventName>(
+    name: N,
+    data: InventoryEventPayloads[N]
+  ): Promise<InventoryEvent<N>>;
+}
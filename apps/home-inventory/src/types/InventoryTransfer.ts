@@ -0,0 +1,84 @@
+import { InventoryItemId } from "./HomeInventory";
+import { HouseholdId, HouseholdMemberId } from "./Household";
+
+/**
+ * A storage location in an export, identified by its full path so it can be
+ * recreated in an empty database.
+ */
+export interface LocationRecord {
+  path: string;
+  kind: string | null;
+}
+
+/**
+ * An inventory item in an export. The location is written as a path
+ * instead of a database ID; dates are `YYYY-MM-DD`.
+ */
+export interface ItemRecord {
+  id: InventoryItemId | null;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  min_quantity: number | null;
+  location: string | null;
+  location_path: string | null;
+  barcode: string | null;
+  owner_id: HouseholdMemberId | null;
+  purchase_date: string | null;
+  expiry_date: string | null;
+}
+
+export interface InventoryExport {
+  exported_at: Date;
+  locations: LocationRecord[];
+  items: ItemRecord[];
+}
+
+/**
+ * The data to import. `items` rows use the {@link ItemRecord} shape, either
+ * parsed from CSV (all values are strings) or given as JSON.
+ */
+export interface InventoryImport {
+  locations?: unknown[];
+  items: unknown[];
+}
+
+export interface ImportOptions {
+  /** Report what would change without writing anything */
+  dryRun: boolean;
+  /** The number reported for the first item row (2 for CSV, after the header) */
+  firstRow?: number;
+}
+
+export enum ImportAction {
+  CREATE = "create",
+  UPDATE = "update",
+  REJECT = "reject",
+}
+
+export interface ImportRowResult {
+  row: number;
+  action: ImportAction;
+  id?: InventoryItemId;
+  name?: string;
+  error?: string;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  summary: Record<ImportAction, number>;
+  /** Location paths that are (or would be) created to place the items */
+  new_locations: string[];
+  rows: ImportRowResult[];
+}
+
+export interface InventoryTransferInterface {
+  exportInventory(householdId: HouseholdId): Promise<InventoryExport>;
+  exportCsv(householdId: HouseholdId): Promise<string>;
+  importInventory(
+    householdId: HouseholdId,
+    data: InventoryImport,
+    options: ImportOptions
+  ): Promise<ImportReport>;
+}
@@ -0,0 +1,46 @@
+import { InventoryItemInput } from "./HomeInventory";
+
+export type CatalogProductId = number | string;
+
+/**
+ * A product template in the household's local catalog, keyed by its
+ * normalized GTIN barcode (UPC-A codes are stored as 13-digit EAN).
+ */
+export interface CatalogProduct {
+  id?: CatalogProductId;
+  barcode: string;
+  name: string;
+  category: string;
+  default_unit: string;
+  shelf_life_days?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type CatalogProductInput = Omit<
+  CatalogProduct,
+  "id" | "created_at" | "updated_at"
+>;
+
+export interface CatalogImportRejection {
+  row: number;
+  error: string;
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  rejected: CatalogImportRejection[];
+}
+
+export interface ProductCatalogInterface {
+  listProducts(): Promise<CatalogProduct[]>;
+  lookup(barcode: string): Promise<CatalogProduct>;
+  itemTemplate(product: CatalogProduct): InventoryItemInput;
+  saveProduct(input: CatalogProductInput): Promise<CatalogProduct>;
+  deleteProduct(barcode: string): Promise<void>;
+  importProducts(
+    rows: unknown[],
+    firstRow?: number
+  ): Promise<CatalogImportResult>;
+}
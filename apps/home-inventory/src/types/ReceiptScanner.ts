@@ -0,0 +1,71 @@
+import { InventoryItem, InventoryItemId } from "./HomeInventory";
+import { HouseholdId } from "./Household";
+
+/**
+ * A purchased product as read off a receipt, with its name normalized
+ * ("ORG BNNS" becomes "banana").
+ */
+export interface ReceiptLine {
+  description: string;
+  product: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  price: number | null;
+}
+
+export enum ReceiptLineAction {
+  ADD_STOCK = "add_stock",
+  CREATE_ITEM = "create_item",
+}
+
+/**
+ * A receipt line with what confirming it would do: top up a matching item
+ * or create a new one.
+ */
+export interface ProposedAddition extends ReceiptLine {
+  action: ReceiptLineAction;
+  item_id: InventoryItemId | null;
+  item_name: string | null;
+}
+
+export interface ReceiptProposal {
+  lines: ProposedAddition[];
+  total: number | null;
+}
+
+/**
+ * A line the user has confirmed, possibly after editing the proposal.
+ * Lines with an `item_id` add stock to that item; the others create items.
+ */
+export interface ConfirmedAddition {
+  item_id: InventoryItemId | null;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  price: number | null;
+}
+
+/**
+ * A confirmed receipt. The store and purchase date are recorded with every
+ * line; the date defaults to today.
+ */
+export interface ReceiptConfirmation {
+  store: string | null;
+  purchase_date: Date | null;
+  lines: ConfirmedAddition[];
+}
+
+export interface ReceiptCommitResult {
+  added: InventoryItem[];
+  created: InventoryItem[];
+}
+
+export interface ReceiptScannerInterface {
+  propose(householdId: HouseholdId, text: string): Promise<ReceiptProposal>;
+  commit(
+    householdId: HouseholdId,
+    receipt: ReceiptConfirmation
+  ): Promise<ReceiptCommitResult>;
+}
@@ -0,0 +1,62 @@
+import { ExpiringItem, InventoryItem } from "./HomeInventory";
+import { HouseholdId } from "./Household";
+
+/**
+ * One line of a structured recipe. Names may still be written the way a
+ * recipe would ("2 large eggs, beaten"); they are normalized before
+ * matching.
+ */
+export interface RecipeIngredientInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+}
+
+/**
+ * A recipe as submitted: either free text or a list of ingredients.
+ */
+export type RecipeInput =
+  | { text: string }
+  | { ingredients: RecipeIngredientInput[] };
+
+/**
+ * An ingredient after normalization, e.g. "2 cups chopped yellow onions"
+ * becomes `{ name: "onion", quantity: 2, unit: "cup" }`.
+ */
+export interface RecipeIngredient {
+  original: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export enum IngredientStatus {
+  AVAILABLE = "available",
+  INSUFFICIENT = "insufficient",
+  MISSING = "missing",
+}
+
+export interface IngredientAvailability extends RecipeIngredient {
+  status: IngredientStatus;
+  /** Total stock in the recipe's unit, or `null` when no matching item uses that unit */
+  in_stock: number | null;
+  items: InventoryItem[];
+  expiring: ExpiringItem[];
+}
+
+export interface RecipeAvailability {
+  can_cook: boolean;
+  available: string[];
+  insufficient: string[];
+  missing: string[];
+  expiring: string[];
+  ingredients: IngredientAvailability[];
+}
+
+export interface RecipePlannerInterface {
+  normalizeIngredients(recipe: RecipeInput): Promise<RecipeIngredient[]>;
+  checkAvailability(
+    householdId: HouseholdId,
+    recipe: RecipeInput
+  ): Promise<RecipeAvailability>;
+}
@@ -0,0 +1,47 @@
+import { InventoryItemId } from "./HomeInventory";
+import { HouseholdId } from "./Household";
+
+export type ShoppingListEntryId = number | string;
+
+export enum ShoppingListSource {
+  LOW_STOCK = "low_stock",
+  MANUAL = "manual",
+}
+
+export interface ShoppingListEntry {
+  id?: ShoppingListEntryId;
+  household_id: HouseholdId;
+  item_id?: InventoryItemId | null;
+  name: string;
+  quantity: number;
+  unit: string;
+  checked: boolean;
+  source: ShoppingListSource;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * The fields a user supplies when adding an entry by hand.
+ */
+export interface ShoppingListEntryInput {
+  name: string;
+  quantity: number;
+  unit: string;
+  item_id?: InventoryItemId | null;
+}
+
+export interface ShoppingListInterface {
+  listEntries(householdId: HouseholdId): Promise<ShoppingListEntry[]>;
+  addEntry(
+    householdId: HouseholdId,
+    input: ShoppingListEntryInput
+  ): Promise<ShoppingListEntry>;
+  setChecked(
+    householdId: HouseholdId,
+    id: ShoppingListEntryId,
+    checked: boolean
+  ): Promise<ShoppingListEntry>;
+  removeEntry(householdId: HouseholdId, id: ShoppingListEntryId): Promise<void>;
+  clearChecked(householdId: HouseholdId): Promise<number>;
+}
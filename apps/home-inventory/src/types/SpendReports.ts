@@ -0,0 +1,89 @@
+import { HouseholdId } from "./Household";
+import { DiscardReason } from "./StockMovement";
+
+export enum SpendGrouping {
+  CATEGORY = "category",
+  STORE = "store",
+  MONTH = "month",
+}
+
+/**
+ * An inclusive date range. Open ends are unbounded.
+ */
+export interface ReportRange {
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export interface SpendRow {
+  /** The category, store or `YYYY-MM` month; null for purchases without a store */
+  key: string | null;
+  spend: number;
+  purchases: number;
+}
+
+/**
+ * The estimated value of perishable stock that was thrown away. Each
+ * discard is valued at the item's average purchase price per unit; items
+ * that were never bought with a price are counted in `unpriced_discards`.
+ */
+export interface DiscardedSpendRow {
+  key: string | null;
+  discarded_value: number;
+  discards: number;
+  unpriced_discards: number;
+}
+
+export interface SpendReport<Row> {
+  group_by: SpendGrouping;
+  from: Date | null;
+  to: Date | null;
+  total: number;
+  rows: Row[];
+}
+
+/**
+ * Waste for one category and unit in one month. `cost` is estimated from
+ * the item's average purchase price per unit.
+ */
+export interface WasteRow {
+  month: string;
+  category: string;
+  unit: string;
+  discards: number;
+  quantity: number;
+  cost: number;
+  unpriced_discards: number;
+  quantity_by_reason: Record<DiscardReason, number>;
+}
+
+/**
+ * Waste across all categories in one month.
+ */
+export interface WasteMonth {
+  month: string;
+  discards: number;
+  cost: number;
+  discards_by_reason: Record<DiscardReason, number>;
+}
+
+export interface WasteReport {
+  from: Date | null;
+  to: Date | null;
+  months: WasteMonth[];
+  rows: WasteRow[];
+}
+
+export interface SpendReportsInterface {
+  spend(
+    householdId: HouseholdId,
+    groupBy: SpendGrouping,
+    range?: ReportRange
+  ): Promise<SpendReport<SpendRow>>;
+  discardedSpend(
+    householdId: HouseholdId,
+    groupBy: SpendGrouping,
+    range?: ReportRange
+  ): Promise<SpendReport<DiscardedSpendRow>>;
+  waste(householdId: HouseholdId, range?: ReportRange): Promise<WasteReport>;
+}
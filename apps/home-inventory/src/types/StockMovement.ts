@@ -0,0 +1,68 @@
+import { InventoryItemId } from "./HomeInventory";
+
+export type StockMovementId = number | string;
+
+export enum StockMovementType {
+  ADD = "add",
+  CONSUME = "consume",
+  DISCARD = "discard",
+  ADJUST = "adjust",
+}
+
+/**
+ * Why stock was thrown away.
+ */
+export enum DiscardReason {
+  EXPIRED = "expired",
+  SPOILED = "spoiled",
+  DAMAGED = "damaged",
+  OTHER = "other",
+}
+
+/**
+ * A single entry in an item's stock ledger. Movements are append-only: the
+ * item's `quantity` is the running balance of its movements.
+ */
+export interface StockMovement {
+  id?: StockMovementId;
+  item_id: InventoryItemId;
+  type: StockMovementType;
+  quantity_change: number;
+  quantity_after: number;
+  note?: string | null;
+  reason?: DiscardReason | null;
+  price?: number | null;
+  store?: string | null;
+  purchased_on?: Date | null;
+  created_at?: Date;
+}
+
+/**
+ * What was paid for an `add` movement, and where and when it was bought.
+ * `price` is the total paid for the added amount, not a unit price.
+ */
+export interface PurchaseDetails {
+  price?: number | null;
+  store?: string | null;
+  purchased_on?: Date | null;
+}
+
+/**
+ * How long an item's stock is expected to last at its recent consumption
+ * rate. `days_until_empty` is null when nothing was consumed in the window.
+ */
+export interface ConsumptionForecast {
+  item_id: InventoryItemId;
+  quantity: number;
+  unit: string;
+  window_days: number;
+  consumed: number;
+  daily_rate: number;
+  days_until_empty: number | null;
+  empty_on: string | null;
+}
+
+export interface StockLedgerInterface {
+  record(movement: StockMovement): Promise<StockMovement>;
+  listForItem(itemId: InventoryItemId, since?: Date): Promise<StockMovement[]>;
+}
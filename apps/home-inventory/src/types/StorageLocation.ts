@@ -0,0 +1,53 @@
+import { HouseholdId } from "./Household";
+
+export type StorageLocationId = number | string;
+
+/**
+ * A node in the household's storage tree, e.g. house → garage → freezer →
+ * top drawer. Root nodes have no parent.
+ */
+export interface StorageLocation {
+  id?: StorageLocationId;
+  household_id: HouseholdId;
+  name: string;
+  kind?: string | null;
+  parent_id?: StorageLocationId | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type StorageLocationInput = Omit<
+  StorageLocation,
+  "id" | "household_id" | "created_at" | "updated_at"
+>;
+
+export type StorageLocationUpdate = Partial<StorageLocationInput>;
+
+export interface StorageLocationNode extends StorageLocation {
+  children: StorageLocationNode[];
+}
+
+export interface LocationTreeInterface {
+  createLocation(
+    householdId: HouseholdId,
+    input: StorageLocationInput
+  ): Promise<StorageLocation>;
+  listTree(householdId: HouseholdId): Promise<StorageLocationNode[]>;
+  getLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<StorageLocation>;
+  getPath(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<StorageLocation[]>;
+  updateLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId,
+    changes: StorageLocationUpdate
+  ): Promise<StorageLocation>;
+  deleteLocation(
+    householdId: HouseholdId,
+    id: StorageLocationId
+  ): Promise<void>;
+}
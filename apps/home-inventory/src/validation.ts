@@ -0,0 +1,660 @@
+import * as consts from "./consts";
+import { ValidationError } from "./errors";
+import { InventoryItemInput, InventoryItemUpdate } from "./types/HomeInventory";
+import { HouseholdInput, HouseholdMemberInput } from "./types/Household";
+import { CatalogProductInput } from "./types/ProductCatalog";
+import { ConfirmedAddition, ReceiptConfirmation } from "./types/ReceiptScanner";
+import { RecipeIngredientInput, RecipeInput } from "./types/RecipePlanner";
+import { ShoppingListEntryInput } from "./types/ShoppingList";
+import { ReportRange, SpendGrouping } from "./types/SpendReports";
+import { DiscardReason, PurchaseDetails } from "./types/StockMovement";
+import {
+  StorageLocationInput,
+  StorageLocationUpdate,
+} from "./types/StorageLocation";
+
+type Body = Record<string, unknown>;
+
+export function asBody(body: unknown): Body {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ValidationError("Request body must be a JSON object");
+  }
+  return body as Body;
+}
+
+/**
+ * Reads a required, non-empty string field.
+ */
+export function requireString(body: Body, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ValidationError(`Missing required field: ${field}`);
+  }
+  return value.trim();
+}
+
+/**
+ * Reads an optional string field. `null` is passed through so clients can
+ * clear a value on update.
+ */
+export function optionalString(
+  body: Body,
+  field: string
+): string | null | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError(`Field '${field}' must be a string`);
+  }
+  return value.trim() === "" ? null : value.trim();
+}
+
+/**
+ * Reads a number field that must be zero or greater. Numeric strings are
+ * accepted because query parameters and form posts arrive as text.
+ */
+export function nonNegativeNumber(
+  body: Body,
+  field: string
+): number | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  const num = typeof value === "string" ? Number(value) : value;
+  if (typeof num !== "number" || !Number.isFinite(num) || num < 0) {
+    throw new ValidationError(`Field '${field}' must be a number >= 0`);
+  }
+  return num;
+}
+
+/**
+ * Reads a required number field that must be greater than zero.
+ */
+export function positiveNumber(body: Body, field: string): number {
+  const num = nonNegativeNumber(body, field);
+  if (num === undefined) {
+    throw new ValidationError(`Missing required field: ${field}`);
+  }
+  if (num === 0) {
+    throw new ValidationError(`Field '${field}' must be greater than 0`);
+  }
+  return num;
+}
+
+/**
+ * Reads a number field that may be explicitly cleared with `null`.
+ */
+export function nullableNonNegativeNumber(
+  body: Body,
+  field: string
+): number | null | undefined {
+  return body[field] === null ? null : nonNegativeNumber(body, field);
+}
+
+/**
+ * Reads an optional boolean field. The strings "true" and "false" are
+ * accepted for query parameters.
+ */
+export function optionalBoolean(
+  body: Body,
+  field: string
+): boolean | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === true || value === "true") {
+    return true;
+  }
+  if (value === false || value === "false") {
+    return false;
+  }
+  throw new ValidationError(`Field '${field}' must be a boolean`);
+}
+
+/**
+ * Reads an optional record ID from a body, like optionalIdParam(). Digit
+ * strings are accepted too, since CSV imports have no numbers; `null` is
+ * passed through to clear a reference.
+ */
+export function optionalId(
+  body: Body,
+  field: string
+): number | null | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const id = integerId(value);
+  if (id === null) {
+    throw new ValidationError(`Field '${field}' must be a positive integer`);
+  }
+  return id;
+}
+
+/**
+ * Reads a required record ID from route parameters. The inventory's tables
+ * have integer keys, so anything else is rejected here rather than failing
+ * in the database.
+ */
+export function idParam(params: Body, field: string): number {
+  const id = optionalIdParam(params, field);
+  if (id === undefined) {
+    throw new ValidationError(`Missing required parameter: ${field}`);
+  }
+  return id;
+}
+
+/**
+ * Reads an optional record ID from a query string, like idParam().
+ */
+export function optionalIdParam(
+  params: Body,
+  field: string
+): number | undefined {
+  const value = params[field];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const id = integerId(value);
+  if (id === null) {
+    throw new ValidationError(
+      `Parameter '${field}' must be a positive integer`
+    );
+  }
+  return id;
+}
+
+/**
+ * The positive integer a number or string of digits holds, or null for
+ * anything else
+ */
+function integerId(value: unknown): number | null {
+  const id =
+    typeof value === "string" && /^\d+$/.test(value.trim())
+      ? Number(value)
+      : value;
+  return typeof id === "number" && Number.isSafeInteger(id) && id >= 1
+    ? id
+    : null;
+}
+
+/**
+ * Reads an optional barcode field and normalizes it.
+ */
+export function optionalBarcode(
+  body: Body,
+  field: string
+): string | null | undefined {
+  const value = optionalString(body, field);
+  return value ? normalizeBarcode(value) : value;
+}
+
+/**
+ * Reads an optional date field given as an ISO 8601 string.
+ */
+export function optionalDate(
+  body: Body,
+  field: string
+): Date | null | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const date = new Date(value as string);
+  if (typeof value !== "string" || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Field '${field}' must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+/**
+ * Normalizes a scanned UPC/EAN barcode to the form used as the catalog
+ * key. Spaces and dashes are removed, the GTIN check digit is verified and
+ * 12-digit UPC-A codes are widened to 13-digit EAN so either form of the
+ * same product resolves to one entry.
+ *
+ * @param {string} raw - The scanned or typed barcode
+ * @returns {string} The normalized barcode
+ * @throws {ValidationError} When the code is not a valid EAN-8, UPC-A, EAN-13 or GTIN-14
+ */
+export function normalizeBarcode(raw: string): string {
+  const code = raw.replace(/[\s-]/g, "");
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) {
+    throw new ValidationError(
+      `Barcode '${raw}' must be 8, 12, 13 or 14 digits`
+    );
+  }
+
+  const digits = code.split("").map(Number);
+  const check = digits.pop() as number;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 ? 1 : 3), 0);
+  if ((10 - (sum % 10)) % 10 !== check) {
+    throw new ValidationError(`Barcode '${raw}' has an invalid check digit`);
+  }
+
+  return code.length === 12 ? `0${code}` : code;
+}
+
+/**
+ * Validates the body of a create request.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {InventoryItemInput} The item fields to store
+ * @throws {ValidationError} When a field is missing or malformed
+ */
+export function parseItemInput(raw: unknown): InventoryItemInput {
+  const body = asBody(raw);
+
+  const quantity = nonNegativeNumber(body, "quantity");
+  if (quantity === undefined) {
+    throw new ValidationError("Missing required field: quantity");
+  }
+
+  return {
+    name: requireString(body, "name"),
+    category: requireString(body, "category"),
+    quantity,
+    unit: optionalString(body, "unit") ?? consts.DEFAULT_UNIT,
+    min_quantity: nullableNonNegativeNumber(body, "min_quantity") ?? null,
+    location: optionalString(body, "location") ?? null,
+    location_id: optionalId(body, "location_id") ?? null,
+    barcode: optionalBarcode(body, "barcode") ?? null,
+    owner_id: optionalId(body, "owner_id") ?? null,
+    purchase_date: optionalDate(body, "purchase_date") ?? null,
+    expiry_date: optionalDate(body, "expiry_date") ?? null,
+  };
+}
+
+/**
+ * Reads the purchase details that may accompany added stock: the total
+ * `price` paid, the `store` and the `purchase_date`.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {PurchaseDetails} The purchase details given
+ * @throws {ValidationError} When a field is malformed
+ */
+export function parsePurchaseDetails(raw: unknown): PurchaseDetails {
+  const body = asBody(raw);
+
+  return {
+    price: nullableNonNegativeNumber(body, "price") ?? null,
+    store: optionalString(body, "store") ?? null,
+    purchased_on: optionalDate(body, "purchase_date") ?? null,
+  };
+}
+
+/**
+ * Reads the required reason of a discard.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {DiscardReason} Why the stock was thrown away
+ * @throws {ValidationError} When the reason is missing or unknown
+ */
+export function parseDiscardReason(raw: unknown): DiscardReason {
+  const reason = requireString(asBody(raw), "reason");
+  if (!Object.values<string>(DiscardReason).includes(reason)) {
+    throw new ValidationError(
+      `Field 'reason' must be one of: ${Object.values(DiscardReason).join(
+        ", "
+      )}`
+    );
+  }
+
+  return reason as DiscardReason;
+}
+
+/**
+ * Validates the body of an update request. Only the fields present in the
+ * body are returned, along with the expected `version` when one is given.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {InventoryItemUpdate} The item fields to change
+ * @throws {ValidationError} When a field is malformed or nothing would change
+ */
+export function parseItemUpdate(raw: unknown): InventoryItemUpdate {
+  const body = asBody(raw);
+  const changes: InventoryItemUpdate = {};
+
+  if (body["name"] !== undefined) {
+    changes.name = requireString(body, "name");
+  }
+  if (body["category"] !== undefined) {
+    changes.category = requireString(body, "category");
+  }
+  if (body["unit"] !== undefined) {
+    changes.unit = requireString(body, "unit");
+  }
+
+  const quantity = nonNegativeNumber(body, "quantity");
+  if (quantity !== undefined) {
+    changes.quantity = quantity;
+  }
+
+  const minQuantity = nullableNonNegativeNumber(body, "min_quantity");
+  if (minQuantity !== undefined) {
+    changes.min_quantity = minQuantity;
+  }
+
+  const location = optionalString(body, "location");
+  if (location !== undefined) {
+    changes.location = location;
+  }
+
+  const locationId = optionalId(body, "location_id");
+  if (locationId !== undefined) {
+    changes.location_id = locationId;
+  }
+
+  const barcode = optionalBarcode(body, "barcode");
+  if (barcode !== undefined) {
+    changes.barcode = barcode;
+  }
+
+  const ownerId = optionalId(body, "owner_id");
+  if (ownerId !== undefined) {
+    changes.owner_id = ownerId;
+  }
+
+  const purchaseDate = optionalDate(body, "purchase_date");
+  if (purchaseDate !== undefined) {
+    changes.purchase_date = purchaseDate;
+  }
+
+  const expiryDate = optionalDate(body, "expiry_date");
+  if (expiryDate !== undefined) {
+    changes.expiry_date = expiryDate;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new ValidationError("Request body contains no updatable fields");
+  }
+
+  const version = body["version"];
+  if (version !== undefined) {
+    if (!Number.isSafeInteger(version) || (version as number) < 1) {
+      throw new ValidationError("Field 'version' must be a positive integer");
+    }
+    changes.version = version as number;
+  }
+
+  return changes;
+}
+
+/**
+ * Validates the body of a request that creates or renames a household.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {HouseholdInput} The household fields to store
+ * @throws {ValidationError} When the name is missing
+ */
+export function parseHouseholdInput(raw: unknown): HouseholdInput {
+  return { name: requireString(asBody(raw), "name") };
+}
+
+/**
+ * Validates the body of a request that adds a household member.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {HouseholdMemberInput} The member fields to store
+ * @throws {ValidationError} When a field is missing or malformed
+ */
+export function parseHouseholdMemberInput(raw: unknown): HouseholdMemberInput {
+  const body = asBody(raw);
+
+  return {
+    name: requireString(body, "name"),
+    email: optionalString(body, "email") ?? null,
+  };
+}
+
+/**
+ * Validates the body of a request that adds a shopping list entry by hand.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {ShoppingListEntryInput} The entry fields to store
+ * @throws {ValidationError} When a field is missing or malformed
+ */
+export function parseShoppingListEntryInput(
+  raw: unknown
+): ShoppingListEntryInput {
+  const body = asBody(raw);
+
+  return {
+    name: requireString(body, "name"),
+    quantity: nonNegativeNumber(body, "quantity") ?? 1,
+    unit: optionalString(body, "unit") ?? consts.DEFAULT_UNIT,
+    item_id: optionalId(body, "item_id") ?? null,
+  };
+}
+
+/**
+ * Validates the body of a request that creates a storage location.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {StorageLocationInput} The location fields to store
+ * @throws {ValidationError} When a field is missing or malformed
+ */
+export function parseLocationInput(raw: unknown): StorageLocationInput {
+  const body = asBody(raw);
+
+  return {
+    name: requireString(body, "name"),
+    kind: optionalString(body, "kind") ?? null,
+    parent_id: optionalId(body, "parent_id") ?? null,
+  };
+}
+
+/**
+ * Validates the body of a request that renames or moves a storage location.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {StorageLocationUpdate} The location fields to change
+ * @throws {ValidationError} When a field is malformed or nothing would change
+ */
+export function parseLocationUpdate(raw: unknown): StorageLocationUpdate {
+  const body = asBody(raw);
+  const changes: StorageLocationUpdate = {};
+
+  if (body["name"] !== undefined) {
+    changes.name = requireString(body, "name");
+  }
+
+  const kind = optionalString(body, "kind");
+  if (kind !== undefined) {
+    changes.kind = kind;
+  }
+
+  const parentId = optionalId(body, "parent_id");
+  if (parentId !== undefined) {
+    changes.parent_id = parentId;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new ValidationError("Request body contains no updatable fields");
+  }
+
+  return changes;
+}
+
+/**
+ * Validates a catalog product, either from a request body or from one row
+ * of a CSV/JSON import. Empty strings are treated as missing values since
+ * CSV cannot tell the two apart.
+ *
+ * @param {unknown} raw - The product fields
+ * @returns {CatalogProductInput} The product to store
+ * @throws {ValidationError} When a field is missing or malformed
+ */
+export function parseCatalogProductInput(raw: unknown): CatalogProductInput {
+  const body = asBody(raw);
+
+  let shelfLife: number | null = null;
+  if (body["shelf_life_days"] !== "") {
+    shelfLife = nullableNonNegativeNumber(body, "shelf_life_days") ?? null;
+  }
+  if (shelfLife !== null && !Number.isInteger(shelfLife)) {
+    throw new ValidationError("Field 'shelf_life_days' must be whole days");
+  }
+
+  return {
+    barcode: normalizeBarcode(requireString(body, "barcode")),
+    name: requireString(body, "name"),
+    category: requireString(body, "category"),
+    default_unit: optionalString(body, "default_unit") ?? consts.DEFAULT_UNIT,
+    shelf_life_days: shelfLife,
+  };
+}
+
+/**
+ * Validates a recipe submitted for an availability check. The body holds
+ * either the recipe `text` or an `ingredients` list whose entries are
+ * strings or `{ name, quantity, unit }` objects.
+ *
+ * @param {unknown} raw - The parsed JSON body
+ * @returns {RecipeInput} The recipe to check
+ * @throws {ValidationError} When neither form is given or an entry is malformed
+ */
+export function parseRecipeInput(raw: unknown): RecipeInput {
+  const body = asBody(raw);
+
+  if (body["text"] !== undefined) {
+    return { text: requireString(body, "text") };
+  }
+
+  const ingredients = body["ingredients"];
+  if (!Array.isArray(ingredients) || ingredients.length === 0) {
+    throw new ValidationError(
+      "Request body must contain recipe 'text' or a non-empty 'ingredients' list"
+    );
+  }
+
+  return {
+    ingredients: ingredients.map((entry): RecipeIngredientInput => {
+      if (typeof entry === "string") {
+        return { name: requireString({ name: entry }, "name") };
+      }
+      const ingredient = asBody(entry);
+      return {
+        name: requireString(ingredient, "name"),
+        quantity: nullableNonNegativeNumber(ingredient, "quantity") ?? null,
+        unit: optionalString(ingredient, "unit") ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Reads receipt text, sent either as a plain-text body (a pasted receipt or
+ * an uploaded `.txt` file) or as `{ "text": "..." }`.
+ *
+ * @param {unknown} raw - The parsed body
+ * @returns {string} The receipt text
+ * @throws {ValidationError} When no text is given
+ */
+export function parseReceiptText(raw: unknown): string {
+  if (typeof raw === "string") {
+    return requireString({ text: raw }, "text");
+  }
+
+  return requireString(asBody(raw), "text");
+}
+
+/**
+ * Validates a receipt the user has confirmed. Each line either names an
+ * existing `item_id` to add stock to, or the `name` and `category` of a new
+ * item. The `store` and `purchase_date` apply to every line.
+ *
+ * @param {unknown} raw - The parsed JSON body, `{ "store", "purchase_date", "lines": [...] }`
+ * @returns {ReceiptConfirmation} The receipt to commit
+ * @throws {ValidationError} When the list is empty or a line is malformed
+ */
+export function parseReceiptConfirmation(raw: unknown): ReceiptConfirmation {
+  const body = asBody(raw);
+  const lines = body["lines"];
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new ValidationError(
+      "Request body must contain a non-empty 'lines' list"
+    );
+  }
+
+  const confirmed = lines.map((entry, index): ConfirmedAddition => {
+    const line = asBody(entry);
+    const itemId = optionalId(line, "item_id") ?? null;
+
+    try {
+      return {
+        item_id: itemId,
+        name:
+          itemId === null
+            ? requireString(line, "name")
+            : optionalString(line, "name") ?? "",
+        category:
+          itemId === null
+            ? requireString(line, "category")
+            : optionalString(line, "category") ?? "",
+        quantity: positiveNumber(line, "quantity"),
+        unit: optionalString(line, "unit") ?? consts.DEFAULT_UNIT,
+        price: nullableNonNegativeNumber(line, "price") ?? null,
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`Line ${index + 1}: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  return {
+    store: optionalString(body, "store") ?? null,
+    purchase_date: optionalDate(body, "purchase_date") ?? null,
+    lines: confirmed,
+  };
+}
+
+/**
+ * Reads the optional `from` and `to` dates of a report from the query
+ * string.
+ *
+ * @param {Record<string, unknown>} query - The request query
+ * @returns {ReportRange} The inclusive date range
+ * @throws {ValidationError} When a date is invalid
+ */
+export function parseReportRange(query: Record<string, unknown>): ReportRange {
+  return {
+    from: optionalDate(query, "from") ?? null,
+    to: optionalDate(query, "to") ?? null,
+  };
+}
+
+/**
+ * Reads the grouping and date range of a spend report from the query
+ * string. Grouping defaults to category.
+ *
+ * @param {Record<string, unknown>} query - The request query
+ * @returns {{ groupBy: SpendGrouping; range: ReportRange }} The report parameters
+ * @throws {ValidationError} When the grouping or a date is invalid
+ */
+export function parseSpendQuery(query: Record<string, unknown>): {
+  groupBy: SpendGrouping;
+  range: ReportRange;
+} {
+  const groupBy = optionalString(query, "group_by") ?? SpendGrouping.CATEGORY;
+  if (!Object.values<string>(SpendGrouping).includes(groupBy)) {
+    throw new ValidationError(
+      `Query parameter 'group_by' must be one of: ${Object.values(
+        SpendGrouping
+      ).join(", ")}`
+    );
+  }
+
+  return {
+    groupBy: groupBy as SpendGrouping,
+    range: parseReportRange(query),
+  };
+}
@@ -1,7 +1,11 @@
 export interface Publisher {
   topic: string;
 
-  publish(name: string, data: Object): Promise<void>;
+  /**
+   * Publish `data` as a message called `name`. Messages with the same `key`
+   * are kept in the order they were published.
+   */
+  publish(name: string, data: Object, key?: string): Promise<void>;
 }
 
 export interface PublisherConfig {
@@ -5,4 +5,6 @@ export interface SubscriberConfig {
   groupId: string;
   topics: string[];
   callback: Function;
+  /** Read the topic from its start when the group has no offsets yet; true by default */
+  fromBeginning?: boolean;
 }
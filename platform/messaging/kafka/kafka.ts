@@ -25,10 +25,16 @@ export class KafkaPublisher implements Publisher {
     return new KafkaPublisher(config.topic, producer);
   }
 
-  async publish(data: Object): Promise<void> {
+  async publish(name: string, data: Object, key?: string): Promise<void> {
     await this.producer.send({
       topic: this.topic,
-      messages: [{ value: JSON.stringify(data) }],
+      messages: [
+        {
+          ...(key === undefined ? {} : { key }),
+          value: JSON.stringify(data),
+          headers: { name },
+        },
+      ],
     });
   }
 
@@ -57,7 +63,7 @@ export class KafkaSubscriber implements Subscriber {
     await consumer.connect();
     await consumer.subscribe({
       topics: config.topics,
-      fromBeginning: true,
+      fromBeginning: config.fromBeginning ?? true,
     });
     await consumer.run({
       eachMessage: async ({ topic, partition, message }) => {
@@ -1,9 +1,116 @@
+import { AuditOptions } from "./audit";
+import { OutboxOptions } from "./outbox/events";
+import { EntitySchema } from "./schema";
+
 type StoreObject = Promise<string | number | null | undefined>;
 
+/** A value a field can be compared with */
+export type FilterValue = string | number | boolean | Date | null;
+
+/**
+ * Comparisons on a single field. When several are given, all must hold.
+ * Comparing with `null` matches records where the field is null or
+ * missing.
+ */
+export interface FieldCondition {
+  eq?: FilterValue;
+  ne?: FilterValue;
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+  in?: FilterValue[];
+}
+
+/**
+ * Filters on a record's fields, all of which must match. A bare value is
+ * shorthand for `{ eq: value }`.
+ */
+export type Filter<T> = {
+  [K in keyof T & string]?: FilterValue | FieldCondition;
+};
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Sort order, most significant field first. Records are always ordered by
+ * ID last so that pages are stable.
+ */
+export type Sort<T> = { [K in keyof T & string]?: SortDirection };
+
+/**
+ * A backend-neutral query. Pages are selected either with `offset` or with
+ * the `cursor` returned by the previous page; the two cannot be combined.
+ */
+export interface FindQuery<T> {
+  filter?: Filter<T>;
+  sort?: Sort<T>;
+  limit?: number;
+  offset?: number;
+  cursor?: string | null;
+}
+
+export interface FindPage<T> {
+  items: T[];
+  /** Pass as `cursor` to fetch the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+/** The outcome of one item of a bulk write */
+export interface BulkResult {
+  /**
+   * The record's ID; null when the item was rejected or, on a delete,
+   * matched no record
+   */
+  id: string | number | null;
+  /** Why the item was rejected; the rest of the batch is still written */
+  error?: Error;
+}
+
+/** Optional behaviour, set per table or collection */
+export interface PersistenceOptions<T> {
+  /** Validate every write against this schema */
+  schema?: EntitySchema<T>;
+  /** Soft-delete records and keep their change history (PostgreSQL and MongoDB) */
+  audit?: AuditOptions;
+  /**
+   * Keep a `version` on every record, starting at 1 and bumped by every
+   * write. An update or upsert that carries a `version` only applies while
+   * the stored record still has it, and otherwise throws
+   * `VersionConflictError`.
+   */
+  versioned?: boolean;
+  /**
+   * Queue an event for every change in an outbox, written in the same
+   * transaction as the change (PostgreSQL, and MongoDB on a replica set)
+   */
+  outbox?: OutboxOptions;
+}
+
 export interface Persistence<T> {
   create(data: T): StoreObject;
   update(data: T): StoreObject;
   upsert(data: T): StoreObject;
   delete(data: T): StoreObject;
+  /**
+   * Bulk forms of create, upsert and delete, writing many records in a few
+   * round trips. They return one result per item, in order.
+   */
+  createMany(items: T[]): Promise<BulkResult[]>;
+  upsertMany(items: T[]): Promise<BulkResult[]>;
+  deleteMany(items: T[]): Promise<BulkResult[]>;
   get(id: number | string | null | undefined): Promise<T | null>;
+  findMany(query?: FindQuery<T>): Promise<FindPage<T>>;
+  countMany(filter?: Filter<T>): Promise<number>;
+  /**
+   * Runs `fn` in a transaction and returns its result. `fn` receives a
+   * handle bound to the transaction, which commits when `fn` resolves and
+   * rolls back when it throws.
+   */
+  withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R>;
+  /**
+   * Binds another persistence of the same backend to this transaction
+   * handle's transaction, so writes to several tables commit together.
+   */
+  enlist<U extends Record<string, any>>(other: Persistence<U>): Persistence<U>;
 }
@@ -0,0 +1,68 @@
+/**
+ * Jest tests for audit entries
+ */
+
+import { auditEntry } from "../audit";
+
+describe("auditEntry", () => {
+  it("should record every field of a created record", () => {
+    expect(
+      auditEntry("items", 1, null, null, {
+        id: 1,
+        name: "Milk",
+        quantity: 2,
+        updated_at: new Date(),
+      })
+    ).toEqual({
+      table_name: "items",
+      record_id: "1",
+      action: "create",
+      actor: null,
+      before: null,
+      after: { name: "Milk", quantity: 2 },
+    });
+  });
+
+  it("should keep only the fields that changed", () => {
+    const expiry = new Date("2026-03-01");
+
+    expect(
+      auditEntry(
+        "items",
+        1,
+        "member:7",
+        { id: 1, name: "Milk", quantity: 2, expiry_date: expiry },
+        { id: 1, name: "Milk", quantity: 1, expiry_date: new Date(expiry) }
+      )
+    ).toEqual(
+      expect.objectContaining({
+        action: "update",
+        before: { quantity: 2 },
+        after: { quantity: 1 },
+      })
+    );
+  });
+
+  it("should tell restores apart and skip changes to updated_at only", () => {
+    const deletedAt = new Date("2026-01-01");
+
+    expect(
+      auditEntry(
+        "items",
+        1,
+        null,
+        { id: 1, deleted_at: deletedAt },
+        { id: 1, deleted_at: null }
+      )?.action
+    ).toBe("restore");
+    expect(
+      auditEntry(
+        "items",
+        1,
+        null,
+        { id: 1, updated_at: deletedAt },
+        { id: 1, updated_at: new Date() }
+      )
+    ).toBeNull();
+  });
+});
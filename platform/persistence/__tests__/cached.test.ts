@@ -0,0 +1,135 @@
+/**
+ * Jest tests for the caching decorator
+ */
+
+import { CachedPersistence } from "../cache/cached";
+import { InMemoryPersistence } from "../memory/memory";
+
+const mockPublish = jest.fn();
+const mockSubscribe = jest.fn();
+const mockUnsubscribe = jest.fn();
+
+// Mock the Kafka messaging module
+jest.mock("../../messaging/kafka", () => ({
+  KafkaPublisher: {
+    create: jest.fn(async () => ({
+      publish: mockPublish,
+      shutdown: jest.fn(),
+    })),
+  },
+  KafkaSubscriber: {
+    create: jest.fn(async (config: { callback: Function }) => {
+      mockSubscribe(config);
+      return { shutdown: mockUnsubscribe };
+    }),
+  },
+}));
+
+interface TestDocument extends Record<string, any> {
+  id?: number;
+  name: string;
+}
+
+describe("CachedPersistence", () => {
+  let inner: InMemoryPersistence<TestDocument>;
+  let persistence: CachedPersistence<TestDocument>;
+  let id: string | number | null | undefined;
+
+  beforeEach(async () => {
+    inner = new InMemoryPersistence<TestDocument>("cached_table");
+    await inner.clear();
+    id = await inner.create({ name: "Ann" });
+    persistence = new CachedPersistence("cached_table", inner);
+    jest.spyOn(inner, "get");
+  });
+
+  afterEach(async () => {
+    await persistence.close();
+    jest.clearAllMocks();
+  });
+
+  it("should serve repeated reads from the cache and count hits", async () => {
+    expect((await persistence.get(id))?.name).toBe("Ann");
+    expect((await persistence.get(id))?.name).toBe("Ann");
+
+    expect(inner.get).toHaveBeenCalledTimes(1);
+    expect(persistence.stats()).toEqual({ hits: 1, misses: 1, keys: 1 });
+  });
+
+  it("should invalidate records it writes", async () => {
+    await persistence.get(id);
+    await persistence.update({ id, name: "Annie" } as TestDocument);
+
+    expect((await persistence.get(id))?.name).toBe("Annie");
+    expect(inner.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should expire records after the TTL", async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    try {
+      const shortLived = new CachedPersistence("cached_table", inner, {
+        ttl: 5,
+      });
+      await shortLived.get(id);
+      jest.advanceTimersByTime(6000);
+      await shortLived.get(id);
+
+      expect(inner.get).toHaveBeenCalledTimes(2);
+      await shortLived.close();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should invalidate a transaction's writes only once it commits", async () => {
+    await persistence.get(id);
+
+    await persistence.withTransaction(async (tx) => {
+      await tx.update({ id, name: "Annie" } as TestDocument);
+      // Another reader still sees the committed record
+      expect((await persistence.get(id))?.name).toBe("Ann");
+    });
+
+    expect((await persistence.get(id))?.name).toBe("Annie");
+  });
+
+  it("should publish invalidations and apply those of other instances", async () => {
+    await persistence.connectInvalidation({
+      topic: "cache-invalidation",
+      clientId: "test-service",
+    });
+    await persistence.get(id);
+
+    await persistence.delete({ id } as TestDocument);
+    expect(mockPublish).toHaveBeenCalledWith("invalidate", {
+      table: "cached_table",
+      ids: [String(id)],
+    });
+
+    const other = await inner.create({ name: "Bob" });
+    await persistence.get(other);
+    await inner.update({ id: other, name: "Bobby" } as TestDocument);
+    const [{ callback }] = mockSubscribe.mock.calls[0];
+    callback("cache-invalidation", 0, {
+      value: Buffer.from(
+        JSON.stringify({ table: "cached_table", ids: [String(other)] })
+      ),
+    });
+
+    expect((await persistence.get(other))?.name).toBe("Bobby");
+  });
+
+  it("should only read invalidations published after connecting", async () => {
+    await persistence.connectInvalidation({
+      topic: "cache-invalidation",
+      clientId: "test-service",
+    });
+
+    expect(mockSubscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBeginning: false })
+    );
+
+    await persistence.close();
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -6,9 +6,11 @@ import {
   createPersistence,
   createPostgresPersistence,
   createMongoPersistence,
+  createMemoryPersistence,
   DatabaseType,
   isPostgresPersistence,
   isMongoPersistence,
+  isMemoryPersistence,
   getDatabaseType,
 } from "../index";
 
@@ -48,6 +50,18 @@ describe("Persistence Factory", () => {
       expect(getDatabaseType(persistence)).toBe(DatabaseType.MONGODB);
     });
 
+    it("should create in-memory persistence when DatabaseType.MEMORY is specified", () => {
+      const persistence = createPersistence<TestDocument>({
+        databaseType: DatabaseType.MEMORY,
+        tableOrCollectionName: "test_table",
+      });
+
+      expect(persistence).toBeDefined();
+      expect(isMemoryPersistence(persistence)).toBe(true);
+      expect(isPostgresPersistence(persistence)).toBe(false);
+      expect(getDatabaseType(persistence)).toBe(DatabaseType.MEMORY);
+    });
+
     it("should throw an error for unsupported database types", () => {
       expect(() => {
         createPersistence<TestDocument>({
@@ -144,6 +158,11 @@ describe("Persistence Factory", () => {
         createMongoPersistence<TestDocument>("test_collection");
       expect(getDatabaseType(persistence)).toBe(DatabaseType.MONGODB);
     });
+
+    it("should return correct database type for in-memory persistence", () => {
+      const persistence = createMemoryPersistence<TestDocument>("test_table");
+      expect(getDatabaseType(persistence)).toBe(DatabaseType.MEMORY);
+    });
   });
 });
 
@@ -0,0 +1,334 @@
+/**
+ * Jest tests for in-memory persistence
+ */
+
+import { InvalidItemError } from "../bulk";
+import { InMemoryPersistence } from "../memory/memory";
+import { VersionConflictError } from "../versioning";
+
+interface TestDocument extends Record<string, any> {
+  id?: number;
+  name: string;
+  email: string | null;
+  version?: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+describe("InMemoryPersistence", () => {
+  let persistence: InMemoryPersistence<TestDocument>;
+
+  beforeEach(async () => {
+    persistence = new InMemoryPersistence<TestDocument>("test_table");
+    await persistence.clear();
+  });
+
+  describe("create", () => {
+    it("should generate sequential IDs and timestamps", async () => {
+      const first = await persistence.create({
+        name: "Ann",
+        email: "ann@example.com",
+      });
+      const second = await persistence.create({
+        name: "Bob",
+        email: "bob@example.com",
+      });
+
+      expect([first, second]).toEqual([1, 2]);
+      const stored = await persistence.get(first);
+      expect(stored).toEqual({
+        id: 1,
+        name: "Ann",
+        email: "ann@example.com",
+        created_at: expect.any(Date),
+        updated_at: expect.any(Date),
+      });
+    });
+
+    it("should reject a duplicate ID", async () => {
+      await persistence.create({ id: 5, name: "Ann", email: null });
+
+      await expect(
+        persistence.create({ id: 5, name: "Bob", email: null })
+      ).rejects.toThrow("Duplicate key");
+    });
+
+    it("should copy records in and out of the store", async () => {
+      const data: TestDocument = { name: "Ann", email: null };
+      const id = await persistence.create(data);
+      data.name = "Changed";
+
+      const stored = (await persistence.get(id)) as TestDocument;
+      stored.name = "Also changed";
+
+      expect((await persistence.get(id))?.name).toBe("Ann");
+    });
+  });
+
+  describe("get", () => {
+    it("should return null for a missing or empty ID", async () => {
+      expect(await persistence.get(42)).toBeNull();
+      expect(await persistence.get(null)).toBeNull();
+    });
+
+    it("should find records by string or numeric ID", async () => {
+      const id = await persistence.create({ name: "Ann", email: null });
+
+      expect((await persistence.get(String(id)))?.name).toBe("Ann");
+    });
+  });
+
+  describe("update", () => {
+    it("should merge changes and stamp updated_at", async () => {
+      const id = (await persistence.create({
+        name: "Ann",
+        email: "ann@example.com",
+        updated_at: new Date("2020-01-01"),
+      })) as number;
+
+      const result = await persistence.update({ id, name: "Annie" } as any);
+
+      const stored = await persistence.get(id);
+      expect(result).toBe(id);
+      expect(stored?.name).toBe("Annie");
+      expect(stored?.email).toBe("ann@example.com");
+      expect(stored?.updated_at?.getFullYear()).toBeGreaterThan(2020);
+    });
+
+    it("should return null for a missing record", async () => {
+      expect(
+        await persistence.update({ id: 42, name: "Nobody", email: null })
+      ).toBeNull();
+    });
+
+    it("should throw error when ID is missing", async () => {
+      await expect(
+        persistence.update({ name: "Ann", email: null })
+      ).rejects.toThrow("ID is required for update operation");
+    });
+  });
+
+  describe("upsert", () => {
+    it("should insert a record with a new ID and update an existing one", async () => {
+      await persistence.upsert({ id: 7, name: "Ann", email: null });
+      await persistence.upsert({ id: 7, name: "Annie", email: null });
+
+      expect(await persistence.countMany()).toBe(1);
+      expect((await persistence.get(7))?.name).toBe("Annie");
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete a record and return null once it is gone", async () => {
+      const id = (await persistence.create({
+        name: "Ann",
+        email: null,
+      })) as number;
+
+      expect(await persistence.delete({ id } as TestDocument)).toBe(id);
+      expect(await persistence.delete({ id } as TestDocument)).toBeNull();
+      expect(await persistence.get(id)).toBeNull();
+    });
+  });
+
+  describe("bulk operations", () => {
+    it("should write every item and report the ones it rejects", async () => {
+      const id = await persistence.create({ name: "Ann", email: null });
+
+      const created = await persistence.createMany([
+        { name: "Bob", email: null },
+        { name: "Cy", email: null },
+      ]);
+      const upserted = await persistence.upsertMany([
+        { id, name: "Annie", email: null } as TestDocument,
+        { id: 10, name: "Di", email: null },
+      ]);
+      const deleted = await persistence.deleteMany([
+        { id: 10 },
+        { id: 42 },
+        {},
+      ] as TestDocument[]);
+
+      expect(created).toEqual([{ id: 2 }, { id: 3 }]);
+      expect(upserted).toEqual([{ id }, { id: 10 }]);
+      expect(deleted).toEqual([
+        { id: 10 },
+        { id: null },
+        { id: null, error: expect.any(InvalidItemError) },
+      ]);
+      expect((await persistence.get(id))?.name).toBe("Annie");
+      expect(await persistence.countMany()).toBe(3);
+    });
+
+    it("should undo the whole batch on an error that is not an item's", async () => {
+      await expect(
+        persistence.createMany([
+          { id: 5, name: "Ann", email: null },
+          { id: 5, name: "Bob", email: null },
+        ])
+      ).rejects.toThrow("Duplicate key");
+
+      expect(await persistence.countMany()).toBe(0);
+    });
+  });
+
+  describe("findMany", () => {
+    beforeEach(async () => {
+      await persistence.create({ name: "Cid", email: "cid@example.com" });
+      await persistence.create({ name: "Ann", email: null });
+      await persistence.create({ name: "Bob", email: "bob@example.com" });
+      await persistence.create({ name: "Ann", email: "ann@example.com" });
+    });
+
+    it("should filter and sort like the database backends", async () => {
+      const page = await persistence.findMany({
+        filter: { email: { ne: null } },
+        sort: { name: "asc" },
+      });
+
+      expect(page.items.map((item) => item.id)).toEqual([4, 3, 1]);
+      expect(page.next_cursor).toBeNull();
+    });
+
+    it("should match null against missing fields and sort nulls first", async () => {
+      const page = await persistence.findMany({
+        filter: { name: "Ann" },
+        sort: { email: "asc" },
+      });
+
+      expect(page.items.map((item) => item.email)).toEqual([
+        null,
+        "ann@example.com",
+      ]);
+    });
+
+    it("should page through results with a cursor", async () => {
+      const first = await persistence.findMany({
+        sort: { name: "desc" },
+        limit: 3,
+      });
+      const second = await persistence.findMany({
+        sort: { name: "desc" },
+        limit: 3,
+        cursor: first.next_cursor,
+      });
+
+      expect(first.items.map((item) => item.name)).toEqual([
+        "Cid",
+        "Bob",
+        "Ann",
+      ]);
+      expect(second.items.map((item) => item.id)).toEqual([4]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it("should apply ranges, sets and offsets", async () => {
+      const page = await persistence.findMany({
+        filter: { id: { gte: 2 }, name: { in: ["Ann", "Cid"] } },
+        offset: 1,
+      });
+
+      expect(page.items.map((item) => item.id)).toEqual([4]);
+      expect(await persistence.countMany({ name: { lt: "B" } })).toBe(2);
+    });
+  });
+
+  describe("withTransaction", () => {
+    it("should keep the writes of a committed transaction", async () => {
+      const other = new InMemoryPersistence<TestDocument>("other_table");
+      await other.clear();
+
+      await persistence.withTransaction(async (tx) => {
+        await tx.create({ name: "Ann", email: null });
+        await tx.enlist(other).create({ name: "Bob", email: null });
+      });
+
+      expect(await persistence.countMany()).toBe(1);
+      expect(await other.countMany()).toBe(1);
+    });
+
+    it("should restore every enlisted table when the callback throws", async () => {
+      const other = new InMemoryPersistence<TestDocument>("other_table");
+      await other.clear();
+      const id = await persistence.create({ name: "Ann", email: null });
+
+      await expect(
+        persistence.withTransaction(async (tx) => {
+          await tx.update({ id, name: "Annie" } as TestDocument);
+          await tx.enlist(other).create({ name: "Bob", email: null });
+          throw new Error("Out of stock");
+        })
+      ).rejects.toThrow("Out of stock");
+
+      expect((await persistence.get(id))?.name).toBe("Ann");
+      expect(await other.countMany()).toBe(0);
+    });
+  });
+
+  describe("versioning", () => {
+    let versioned: InMemoryPersistence<TestDocument>;
+
+    beforeEach(async () => {
+      versioned = new InMemoryPersistence<TestDocument>(
+        "versioned_table",
+        undefined,
+        { versioned: true }
+      );
+      await versioned.clear();
+    });
+
+    it("should start records at version 1 and bump it on every write", async () => {
+      const id = await versioned.create({ name: "Ann", email: null });
+      expect((await versioned.get(id))?.version).toBe(1);
+
+      await versioned.update({ id, name: "Annie", version: 1 } as TestDocument);
+      await versioned.upsert({ id, name: "Anne", email: null } as TestDocument);
+
+      expect(await versioned.get(id)).toMatchObject({
+        name: "Anne",
+        version: 3,
+      });
+    });
+
+    it("should reject writes made from a stale copy", async () => {
+      const id = await versioned.create({ name: "Ann", email: null });
+      await versioned.update({ id, name: "Annie", version: 1 } as TestDocument);
+
+      let error: unknown;
+      try {
+        await versioned.update({
+          id,
+          name: "Anna",
+          version: 1,
+        } as TestDocument);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toMatchObject({ expectedVersion: 1, actualVersion: 2 });
+      await expect(
+        versioned.upsert({
+          id,
+          name: "Anna",
+          email: null,
+          version: 1,
+        } as TestDocument)
+      ).rejects.toThrow(VersionConflictError);
+      expect((await versioned.get(id))?.name).toBe("Annie");
+    });
+  });
+
+  describe("shared tables", () => {
+    it("should share records between instances of the same table", async () => {
+      const id = await persistence.create({ name: "Ann", email: null });
+      const again = new InMemoryPersistence<TestDocument>("test_table");
+      const elsewhere = new InMemoryPersistence<TestDocument>("test_table", {
+        database: "other",
+      });
+
+      expect((await again.get(id))?.name).toBe("Ann");
+      expect(await elsewhere.get(id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Jest tests for the PostgreSQL migration runner
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { loadMigrations, PostgresMigrator } from "../migrations";
+
+// Mock the pg module
+jest.mock("pg", () => ({
+  Pool: jest.fn().mockImplementation(() => ({
+    connect: jest.fn(),
+    on: jest.fn(),
+    end: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+// Mock the utils module
+jest.mock("../../utils", () => ({
+  fetchEnvVar: jest.fn((_key: string, defaultValue: string) => defaultValue),
+}));
+
+const migrations = [
+  {
+    version: 1,
+    name: "initial",
+    up: "CREATE TABLE a (id SERIAL)",
+    down: "DROP TABLE a",
+  },
+  {
+    version: 2,
+    name: "add_b",
+    up: "CREATE TABLE b (id SERIAL)",
+    down: "DROP TABLE b",
+  },
+];
+
+describe("loadMigrations", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "migrations-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should pair up and down files in version order", () => {
+    writeFileSync(path.join(directory, "0002_add_b.up.sql"), "UP 2");
+    writeFileSync(path.join(directory, "0001_initial.up.sql"), "UP 1");
+    writeFileSync(path.join(directory, "0001_initial.down.sql"), "DOWN 1");
+    writeFileSync(path.join(directory, "README.md"), "ignored");
+
+    expect(loadMigrations(directory)).toEqual([
+      { version: 1, name: "initial", up: "UP 1", down: "DOWN 1" },
+      { version: 2, name: "add_b", up: "UP 2", down: null },
+    ]);
+  });
+
+  it("should reject a migration without an up file", () => {
+    writeFileSync(path.join(directory, "0001_initial.down.sql"), "DOWN 1");
+
+    expect(() => loadMigrations(directory)).toThrow("has no .up.sql file");
+  });
+});
+
+describe("PostgresMigrator", () => {
+  let migrator: PostgresMigrator;
+
+  const useClient = (
+    applied: { version: string; name: string }[],
+    failOn?: string
+  ) => {
+    const mockClient = {
+      query: jest.fn(async (sql: string) => {
+        if (sql === failOn) {
+          throw new Error("syntax error");
+        }
+        return sql.startsWith("SELECT service")
+          ? { rows: applied.map((row) => ({ service: "svc", ...row })) }
+          : { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (migrator as any).persistence.getClient = jest
+      .fn()
+      .mockResolvedValue(mockClient);
+    return mockClient;
+  };
+
+  const statements = (client: { query: jest.Mock }) =>
+    client.query.mock.calls.map(([sql]) => sql.split("\n")[0].trim());
+
+  beforeEach(() => {
+    migrator = new PostgresMigrator("svc", migrations);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should apply pending migrations under the advisory lock", async () => {
+    const client = useClient([{ version: "1", name: "initial" }]);
+
+    const applied = await migrator.up();
+
+    expect(applied.map((migration) => migration.version)).toEqual([2]);
+    const run = statements(client);
+    expect(run[0]).toBe("SELECT pg_advisory_lock($1)");
+    expect(run.slice(3, 7)).toEqual([
+      "BEGIN",
+      "CREATE TABLE b (id SERIAL)",
+      "INSERT INTO schema_migrations (service, version, name) VALUES ($1, $2, $3)",
+      "COMMIT",
+    ]);
+    expect(run[run.length - 1]).toBe("SELECT pg_advisory_unlock($1)");
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("should stop at the target version", async () => {
+    useClient([]);
+
+    const applied = await migrator.up(1);
+
+    expect(applied.map((migration) => migration.version)).toEqual([1]);
+  });
+
+  it("should roll back the latest migrations", async () => {
+    const client = useClient([
+      { version: "1", name: "initial" },
+      { version: "2", name: "add_b" },
+    ]);
+
+    const rolledBack = await migrator.down();
+
+    expect(rolledBack.map((migration) => migration.version)).toEqual([2]);
+    expect(statements(client)).toContain("DROP TABLE b");
+    expect(statements(client)).not.toContain("DROP TABLE a");
+  });
+
+  it("should roll back a failed migration and release the lock", async () => {
+    const client = useClient([], "CREATE TABLE b (id SERIAL)");
+
+    await expect(migrator.up()).rejects.toThrow("syntax error");
+
+    const run = statements(client);
+    expect(run).toContain("ROLLBACK");
+    expect(run.filter((sql) => sql === "COMMIT")).toHaveLength(1);
+    expect(run[run.length - 1]).toBe("SELECT pg_advisory_unlock($1)");
+  });
+
+  it("should report pending and applied migrations", async () => {
+    const appliedAt = new Date("2026-01-01T00:00:00Z");
+    useClient([
+      { version: "1", name: "initial", applied_at: appliedAt } as any,
+    ]);
+
+    expect(await migrator.status()).toEqual([
+      { version: 1, name: "initial", applied_at: appliedAt },
+      { version: 2, name: "add_b", applied_at: null },
+    ]);
+  });
+});
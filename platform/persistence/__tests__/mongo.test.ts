@@ -2,7 +2,9 @@
  * Jest tests for MongoDB persistence
  */
 
+import { InvalidItemError } from "../bulk";
 import { MongoPersistence } from "../unstructured/mongo";
+import { VersionConflictError } from "../versioning";
 
 // Mock the mongodb module
 jest.mock("mongodb", () => ({
@@ -26,6 +28,12 @@ jest.mock("mongodb", () => ({
         deleteOne: jest.fn().mockResolvedValue({
           deletedCount: 1,
         }),
+        deleteMany: jest.fn().mockResolvedValue({
+          deletedCount: 1,
+        }),
+        bulkWrite: jest.fn().mockResolvedValue({
+          insertedIds: { 0: "507f1f77bcf86cd799439011" },
+        }),
         find: jest.fn().mockReturnValue({
           toArray: jest.fn().mockResolvedValue([
             {
@@ -47,6 +55,16 @@ jest.mock("mongodb", () => ({
   ObjectId: jest.fn().mockImplementation((id) => ({
     toString: () => id || "507f1f77bcf86cd799439011",
   })),
+  MongoBulkWriteError: class extends Error {
+    writeErrors: unknown;
+    insertedIds: unknown;
+
+    constructor(writeErrors: unknown, insertedIds: unknown) {
+      super("Bulk write failed");
+      this.writeErrors = writeErrors;
+      this.insertedIds = insertedIds;
+    }
+  },
 }));
 
 // Mock the utils module
@@ -69,6 +87,7 @@ interface TestDocument extends Record<string, any> {
   id?: string;
   name: string;
   email: string;
+  version?: number;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -232,6 +251,87 @@ describe("MongoPersistence", () => {
     });
   });
 
+  describe("bulk operations", () => {
+    it("should insert documents with one bulkWrite and report rejected ones", async () => {
+      const { MongoBulkWriteError } = jest.requireMock("mongodb");
+      const collection = (persistence as any).collection;
+      collection.bulkWrite.mockRejectedValueOnce(
+        new MongoBulkWriteError(
+          [{ index: 1, errmsg: "E11000 duplicate key" }],
+          {
+            0: "507f1f77bcf86cd799439011",
+          }
+        )
+      );
+
+      const results = await persistence.createMany([
+        { name: "Ann", email: "ann@example.com" },
+        { name: "Bob", email: "bob@example.com" },
+      ]);
+
+      expect(collection.bulkWrite).toHaveBeenCalledTimes(1);
+      expect(collection.bulkWrite.mock.calls[0][1]).toEqual({ ordered: false });
+      expect(results).toEqual([
+        { id: "507f1f77bcf86cd799439011" },
+        { id: null, error: new Error("E11000 duplicate key") },
+      ]);
+    });
+
+    it("should upsert documents with an ID and insert those without", async () => {
+      const collection = (persistence as any).collection;
+      collection.bulkWrite.mockResolvedValueOnce({
+        insertedIds: { 1: "507f1f77bcf86cd799439012" },
+      });
+
+      const results = await persistence.upsertMany([
+        { _id: "507f1f77bcf86cd799439011", name: "Ann", email: "a@b.c" },
+        { name: "Bob", email: "bob@example.com" },
+      ]);
+
+      const [operations] = collection.bulkWrite.mock.calls[0];
+      expect(operations[0].updateOne).toEqual(
+        expect.objectContaining({
+          update: {
+            $set: expect.objectContaining({ name: "Ann", email: "a@b.c" }),
+          },
+          upsert: true,
+        })
+      );
+      expect(operations[1].insertOne.document).toEqual(
+        expect.objectContaining({ name: "Bob", created_at: expect.any(Date) })
+      );
+      expect(results).toEqual([
+        { id: "507f1f77bcf86cd799439011" },
+        { id: "507f1f77bcf86cd799439012" },
+      ]);
+    });
+
+    it("should delete existing documents and report the rest", async () => {
+      const collection = (persistence as any).collection;
+      collection.find.mockReturnValueOnce({
+        toArray: jest
+          .fn()
+          .mockResolvedValue([{ _id: "507f1f77bcf86cd799439011" }]),
+      });
+
+      const results = await persistence.deleteMany([
+        { _id: "507f1f77bcf86cd799439011" },
+        { _id: "507f1f77bcf86cd799439012" },
+        {},
+      ] as TestDocument[]);
+
+      expect(collection.deleteMany).toHaveBeenCalledWith(
+        { _id: { $in: ["507f1f77bcf86cd799439011"] } },
+        {}
+      );
+      expect(results).toEqual([
+        { id: "507f1f77bcf86cd799439011" },
+        { id: null },
+        { id: null, error: expect.any(InvalidItemError) },
+      ]);
+    });
+  });
+
   describe("find", () => {
     it("should find documents with query", async () => {
       const result = await persistence.find({ name: "Test User" });
@@ -267,6 +367,368 @@ describe("MongoPersistence", () => {
     });
   });
 
+  describe("findMany", () => {
+    it("should translate filters and sort into a MongoDB query", async () => {
+      const collection = (persistence as any).collection;
+
+      const page = await persistence.findMany({
+        filter: { name: "Test User", email: { ne: null } },
+        sort: { name: "desc" },
+        limit: 10,
+        offset: 20,
+      });
+
+      expect(collection.find).toHaveBeenCalledWith(
+        { name: { $eq: "Test User" }, email: { $ne: null } },
+        { sort: { name: -1, _id: 1 }, limit: 11, skip: 20 }
+      );
+      expect(page.items).toHaveLength(1);
+      expect(page.next_cursor).toBeNull();
+    });
+
+    it("should return a cursor when more documents follow", async () => {
+      const collection = (persistence as any).collection;
+      collection.find = jest.fn().mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([
+          { _id: "507f1f77bcf86cd799439011", name: "Ann" },
+          { _id: "507f1f77bcf86cd799439012", name: "Bob" },
+        ]),
+      });
+
+      const first = await persistence.findMany({
+        sort: { name: "asc" },
+        limit: 1,
+      });
+      expect(first.items).toHaveLength(1);
+
+      await persistence.findMany({
+        sort: { name: "asc" },
+        limit: 1,
+        cursor: first.next_cursor,
+      });
+
+      const [filter] = collection.find.mock.calls[1];
+      expect(filter.$and[0].$or).toHaveLength(2);
+      expect(filter.$and[0].$or[0]).toEqual({
+        $and: [{ name: { $gt: "Ann" } }],
+      });
+    });
+  });
+
+  describe("countMany", () => {
+    it("should count documents matching a filter", async () => {
+      const result = await persistence.countMany({ name: { in: ["a", "b"] } });
+      expect(result).toBe(1);
+    });
+  });
+
+  describe("withTransaction", () => {
+    const useSession = () => {
+      const session = {
+        startTransaction: jest.fn(),
+        commitTransaction: jest.fn().mockResolvedValue(undefined),
+        abortTransaction: jest.fn().mockResolvedValue(undefined),
+        endSession: jest.fn().mockResolvedValue(undefined),
+      };
+      (persistence as any).client.startSession = jest
+        .fn()
+        .mockReturnValue(session);
+      return session;
+    };
+
+    it("should run the callback's operations in the session", async () => {
+      const session = useSession();
+      const collection = (persistence as any).collection;
+
+      await persistence.withTransaction(async (tx) => {
+        await tx.create({ name: "Ann", email: "ann@example.com" });
+      });
+
+      expect(collection.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Ann" }),
+        { session }
+      );
+      expect(session.commitTransaction).toHaveBeenCalled();
+      expect(session.abortTransaction).not.toHaveBeenCalled();
+      expect(session.endSession).toHaveBeenCalled();
+    });
+
+    it("should abort when the callback throws", async () => {
+      const session = useSession();
+
+      await expect(
+        persistence.withTransaction(async () => {
+          throw new Error("Out of stock");
+        })
+      ).rejects.toThrow("Out of stock");
+
+      expect(session.abortTransaction).toHaveBeenCalled();
+      expect(session.commitTransaction).not.toHaveBeenCalled();
+      expect(session.endSession).toHaveBeenCalled();
+    });
+
+    it("should say when the server cannot run transactions", async () => {
+      useSession();
+      const standalone = Object.assign(
+        new Error(
+          "Transaction numbers are only allowed on a replica set member or mongos"
+        ),
+        { code: 20 }
+      );
+
+      await expect(
+        persistence.withTransaction(async () => {
+          throw standalone;
+        })
+      ).rejects.toThrow(
+        "MongoDB transactions on test_collection need a replica set or sharded cluster"
+      );
+    });
+  });
+
+  describe("auditing", () => {
+    let audited: MongoPersistence<TestDocument>;
+
+    beforeEach(() => {
+      audited = new MongoPersistence<TestDocument>(
+        "test_collection",
+        undefined,
+        { audit: {} }
+      );
+    });
+
+    it("should mark documents deleted and record who did it", async () => {
+      const collection = (audited as any).collection;
+      const history = (audited as any).auditLog.collection;
+      collection.findOne
+        .mockResolvedValueOnce({ _id: "1", name: "Ann", deleted_at: null })
+        .mockResolvedValueOnce({
+          _id: "1",
+          name: "Ann",
+          deleted_at: new Date("2026-01-01"),
+        });
+
+      const result = await audited
+        .withActor("member:7")
+        .delete({ _id: "507f1f77bcf86cd799439011" } as TestDocument);
+
+      expect(result).toBe("507f1f77bcf86cd799439011");
+      expect(collection.deleteOne).not.toHaveBeenCalled();
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ deleted_at: null }),
+        {
+          $set: { deleted_at: expect.any(Date), updated_at: expect.any(Date) },
+        },
+        {}
+      );
+      expect(history.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          table_name: "test_collection",
+          record_id: "507f1f77bcf86cd799439011",
+          action: "delete",
+          actor: "member:7",
+          before: { deleted_at: null },
+          after: { deleted_at: new Date("2026-01-01") },
+        })
+      );
+    });
+
+    it("should hide deleted documents unless the filter asks for them", async () => {
+      const collection = (audited as any).collection;
+
+      await audited.get("507f1f77bcf86cd799439011");
+      await audited.countMany({ name: "Ann" });
+      await audited.countMany({ deleted_at: { ne: null } } as any);
+
+      expect(collection.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ deleted_at: null }),
+        {}
+      );
+      expect(collection.countDocuments.mock.calls).toEqual([
+        [{ name: { $eq: "Ann" }, deleted_at: null }, {}],
+        [{ deleted_at: { $ne: null } }, {}],
+      ]);
+    });
+
+    it("should not write an entry when nothing changed", async () => {
+      const history = (audited as any).auditLog.collection;
+
+      await audited.update({
+        _id: "507f1f77bcf86cd799439011",
+        name: "Test User",
+        email: "test@example.com",
+      });
+
+      expect(history.insertOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("versioning", () => {
+    let versioned: MongoPersistence<TestDocument>;
+
+    beforeEach(() => {
+      versioned = new MongoPersistence<TestDocument>(
+        "test_collection",
+        undefined,
+        { versioned: true }
+      );
+    });
+
+    it("should only update the expected version and bump it", async () => {
+      const collection = (versioned as any).collection;
+
+      await versioned.update({
+        _id: "507f1f77bcf86cd799439011",
+        name: "Ann",
+        email: "ann@example.com",
+        version: 2,
+      });
+
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ version: 2 }),
+        {
+          $set: {
+            name: "Ann",
+            email: "ann@example.com",
+            updated_at: expect.any(Date),
+          },
+          $inc: { version: 1 },
+        },
+        {}
+      );
+    });
+
+    it("should throw a conflict when the stored version has moved", async () => {
+      const collection = (versioned as any).collection;
+      collection.updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+      collection.findOne.mockResolvedValueOnce({ _id: "1", version: 3 });
+
+      await expect(
+        versioned.update({
+          _id: "507f1f77bcf86cd799439011",
+          name: "Ann",
+          email: "ann@example.com",
+          version: 2,
+        })
+      ).rejects.toThrow(VersionConflictError);
+    });
+
+    it("should report an upsert that missed its version as a conflict", async () => {
+      const collection = (versioned as any).collection;
+      collection.updateOne.mockRejectedValueOnce(
+        Object.assign(new Error("E11000 duplicate key error"), { code: 11000 })
+      );
+      collection.findOne.mockResolvedValueOnce({ _id: "1", version: 3 });
+
+      await expect(
+        versioned.upsert({
+          _id: "507f1f77bcf86cd799439011",
+          name: "Ann",
+          email: "ann@example.com",
+          version: 2,
+        })
+      ).rejects.toThrow("expected version 2, found 3");
+    });
+  });
+
+  describe("outbox", () => {
+    let published: MongoPersistence<TestDocument>;
+    let session: Record<
+      | "startTransaction"
+      | "commitTransaction"
+      | "abortTransaction"
+      | "endSession",
+      jest.Mock
+    >;
+
+    beforeEach(() => {
+      published = new MongoPersistence<TestDocument>(
+        "test_collection",
+        undefined,
+        { outbox: {} }
+      );
+      session = {
+        startTransaction: jest.fn(),
+        commitTransaction: jest.fn().mockResolvedValue(undefined),
+        abortTransaction: jest.fn().mockResolvedValue(undefined),
+        endSession: jest.fn().mockResolvedValue(undefined),
+      };
+      (published as any).client.startSession = jest
+        .fn()
+        .mockReturnValue(session);
+    });
+
+    it("should queue an event in a transaction of its own", async () => {
+      const collection = (published as any).collection;
+
+      await published.create({ name: "Ann", email: "ann@example.com" });
+
+      expect(collection.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Ann" }),
+        { session }
+      );
+      expect(collection.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          table_name: "test_collection",
+          record_id: "507f1f77bcf86cd799439011",
+          action: "create",
+          record: {
+            _id: "507f1f77bcf86cd799439011",
+            name: "Test User",
+            email: "test@example.com",
+          },
+        }),
+        { session }
+      );
+      expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not queue an event for a write that changed nothing", async () => {
+      const collection = (published as any).collection;
+      collection.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+
+      await published.delete({
+        _id: "507f1f77bcf86cd799439011",
+      } as TestDocument);
+
+      expect(collection.insertOne).not.toHaveBeenCalled();
+      expect(session.commitTransaction).toHaveBeenCalled();
+    });
+
+    it("should write bulk changes and their events in one transaction", async () => {
+      const collection = (published as any).collection;
+
+      await published.createMany([
+        { name: "Ann", email: "ann@example.com" },
+        { name: "Bob", email: "bob@example.com" },
+      ]);
+      await published.deleteMany([
+        { _id: "507f1f77bcf86cd799439011" } as TestDocument,
+      ]);
+
+      expect(collection.insertOne).toHaveBeenCalledTimes(5);
+      for (const [, options] of collection.insertOne.mock.calls) {
+        expect(options).toEqual({ session });
+      }
+      expect(collection.deleteOne).toHaveBeenCalledWith(expect.anything(), {
+        session,
+      });
+      expect(session.commitTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it("should watch the collection with full documents", async () => {
+      const collection = (published as any).collection;
+      collection.watch = jest.fn().mockReturnValue("stream");
+
+      expect(await published.watch({ _data: "token" })).toBe("stream");
+      expect(collection.watch).toHaveBeenCalledWith([], {
+        fullDocument: "updateLookup",
+        fullDocumentBeforeChange: "whenAvailable",
+        resumeAfter: { _data: "token" },
+      });
+    });
+  });
+
   describe("createIndex", () => {
     it("should create an index", async () => {
       const result = await persistence.createIndex(
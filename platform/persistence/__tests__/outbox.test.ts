@@ -0,0 +1,267 @@
+/**
+ * Jest tests for the outbox relays
+ */
+
+import { InMemoryPersistence } from "../memory/memory";
+import { ChangeStreamRelay } from "../outbox/changeStream";
+import { OutboxEvent } from "../outbox/events";
+import { OutboxRelay } from "../outbox/relay";
+import { MongoPersistence } from "../unstructured/mongo";
+
+const publisher = {
+  topic: "record-changes",
+  publish: jest.fn(async (_name: string, _data: Object, _key?: string) => {}),
+};
+
+describe("OutboxRelay", () => {
+  let outbox: InMemoryPersistence<OutboxEvent>;
+  let relay: OutboxRelay;
+
+  const queue = async (recordId: string, action: OutboxEvent["action"]) =>
+    await outbox.create({
+      table_name: "items",
+      record_id: recordId,
+      action,
+      record: { id: recordId },
+      created_at: new Date(),
+      published_at: null,
+    });
+
+  beforeEach(async () => {
+    outbox = new InMemoryPersistence<OutboxEvent>("outbox");
+    await outbox.clear();
+    relay = new OutboxRelay(outbox, publisher, { batchSize: 2 });
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    jest.clearAllMocks();
+  });
+
+  it("should publish unpublished events in order and mark them", async () => {
+    await queue("1", "create");
+    await queue("1", "update");
+    await queue("2", "delete");
+
+    expect(await relay.relay()).toBe(3);
+
+    expect(publisher.publish.mock.calls.map(([name]) => name)).toEqual([
+      "items.create",
+      "items.update",
+      "items.delete",
+    ]);
+    expect(publisher.publish).toHaveBeenCalledWith(
+      "items.create",
+      {
+        table_name: "items",
+        record_id: "1",
+        action: "create",
+        record: { id: "1" },
+        created_at: expect.any(Date),
+      },
+      "items:1"
+    );
+    expect(await outbox.countMany({ published_at: null })).toBe(0);
+    expect(await relay.relay()).toBe(0);
+  });
+
+  it("should leave an event it failed to publish for the next pass", async () => {
+    await queue("1", "create");
+    await queue("1", "update");
+    publisher.publish.mockRejectedValueOnce(new Error("Broker unavailable"));
+
+    await expect(relay.relay()).rejects.toThrow("Broker unavailable");
+    expect(await outbox.countMany({ published_at: null })).toBe(2);
+
+    expect(await relay.relay()).toBe(2);
+    expect(publisher.publish).toHaveBeenCalledTimes(3);
+  });
+
+  it("should poll until stopped", async () => {
+    jest.useFakeTimers();
+    try {
+      await queue("1", "create");
+      relay.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(publisher.publish).toHaveBeenCalledTimes(1);
+
+      await queue("2", "create");
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(publisher.publish).toHaveBeenCalledTimes(2);
+
+      await relay.stop();
+      await queue("3", "create");
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(publisher.publish).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("ChangeStreamRelay", () => {
+  /** A change stream that yields `events` and then waits to be closed */
+  const streamOf = (events: Record<string, any>[]) => {
+    const stream = {
+      closed: false,
+      close: jest.fn(async () => {
+        stream.closed = true;
+      }),
+      async *[Symbol.asyncIterator]() {
+        yield* events;
+      },
+    };
+    return stream;
+  };
+
+  /** A collection persistence whose change stream is `stream` */
+  const watching = (stream: ReturnType<typeof streamOf>) => ({
+    watch: jest.fn(async () => stream),
+    getCollection: () => ({ collectionName: "items" }),
+  });
+
+  /** Checkpoints that start out holding `saved` for the items relay */
+  const checkpointsOf = (saved: Record<string, any> | null) => {
+    const updateOne = jest.fn(async () => ({}));
+    const checkpoints = {
+      findOne: jest.fn(async () => saved),
+      getCollection: () => ({ updateOne }),
+    };
+    return { checkpoints, updateOne };
+  };
+
+  const insertOf = (token: string, id: string) => ({
+    _id: { _data: token },
+    operationType: "insert",
+    ns: { db: "test", coll: "items" },
+    documentKey: { _id: id },
+    fullDocument: { _id: id },
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should publish changes and remember where it got to", async () => {
+    const wallTime = new Date("2026-01-01");
+    const ns = { db: "test", coll: "items" };
+    const stream = streamOf([
+      {
+        _id: { _data: "1" },
+        operationType: "insert",
+        ns,
+        documentKey: { _id: "a" },
+        fullDocument: { _id: "a", name: "Lamp" },
+        wallTime,
+      },
+      {
+        _id: { _data: "2" },
+        operationType: "update",
+        ns,
+        documentKey: { _id: "a" },
+        updateDescription: { updatedFields: { deleted_at: wallTime } },
+        fullDocument: { _id: "a", name: "Lamp", deleted_at: wallTime },
+        wallTime,
+      },
+      { _id: { _data: "3" }, operationType: "drop", ns, wallTime },
+      {
+        _id: { _data: "4" },
+        operationType: "delete",
+        ns,
+        documentKey: { _id: "a" },
+        wallTime,
+      },
+    ]);
+    const persistence = watching(stream);
+    const relay = new ChangeStreamRelay(
+      persistence as unknown as MongoPersistence<any>,
+      publisher
+    );
+
+    await relay.start({ _data: "0" });
+    await relay.stop();
+
+    expect(persistence.watch).toHaveBeenCalledWith({ _data: "0" });
+    expect(publisher.publish.mock.calls).toEqual([
+      [
+        "items.create",
+        {
+          table_name: "items",
+          record_id: "a",
+          action: "create",
+          record: { _id: "a", name: "Lamp" },
+          created_at: wallTime,
+        },
+        "items:a",
+      ],
+      [
+        "items.delete",
+        expect.objectContaining({ action: "delete" }),
+        "items:a",
+      ],
+      ["items.delete", expect.objectContaining({ record: null }), "items:a"],
+    ]);
+    expect(relay.resumeToken).toEqual({ _data: "4" });
+    expect(stream.close).toHaveBeenCalled();
+  });
+
+  it("should carry on from its checkpoint and save every change", async () => {
+    const persistence = watching(streamOf([insertOf("1", "a")]));
+    const { checkpoints, updateOne } = checkpointsOf({
+      _id: "items",
+      resume_token: { _data: "0" },
+    });
+    const relay = new ChangeStreamRelay(
+      persistence as unknown as MongoPersistence<any>,
+      publisher,
+      { checkpoints: checkpoints as unknown as MongoPersistence<any> }
+    );
+
+    await relay.start();
+    await relay.stop();
+
+    expect(checkpoints.findOne).toHaveBeenCalledWith({ _id: "items" });
+    expect(persistence.watch).toHaveBeenCalledWith({ _data: "0" });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: "items" },
+      { $set: { resume_token: { _data: "1" }, updated_at: expect.any(Date) } },
+      { upsert: true }
+    );
+  });
+
+  it("should retry a failed publish and stop once the attempts run out", async () => {
+    const stream = streamOf([insertOf("1", "a"), insertOf("2", "b")]);
+    const { checkpoints, updateOne } = checkpointsOf(null);
+    publisher.publish
+      .mockRejectedValueOnce(new Error("Broker unavailable"))
+      .mockResolvedValueOnce()
+      .mockRejectedValue(new Error("Broker unavailable"));
+    let failed: (error: unknown) => void = () => {};
+    const failure = new Promise((resolve) => (failed = resolve));
+    const relay = new ChangeStreamRelay(
+      watching(stream) as unknown as MongoPersistence<any>,
+      publisher,
+      {
+        checkpoints: checkpoints as unknown as MongoPersistence<any>,
+        attempts: 2,
+        retryDelay: 0,
+        onError: (error) => failed(error),
+      }
+    );
+    const logged = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      await relay.start();
+      expect(await failure).toEqual(new Error("Broker unavailable"));
+      await relay.stop();
+      expect(publisher.publish).toHaveBeenCalledTimes(4);
+    } finally {
+      publisher.publish.mockReset();
+      logged.mockRestore();
+    }
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(relay.resumeToken).toEqual({ _data: "1" });
+    expect(stream.close).toHaveBeenCalled();
+  });
+});
@@ -2,13 +2,31 @@
  * Jest tests for PostgreSQL persistence
  */
 
+import { InvalidItemError } from "../bulk";
+import { InvalidIdentifierError } from "../identifiers";
 import { PostgresPersistence } from "../structured/postgres";
+import { VersionConflictError } from "../versioning";
+
+/**
+ * A client query mock that answers column lookups with the test table's
+ * columns and every other statement with `result`
+ */
+const mockQuery = (result: Record<string, any>) =>
+  jest.fn(async (sql: string, _params?: unknown[]) =>
+    sql.includes("information_schema")
+      ? {
+          rows: ["id", "name", "email", "created_at", "updated_at"].map(
+            (column_name) => ({ column_name })
+          ),
+        }
+      : result
+  );
 
 // Mock the pg module
 jest.mock("pg", () => ({
   Pool: jest.fn().mockImplementation(() => ({
     connect: jest.fn().mockResolvedValue({
-      query: jest.fn().mockResolvedValue({
+      query: mockQuery({
         rows: [{ id: 1 }],
         rowCount: 1,
       }),
@@ -37,6 +55,7 @@ interface TestDocument extends Record<string, any> {
   id?: number;
   name: string;
   email: string;
+  version?: number;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -89,7 +108,7 @@ describe("PostgresPersistence", () => {
   describe("get", () => {
     it("should get a record by ID", async () => {
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [{ id: 1, name: "Test User", email: "test@example.com" }],
         }),
         release: jest.fn(),
@@ -109,7 +128,7 @@ describe("PostgresPersistence", () => {
 
     it("should return null for non-existent record", async () => {
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [],
         }),
         release: jest.fn(),
@@ -137,7 +156,7 @@ describe("PostgresPersistence", () => {
       };
 
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [{ id: 1 }],
           rowCount: 1,
         }),
@@ -172,7 +191,7 @@ describe("PostgresPersistence", () => {
       };
 
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [{ id: 1 }],
           rowCount: 1,
         }),
@@ -207,7 +226,7 @@ describe("PostgresPersistence", () => {
       };
 
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [{ id: 1 }],
           rowCount: 1,
         }),
@@ -228,7 +247,7 @@ describe("PostgresPersistence", () => {
       };
 
       const mockClient = {
-        query: jest.fn().mockResolvedValue({
+        query: mockQuery({
           rows: [{ id: 2 }],
           rowCount: 1,
         }),
@@ -243,10 +262,661 @@ describe("PostgresPersistence", () => {
     });
   });
 
+  describe("findMany", () => {
+    const useRows = (rows: TestDocument[]) => {
+      const mockClient = {
+        query: mockQuery({ rows, rowCount: rows.length }),
+        release: jest.fn(),
+      };
+      (persistence as any).pool.connect = jest
+        .fn()
+        .mockResolvedValue(mockClient);
+      return mockClient.query;
+    };
+
+    it("should translate filters and sort into SQL", async () => {
+      const query = useRows([{ id: 1, name: "Ann", email: "ann@example.com" }]);
+
+      const page = await persistence.findMany({
+        filter: {
+          name: "Ann",
+          email: { ne: null },
+          id: { gte: 1, in: [1, 2] },
+        },
+        sort: { name: "desc" },
+      });
+
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'WHERE "name" = $1 AND "email" IS NOT NULL AND "id" >= $2 AND ("id" = ANY($3))'
+        ),
+        ["Ann", 1, [1, 2]]
+      );
+      expect(query).toHaveBeenLastCalledWith(
+        expect.stringContaining(
+          'ORDER BY "name" DESC NULLS LAST, "id" ASC NULLS FIRST'
+        ),
+        expect.any(Array)
+      );
+      expect(page).toEqual({
+        items: [{ id: 1, name: "Ann", email: "ann@example.com" }],
+        next_cursor: null,
+      });
+    });
+
+    it("should return a cursor that continues after the last row", async () => {
+      useRows([
+        { id: 1, name: "Ann", email: "ann@example.com" },
+        { id: 2, name: "Bob", email: "bob@example.com" },
+      ]);
+
+      const first = await persistence.findMany({
+        sort: { name: "asc" },
+        limit: 1,
+      });
+      expect(first.items).toHaveLength(1);
+      expect(first.next_cursor).not.toBeNull();
+
+      const query = useRows([]);
+      await persistence.findMany({
+        sort: { name: "asc" },
+        limit: 1,
+        cursor: first.next_cursor,
+      });
+
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'WHERE (("name" > $1) OR ("name" = $3 AND "id" > $2))'
+        ),
+        ["Ann", 1, "Ann", 2]
+      );
+    });
+
+    it("should reject unsafe column names", async () => {
+      await expect(
+        persistence.findMany({ filter: { "name; DROP TABLE x": "a" } as any })
+      ).rejects.toThrow("Invalid column name");
+    });
+
+    it("should reject a cursor combined with an offset", async () => {
+      await expect(
+        persistence.findMany({ cursor: "abc", offset: 10 })
+      ).rejects.toThrow("not both");
+    });
+  });
+
+  describe("countMany", () => {
+    it("should count matching records", async () => {
+      const mockClient = {
+        query: mockQuery({ rows: [{ count: 3 }] }),
+        release: jest.fn(),
+      };
+      (persistence as any).pool.connect = jest
+        .fn()
+        .mockResolvedValue(mockClient);
+
+      const result = await persistence.countMany({ name: { lt: "M" } });
+
+      expect(result).toBe(3);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE "name" < $1'),
+        ["M"]
+      );
+    });
+  });
+
+  describe("withTransaction", () => {
+    const useClient = (target: PostgresPersistence<any>) => {
+      const mockClient = {
+        query: mockQuery({ rows: [{ id: 1 }], rowCount: 1 }),
+        release: jest.fn(),
+      };
+      (target as any).pool.connect = jest.fn().mockResolvedValue(mockClient);
+      return mockClient;
+    };
+
+    it("should run the callback's queries between BEGIN and COMMIT", async () => {
+      const client = useClient(persistence);
+
+      const result = await persistence.withTransaction(async (tx) => {
+        await tx.create({ name: "Ann", email: "ann@example.com" });
+        await tx.update({ id: 1, name: "Ann", email: "ann@example.org" });
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      const statements = client.query.mock.calls
+        .map(([sql]) => sql.trim())
+        .filter((sql) => !sql.includes("information_schema"));
+      expect(statements[0]).toBe("BEGIN");
+      expect(statements[1]).toMatch(/^INSERT INTO "test_table"/);
+      expect(statements[2]).toMatch(/^UPDATE "test_table"/);
+      expect(statements[3]).toBe("COMMIT");
+      expect((persistence as any).pool.connect).toHaveBeenCalledTimes(1);
+      expect(client.release).toHaveBeenCalledTimes(1);
+    });
+
+    it("should roll back when the callback throws", async () => {
+      const client = useClient(persistence);
+
+      await expect(
+        persistence.withTransaction(async (tx) => {
+          await tx.create({ name: "Ann", email: "ann@example.com" });
+          throw new Error("Out of stock");
+        })
+      ).rejects.toThrow("Out of stock");
+
+      const statements = client.query.mock.calls.map(([sql]) => sql.trim());
+      expect(statements).toContain("ROLLBACK");
+      expect(statements).not.toContain("COMMIT");
+      expect(client.release).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run enlisted tables on the transaction's client", async () => {
+      const client = useClient(persistence);
+      const other = new PostgresPersistence<TestDocument>("other_table");
+      const otherClient = useClient(other);
+
+      await persistence.withTransaction(async (tx) => {
+        await tx.enlist(other).create({ name: "Bob", email: "bob@x.com" });
+      });
+
+      expect(otherClient.query).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "other_table"'),
+        ["Bob", "bob@x.com"]
+      );
+    });
+
+    it("should only enlist from a transaction handle", () => {
+      const other = new PostgresPersistence<TestDocument>("other_table");
+      expect(() => persistence.enlist(other)).toThrow("transaction handle");
+    });
+  });
+
+  describe("identifiers", () => {
+    const useClient = () => {
+      const mockClient = {
+        query: mockQuery({ rows: [{ id: 1 }], rowCount: 1 }),
+        release: jest.fn(),
+      };
+      (persistence as any).pool.connect = jest
+        .fn()
+        .mockResolvedValue(mockClient);
+      return mockClient;
+    };
+    const lookups = (client: { query: jest.Mock }) =>
+      client.query.mock.calls.filter(([sql]) =>
+        sql.includes("information_schema")
+      );
+
+    it("should reject fields that are not columns of the table", async () => {
+      const client = useClient();
+
+      await expect(
+        persistence.create({
+          name: "Ann",
+          email: "ann@example.com",
+          is_admin: true,
+        } as TestDocument)
+      ).rejects.toThrow(
+        new InvalidIdentifierError(
+          "Unknown column is_admin in table test_table",
+          "is_admin"
+        )
+      );
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it("should look the columns up once until the cache is cleared", async () => {
+      const client = useClient();
+
+      await persistence.create({ name: "Ann", email: "ann@example.com" });
+      await persistence.update({ id: 1, name: "Annie", email: "a@x.com" });
+      expect(lookups(client)).toHaveLength(1);
+      expect(lookups(client)[0]?.[1]).toEqual([null, "test_table"]);
+
+      persistence.clearColumnCache();
+      await persistence.countMany({ name: "Ann" });
+      expect(lookups(client)).toHaveLength(2);
+    });
+
+    it("should report a table without columns as missing", async () => {
+      const missing = new PostgresPersistence<TestDocument>("audit.missing");
+      const client = {
+        query: jest.fn().mockResolvedValue({ rows: [] }),
+        release: jest.fn(),
+      };
+      (missing as any).pool.connect = jest.fn().mockResolvedValue(client);
+
+      await expect(missing.countMany()).rejects.toThrow(
+        "Table audit.missing does not exist"
+      );
+      expect(client.query).toHaveBeenCalledWith(expect.any(String), [
+        "audit",
+        "missing",
+      ]);
+    });
+
+    it("should reject malformed table names", () => {
+      expect(
+        () => new PostgresPersistence<TestDocument>("users; DROP TABLE users")
+      ).toThrow("Invalid table name");
+      expect(() => new PostgresPersistence<TestDocument>("a.b.c")).toThrow(
+        InvalidIdentifierError
+      );
+    });
+  });
+
+  describe("auditing", () => {
+    let audited: PostgresPersistence<TestDocument>;
+
+    /**
+     * A client whose row lookups return `rows` in turn, answering column
+     * lookups for both the table and the history table
+     */
+    const useAuditClient = (rows: Record<string, any>[]) => {
+      const client = {
+        query: jest.fn(async (sql: string, _params?: unknown[]) => {
+          if (sql.includes("information_schema")) {
+            return {
+              rows: [
+                ...["id", "name", "email", "deleted_at", "table_name"],
+                ...["record_id", "action", "actor", "before", "after"],
+                ...["created_at", "updated_at", "version"],
+              ].map((column_name) => ({ column_name })),
+            };
+          }
+          if (sql.includes("FOR UPDATE")) {
+            return { rows: rows.splice(0, 1) };
+          }
+          return { rows: [{ id: 1 }], rowCount: 1 };
+        }),
+        release: jest.fn(),
+      };
+      (audited as any).pool.connect = jest.fn().mockResolvedValue(client);
+      return client;
+    };
+    const statementsOf = (client: { query: jest.Mock }) =>
+      client.query.mock.calls
+        .map(([sql]) => sql.replace(/\s+/g, " ").trim())
+        .filter((sql) => !sql.includes("information_schema"));
+
+    beforeEach(() => {
+      audited = new PostgresPersistence<TestDocument>("test_table", undefined, {
+        audit: {},
+      });
+    });
+
+    it("should record an update with its actor in the same transaction", async () => {
+      const client = useAuditClient([
+        { id: 1, name: "Ann", email: "ann@example.com", deleted_at: null },
+        { id: 1, name: "Annie", email: "ann@example.com", deleted_at: null },
+      ]);
+
+      await audited
+        .withActor("member:7")
+        .update({ id: 1, name: "Annie", email: "ann@example.com" });
+
+      const statements = statementsOf(client);
+      expect(statements[0]).toBe("BEGIN");
+      expect(statements[1]).toContain("FOR UPDATE");
+      expect(statements[2]).toContain("WHERE id = $3 AND deleted_at IS NULL");
+      expect(statements[4]).toMatch(/^INSERT INTO "audit_history"/);
+      expect(statements[5]).toBe("COMMIT");
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "audit_history"'),
+        [
+          "test_table",
+          "1",
+          "update",
+          "member:7",
+          { name: "Ann" },
+          { name: "Annie" },
+          expect.any(Date),
+        ]
+      );
+    });
+
+    it("should mark records deleted instead of removing them", async () => {
+      const client = useAuditClient([
+        { id: 1, name: "Ann", deleted_at: null },
+        { id: 1, name: "Ann", deleted_at: new Date() },
+      ]);
+
+      expect(await audited.delete({ id: 1 } as TestDocument)).toBe(1);
+
+      const statements = statementsOf(client);
+      expect(statements[2]).toBe(
+        'UPDATE "test_table" SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1 AND deleted_at IS NULL RETURNING id'
+      );
+      expect(statements.some((sql) => sql.startsWith("DELETE"))).toBe(false);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "audit_history"'),
+        expect.arrayContaining(["delete", { deleted_at: null }])
+      );
+    });
+
+    it("should bump the version when deleting and restoring", async () => {
+      audited = new PostgresPersistence<TestDocument>("test_table", undefined, {
+        audit: {},
+        versioned: true,
+      });
+      const client = useAuditClient([
+        { id: 1, name: "Ann", deleted_at: null },
+        { id: 1, name: "Ann", deleted_at: new Date() },
+        { id: 1, name: "Ann", deleted_at: new Date() },
+        { id: 1, name: "Ann", deleted_at: null },
+      ]);
+
+      await audited.delete({ id: 1 } as TestDocument);
+      await audited.restore(1);
+
+      const updates = statementsOf(client).filter((sql) =>
+        sql.startsWith('UPDATE "test_table"')
+      );
+      expect(updates).toEqual([
+        expect.stringContaining(
+          "SET deleted_at = NOW(), updated_at = NOW(), version = version + 1"
+        ),
+        expect.stringContaining(
+          "SET deleted_at = NULL, updated_at = NOW(), version = version + 1"
+        ),
+      ]);
+    });
+
+    it("should close the audit history's pool with its own", async () => {
+      const historyPool = (audited as any).auditLog.pool;
+
+      await audited.close();
+
+      expect((audited as any).pool.end).toHaveBeenCalled();
+      expect(historyPool.end).toHaveBeenCalled();
+    });
+
+    it("should hide deleted rows unless the filter asks for them", async () => {
+      const client = useAuditClient([]);
+
+      await audited.findMany({ filter: { name: "Ann" } });
+      await audited.countMany({ deleted_at: { ne: null } } as any);
+
+      const statements = statementsOf(client);
+      expect(statements[0]).toContain(
+        'WHERE "name" = $1 AND deleted_at IS NULL'
+      );
+      expect(statements[1]).toMatch(/WHERE "deleted_at" IS NOT NULL$/);
+    });
+
+    it("should only restore with auditing enabled", async () => {
+      await expect(persistence.restore(1)).rejects.toThrow(
+        "Auditing is not enabled for test_table"
+      );
+    });
+  });
+
+  describe("bulk operations", () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      client = {
+        query: mockQuery({ rows: [{ id: 1 }, { id: 2 }] }),
+        release: jest.fn(),
+      };
+      (persistence as any).pool.connect = jest.fn().mockResolvedValue(client);
+    });
+
+    const insertsOf = () =>
+      client.query.mock.calls.filter(([sql]) => sql.includes("INSERT INTO"));
+
+    it("should create records with one multi-row INSERT", async () => {
+      const results = await persistence.createMany([
+        { name: "Ann", email: "ann@example.com" },
+        { name: "Bob", colour: "red" } as unknown as TestDocument,
+        { email: "bob@example.com", name: "Bob" },
+      ]);
+
+      const inserts = insertsOf();
+      expect(inserts).toHaveLength(1);
+      expect(inserts[0]?.[0]).toContain(
+        'INSERT INTO "test_table" ("name", "email")'
+      );
+      expect(inserts[0]?.[0]).toContain("VALUES ($1, $2), ($3, $4)");
+      expect(inserts[0]?.[1]).toEqual([
+        "Ann",
+        "ann@example.com",
+        "Bob",
+        "bob@example.com",
+      ]);
+      expect(results).toEqual([
+        { id: 1 },
+        { id: null, error: expect.any(InvalidIdentifierError) },
+        { id: 2 },
+      ]);
+      expect(client.query.mock.calls[0]?.[0]).toBe("BEGIN");
+    });
+
+    it("should upsert a repeated ID in a later statement", async () => {
+      await persistence.upsertMany([
+        { id: 1, name: "Ann", email: "ann@example.com" },
+        { id: 2, name: "Bob", email: "bob@example.com" },
+        { id: 1, name: "Annie", email: "ann@example.com" },
+      ]);
+
+      const inserts = insertsOf();
+      expect(inserts).toHaveLength(2);
+      expect(inserts[0]?.[0]).toContain(
+        'ON CONFLICT (id) DO UPDATE SET "name" = EXCLUDED."name", "email" = EXCLUDED."email"'
+      );
+      expect(inserts[1]?.[1]).toEqual([1, "Annie", "ann@example.com"]);
+    });
+
+    it("should delete records with one statement", async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ id: 2 }] });
+
+      const results = await persistence.deleteMany([
+        { id: 1 },
+        { id: 2 },
+        {},
+      ] as TestDocument[]);
+
+      expect(client.query).toHaveBeenCalledWith(
+        'DELETE FROM "test_table" WHERE id = ANY($1) RETURNING id',
+        [[1, 2]]
+      );
+      expect(results).toEqual([
+        { id: null },
+        { id: 2 },
+        { id: null, error: expect.any(InvalidItemError) },
+      ]);
+    });
+  });
+
+  describe("versioning", () => {
+    let versioned: PostgresPersistence<TestDocument>;
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      versioned = new PostgresPersistence<TestDocument>(
+        "test_table",
+        undefined,
+        { versioned: true }
+      );
+      client = {
+        query: jest.fn(async (sql: string, _params?: unknown[]) => {
+          if (sql.includes("information_schema")) {
+            return {
+              rows: ["id", "name", "email", "version"].map((column_name) => ({
+                column_name,
+              })),
+            };
+          }
+          // The stored row is already at version 3
+          return sql.includes("SELECT version")
+            ? { rows: [{ version: 3 }] }
+            : { rows: [], rowCount: 0 };
+        }),
+        release: jest.fn(),
+      };
+      (versioned as any).pool.connect = jest.fn().mockResolvedValue(client);
+    });
+
+    it("should insert new records at version 1", async () => {
+      client.query.mockResolvedValueOnce({
+        rows: [{ column_name: "name" }, { column_name: "version" }],
+      });
+      client.query.mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      expect(await versioned.create({ name: "Ann" } as TestDocument)).toBe(1);
+      expect(client.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO "test_table" ("name", "version")'),
+        ["Ann", 1]
+      );
+    });
+
+    it("should only update the expected version and bump it", async () => {
+      await expect(
+        versioned.update({ id: 1, name: "Ann", version: 2 } as TestDocument)
+      ).rejects.toThrow(VersionConflictError);
+
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /SET "name" = \$1, version = version \+ 1\s+WHERE id = \$2 AND version = \$3/
+        ),
+        ["Ann", 1, 2]
+      );
+    });
+
+    it("should report an upsert that missed its version as a conflict", async () => {
+      await expect(
+        versioned.upsert({ id: 1, name: "Ann", version: 2 } as TestDocument)
+      ).rejects.toThrow("test_table record 1 was changed by someone else");
+
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE "test_table".version = $3'),
+        ["Ann", 1, 2]
+      );
+    });
+
+    it("should treat a missing record as missing, not as a conflict", async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes("information_schema")
+          ? { rows: [{ column_name: "name" }] }
+          : { rows: [] }
+      );
+
+      expect(
+        await versioned.update({
+          id: 9,
+          name: "Ann",
+          version: 2,
+        } as TestDocument)
+      ).toBeNull();
+    });
+  });
+
+  describe("outbox", () => {
+    let published: PostgresPersistence<TestDocument>;
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    /**
+     * Points the persistence at a client whose row lookups return `rows`
+     * in turn, answering column lookups for both the table and the outbox
+     */
+    const useOutboxClient = (rows: Record<string, any>[]) => {
+      client = {
+        query: jest.fn(async (sql: string, _params?: unknown[]) => {
+          if (sql.includes("information_schema")) {
+            return {
+              rows: [
+                ...["id", "name", "email", "table_name", "record_id"],
+                ...["action", "record", "created_at", "published_at"],
+              ].map((column_name) => ({ column_name })),
+            };
+          }
+          if (sql.includes("FOR UPDATE")) {
+            return { rows: rows.splice(0, 1) };
+          }
+          return { rows: [{ id: 1 }], rowCount: 1 };
+        }),
+        release: jest.fn(),
+      };
+      (published as any).pool.connect = jest.fn().mockResolvedValue(client);
+    };
+    const statementsOf = () =>
+      client.query.mock.calls
+        .map(([sql]) => sql.replace(/\s+/g, " ").trim())
+        .filter((sql) => !sql.includes("information_schema"));
+
+    beforeEach(() => {
+      published = new PostgresPersistence<TestDocument>(
+        "test_table",
+        undefined,
+        { outbox: {} }
+      );
+    });
+
+    it("should queue an event for a create in the same transaction", async () => {
+      useOutboxClient([{ id: 1, name: "Ann", email: "ann@example.com" }]);
+
+      expect(
+        await published.create({ name: "Ann", email: "ann@example.com" })
+      ).toBe(1);
+
+      const statements = statementsOf();
+      expect(statements[0]).toBe("BEGIN");
+      expect(statements[1]).toMatch(/^INSERT INTO "test_table"/);
+      expect(statements[2]).toContain("FOR UPDATE");
+      expect(statements[3]).toMatch(/^INSERT INTO "outbox"/);
+      expect(statements[4]).toBe("COMMIT");
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "outbox"'),
+        [
+          "test_table",
+          "1",
+          "create",
+          { id: 1, name: "Ann", email: "ann@example.com" },
+          expect.any(Date),
+        ]
+      );
+    });
+
+    it("should queue a delete with the record as it was", async () => {
+      useOutboxClient([{ id: 1, name: "Ann", email: "ann@example.com" }]);
+
+      await published.delete({ id: 1 } as TestDocument);
+
+      expect(statementsOf()).toContain(
+        'DELETE FROM "test_table" WHERE id = $1 RETURNING id'
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "outbox"'),
+        expect.arrayContaining([
+          "delete",
+          { id: 1, name: "Ann", email: "ann@example.com" },
+        ])
+      );
+    });
+
+    it("should write bulk items one by one so that each gets its event", async () => {
+      useOutboxClient([]);
+
+      await published.createMany([
+        { name: "Ann", email: "ann@example.com" },
+        { name: "Bob", email: "bob@example.com" },
+      ]);
+
+      expect(
+        statementsOf().filter((sql) =>
+          sql.startsWith('INSERT INTO "test_table"')
+        )
+      ).toHaveLength(2);
+    });
+  });
+
   describe("healthCheck", () => {
     it("should return true when database is healthy", async () => {
       const mockClient = {
-        query: jest.fn().mockResolvedValue({ rows: [{ "?column?": 1 }] }),
+        query: mockQuery({ rows: [{ "?column?": 1 }] }),
         release: jest.fn(),
       };
 
@@ -266,5 +936,22 @@ describe("PostgresPersistence", () => {
       const result = await persistence.healthCheck();
       expect(result).toBe(false);
     });
+
+    it("should keep a transaction's client checked out", async () => {
+      const mockClient = {
+        query: mockQuery({ rows: [{ "?column?": 1 }] }),
+        release: jest.fn(),
+      };
+      (persistence as any).pool.connect = jest
+        .fn()
+        .mockResolvedValue(mockClient);
+
+      await persistence.withTransaction(async (tx) => {
+        expect(await tx.healthCheck()).toBe(true);
+        expect(mockClient.release).not.toHaveBeenCalled();
+      });
+
+      expect(mockClient.release).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -0,0 +1,138 @@
+/**
+ * Jest tests for entity schemas
+ */
+
+import { InMemoryPersistence } from "../memory/memory";
+import {
+  EntitySchema,
+  SchemaValidationError,
+  toPostgresDDL,
+  validateWrite,
+} from "../schema";
+
+interface TestDocument extends Record<string, any> {
+  id?: number;
+  name: string;
+  quantity?: number;
+  unit?: string;
+  tags?: string[] | null;
+  expiry_date?: string | null;
+  created_at?: Date;
+}
+
+const schema: EntitySchema<TestDocument> = {
+  name: { type: "string", required: true, maxLength: 10 },
+  quantity: { type: "number", required: true, default: 0 },
+  unit: { type: "string", required: true, default: "each", maxLength: 50 },
+  tags: { type: "json" },
+  expiry_date: { type: "date" },
+  created_at: { type: "timestamp", required: true, default: "now" },
+};
+
+describe("validateWrite", () => {
+  it("should apply defaults when creating", () => {
+    const record = validateWrite(schema, "items", { name: "Milk" }, "create");
+
+    expect(record).toEqual({
+      name: "Milk",
+      quantity: 0,
+      unit: "each",
+      created_at: expect.any(Date),
+    });
+  });
+
+  it("should report every invalid field at once", () => {
+    let error: unknown;
+    try {
+      validateWrite(
+        schema,
+        "items",
+        {
+          name: "Oat milk, barista edition",
+          quantity: "2",
+          expiry_date: "soon",
+          colour: "white",
+        } as unknown as TestDocument,
+        "create"
+      );
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect((error as SchemaValidationError).errors).toEqual([
+      { field: "colour", message: "is not in the schema" },
+      { field: "name", message: "must be at most 10 characters" },
+      { field: "quantity", message: "must be a number" },
+      { field: "expiry_date", message: "must be a date" },
+    ]);
+    expect((error as Error).message).toContain(
+      "Invalid items: colour is not in the schema;"
+    );
+  });
+
+  it("should allow partial updates but not clearing required fields", () => {
+    expect(
+      validateWrite(schema, "items", { id: 1, quantity: 3 } as any, "update")
+    ).toEqual({ id: 1, quantity: 3 });
+
+    expect(() =>
+      validateWrite(schema, "items", { id: 1, name: null } as any, "update")
+    ).toThrow("Invalid items: name is required");
+  });
+
+  it("should return the data unchanged without a schema", () => {
+    const data = { name: "Milk", anything: true };
+
+    expect(validateWrite(undefined, "items", data, "create")).toBe(data);
+  });
+});
+
+describe("toPostgresDDL", () => {
+  it("should generate a CREATE TABLE statement", () => {
+    expect(toPostgresDDL("items", schema)).toBe(
+      [
+        'CREATE TABLE IF NOT EXISTS "items" (',
+        '  "id" SERIAL PRIMARY KEY,',
+        '  "name" VARCHAR(10) NOT NULL,',
+        '  "quantity" DOUBLE PRECISION NOT NULL DEFAULT 0,',
+        "  \"unit\" VARCHAR(50) NOT NULL DEFAULT 'each',",
+        '  "tags" JSONB,',
+        '  "expiry_date" DATE,',
+        '  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()',
+        ");",
+      ].join("\n")
+    );
+  });
+
+  it("should reject field names that are not plain identifiers", () => {
+    expect(() =>
+      toPostgresDDL("items", { "name; DROP TABLE items": { type: "string" } })
+    ).toThrow("Invalid column name");
+  });
+});
+
+describe("persistence with a schema", () => {
+  let persistence: InMemoryPersistence<TestDocument>;
+
+  beforeEach(async () => {
+    persistence = new InMemoryPersistence<TestDocument>(
+      "schema_table",
+      undefined,
+      { schema }
+    );
+    await persistence.clear();
+  });
+
+  it("should store defaults and reject invalid writes", async () => {
+    const id = await persistence.create({ name: "Milk" });
+
+    expect((await persistence.get(id))?.unit).toBe("each");
+    await expect(
+      persistence.update({ id, quantity: -Infinity } as TestDocument)
+    ).rejects.toThrow(SchemaValidationError);
+    await expect(persistence.upsert({ id: 9 } as TestDocument)).rejects.toThrow(
+      "Invalid schema_table: name is required"
+    );
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Jest tests for SQLite persistence
+ */
+
+import { InvalidIdentifierError } from "../identifiers";
+import { SqlitePersistence } from "../structured/sqlite";
+import { VersionConflictError } from "../versioning";
+
+const mockStatement = {
+  reader: false,
+  get: jest.fn(),
+  all: jest.fn(),
+  run: jest.fn(),
+};
+/** Answers column lookups with the test table's columns */
+const mockColumns = {
+  reader: true,
+  get: jest.fn(),
+  all: jest.fn(() =>
+    ["id", "name", "active", "version", "created_at"].map((name) => ({
+      name,
+    }))
+  ),
+  run: jest.fn(),
+};
+const mockDatabase = {
+  prepare: jest.fn((sql: string) =>
+    sql.includes("pragma_table_info") ? mockColumns : mockStatement
+  ),
+  pragma: jest.fn(),
+  exec: jest.fn(),
+  close: jest.fn(),
+};
+
+// Mock the better-sqlite3 module
+jest.mock("better-sqlite3", () => jest.fn(() => mockDatabase));
+
+// Mock the utils module
+jest.mock("../../utils", () => ({
+  fetchEnvVar: jest.fn((_key: string, defaultValue: string) => defaultValue),
+}));
+
+interface TestDocument extends Record<string, any> {
+  id?: number;
+  name: string;
+  active?: boolean;
+  version?: number;
+  created_at?: Date;
+}
+
+describe("SqlitePersistence", () => {
+  let persistence: SqlitePersistence<TestDocument>;
+
+  beforeEach(() => {
+    mockStatement.reader = false;
+    mockStatement.get.mockReturnValue({ id: 1 });
+    mockStatement.all.mockReturnValue([]);
+    persistence = new SqlitePersistence<TestDocument>("test_table", {
+      filename: "test.db",
+    });
+  });
+
+  afterEach(async () => {
+    await persistence.close();
+    jest.clearAllMocks();
+  });
+
+  describe("Constructor", () => {
+    it("should open the file once for every table in it", async () => {
+      const Database = jest.requireMock("better-sqlite3");
+      const other = new SqlitePersistence<TestDocument>("other_table", {
+        filename: "test.db",
+      });
+
+      expect(Database).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.pragma).toHaveBeenCalledWith("foreign_keys = ON");
+
+      await other.close();
+      expect(mockDatabase.close).not.toHaveBeenCalled();
+    });
+
+    it("should reject a table name that is not a plain identifier", () => {
+      expect(
+        () =>
+          new SqlitePersistence<TestDocument>("test_table; DROP TABLE users", {
+            filename: "test.db",
+          })
+      ).toThrow("Invalid table name: test_table; DROP TABLE users");
+    });
+  });
+
+  describe("create", () => {
+    it("should insert a record and convert dates and booleans", async () => {
+      const createdAt = new Date("2026-01-01T00:00:00Z");
+
+      const result = await persistence.create({
+        name: "Ann",
+        active: true,
+        created_at: createdAt,
+      });
+
+      expect(result).toBe(1);
+      expect(mockDatabase.prepare).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'INSERT INTO "test_table" ("name", "active", "created_at")'
+        )
+      );
+      expect(mockStatement.get).toHaveBeenCalledWith(
+        "Ann",
+        1,
+        "2026-01-01T00:00:00.000Z"
+      );
+    });
+
+    it("should reject written fields that are not columns of the table", async () => {
+      const malicious = {
+        name: "Ann",
+        "name) VALUES ('x'); DROP TABLE users; --": "x",
+      };
+
+      await expect(persistence.create(malicious)).rejects.toThrow(
+        InvalidIdentifierError
+      );
+      await expect(persistence.update({ id: 1, ...malicious })).rejects.toThrow(
+        InvalidIdentifierError
+      );
+      await expect(persistence.upsert({ id: 1, ...malicious })).rejects.toThrow(
+        "Unknown column name) VALUES"
+      );
+      expect(mockDatabase.prepare).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.prepare).toHaveBeenCalledWith(
+        expect.stringContaining("pragma_table_info")
+      );
+    });
+  });
+
+  describe("get", () => {
+    it("should get a record by ID", async () => {
+      mockStatement.get.mockReturnValue({ id: 1, name: "Ann" });
+
+      expect(await persistence.get(1)).toEqual({ id: 1, name: "Ann" });
+    });
+
+    it("should return null for a missing or empty ID", async () => {
+      mockStatement.get.mockReturnValue(undefined);
+
+      expect(await persistence.get(1)).toBeNull();
+      expect(await persistence.get(null)).toBeNull();
+    });
+  });
+
+  describe("update", () => {
+    it("should update the given columns", async () => {
+      await persistence.update({ id: 1, name: "Annie" });
+
+      expect(mockDatabase.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('SET "name" = ?')
+      );
+      expect(mockStatement.get).toHaveBeenCalledWith("Annie", 1);
+    });
+
+    it("should throw error when ID is missing", async () => {
+      await expect(persistence.update({ name: "Ann" })).rejects.toThrow(
+        "ID is required for update operation"
+      );
+    });
+  });
+
+  describe("createMany", () => {
+    it("should insert every item in one transaction", async () => {
+      mockStatement.get.mockReturnValueOnce({ id: 1 }).mockReturnValueOnce({
+        id: 2,
+      });
+
+      const results = await persistence.createMany([
+        { name: "Ann" },
+        { name: "Bob" },
+      ]);
+
+      expect(results).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockDatabase.exec.mock.calls).toEqual([
+        ["BEGIN IMMEDIATE"],
+        ["COMMIT"],
+      ]);
+    });
+
+    it("should report an unknown column as the item's error", async () => {
+      const results = await persistence.createMany([
+        { name: "Ann" },
+        { name: "Bob", is_admin: true },
+      ]);
+
+      expect(results).toEqual([
+        { id: 1 },
+        { id: null, error: expect.any(InvalidIdentifierError) },
+      ]);
+      expect(mockDatabase.exec).toHaveBeenLastCalledWith("COMMIT");
+    });
+  });
+
+  describe("versioning", () => {
+    it("should only update the expected version and bump it", async () => {
+      const versioned = new SqlitePersistence<TestDocument>(
+        "test_table",
+        { filename: "test.db" },
+        { versioned: true }
+      );
+      mockStatement.get
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce({ version: 3 });
+
+      await expect(
+        versioned.update({ id: 1, name: "Annie", version: 2 })
+      ).rejects.toThrow(VersionConflictError);
+
+      expect(mockDatabase.prepare).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /SET "name" = \?, version = version \+ 1\s+WHERE id = \? AND version = \?/
+        )
+      );
+      expect(mockStatement.get).toHaveBeenCalledWith("Annie", 1, 2);
+      await versioned.close();
+    });
+  });
+
+  describe("findMany", () => {
+    it("should bind parameters in the order they appear", async () => {
+      mockStatement.reader = true;
+      mockStatement.all.mockReturnValue([
+        { id: 1, name: "Ann" },
+        { id: 2, name: "Bob" },
+      ]);
+
+      const first = await persistence.findMany({
+        filter: { active: true, name: { in: ["Ann", "Bob", null] } },
+        sort: { name: "asc" },
+        limit: 1,
+      });
+      expect(mockStatement.all).toHaveBeenLastCalledWith(1, "Ann", "Bob", 2);
+
+      await persistence.findMany({
+        sort: { name: "asc" },
+        limit: 1,
+        cursor: first.next_cursor,
+      });
+
+      const sql = mockDatabase.prepare.mock.calls.at(
+        -1
+      )?.[0] as unknown as string;
+      expect(sql).toContain(
+        'WHERE (("name" > ?) OR ("name" = ? AND "id" > ?))'
+      );
+      expect(mockStatement.all).toHaveBeenLastCalledWith("Ann", "Ann", 1, 2);
+    });
+
+    it("should count matching records", async () => {
+      mockStatement.reader = true;
+      mockStatement.all.mockReturnValue([{ count: 3 }]);
+
+      expect(await persistence.countMany({ name: { ne: "Ann" } })).toBe(3);
+      expect(mockDatabase.prepare).toHaveBeenLastCalledWith(
+        expect.stringContaining('WHERE "name" IS NOT ?')
+      );
+    });
+  });
+
+  describe("identifiers", () => {
+    const lookups = () =>
+      mockDatabase.prepare.mock.calls.filter(([sql]) =>
+        sql.includes("pragma_table_info")
+      );
+
+    it("should reject filter and sort fields that are not columns", async () => {
+      await expect(
+        persistence.findMany({ filter: { "1; DROP TABLE users": 1 } })
+      ).rejects.toThrow(InvalidIdentifierError);
+      await expect(
+        persistence.findMany({ sort: { email: "asc" } })
+      ).rejects.toThrow("Unknown column email in table test_table");
+      await expect(persistence.countMany({ email: "a" })).rejects.toThrow(
+        InvalidIdentifierError
+      );
+      expect(mockStatement.all).not.toHaveBeenCalled();
+    });
+
+    it("should look the columns up once until the cache is cleared", async () => {
+      await persistence.create({ name: "Ann" });
+      await persistence.withTransaction(async (tx) => {
+        await tx.update({ id: 1, name: "Annie" });
+      });
+      expect(lookups()).toHaveLength(1);
+      expect(mockColumns.all).toHaveBeenCalledWith("test_table");
+
+      persistence.clearColumnCache();
+      await persistence.countMany({ name: "Ann" });
+      expect(lookups()).toHaveLength(2);
+    });
+
+    it("should report a table without columns as missing", async () => {
+      mockColumns.all.mockReturnValueOnce([]);
+
+      await expect(persistence.create({ name: "Ann" })).rejects.toThrow(
+        new InvalidIdentifierError(
+          "Table test_table does not exist",
+          "test_table"
+        )
+      );
+    });
+  });
+
+  describe("withTransaction", () => {
+    it("should commit when the callback resolves", async () => {
+      await persistence.withTransaction(async (tx) => {
+        await tx.create({ name: "Ann" });
+      });
+
+      expect(mockDatabase.exec.mock.calls).toEqual([
+        ["BEGIN IMMEDIATE"],
+        ["COMMIT"],
+      ]);
+    });
+
+    it("should roll back when the callback throws", async () => {
+      await expect(
+        persistence.withTransaction(async () => {
+          throw new Error("Out of stock");
+        })
+      ).rejects.toThrow("Out of stock");
+
+      expect(mockDatabase.exec.mock.calls).toEqual([
+        ["BEGIN IMMEDIATE"],
+        ["ROLLBACK"],
+      ]);
+    });
+
+    it("should hold other handles back until the transaction ends", async () => {
+      const order: string[] = [];
+      let release = () => {};
+      const blocked = new Promise<void>((resolve) => (release = resolve));
+
+      const transaction = persistence.withTransaction(async (tx) => {
+        await tx.create({ name: "Ann" });
+        order.push("transaction write");
+        await blocked;
+        order.push("transaction end");
+      });
+      const outside = persistence.create({ name: "Bob" }).then(() => {
+        order.push("outside write");
+      });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      release();
+      await Promise.all([transaction, outside]);
+
+      expect(order).toEqual([
+        "transaction write",
+        "transaction end",
+        "outside write",
+      ]);
+    });
+  });
+
+  describe("healthCheck", () => {
+    it("should return false when the file cannot be read", async () => {
+      mockDatabase.prepare.mockImplementationOnce(() => {
+        throw new Error("disk I/O error");
+      });
+
+      expect(await persistence.healthCheck()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { EntitySchema } from "./schema";
+
+/** Table or collection audit entries go to unless configured otherwise */
+export const AUDIT_HISTORY_TABLE = "audit_history";
+
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+/**
+ * Opts a table or collection into soft deletes and change history. Records
+ * need a nullable `deleted_at` timestamp.
+ */
+export interface AuditOptions {
+  /** Where audit entries are written; `audit_history` by default */
+  historyTable?: string;
+}
+
+/**
+ * One change to one record. `before` and `after` hold only the fields that
+ * changed, so `before` is null for a create.
+ */
+export interface AuditEntry {
+  id?: number | string;
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  actor: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at?: Date;
+}
+
+/**
+ * The history table's fields. `toPostgresDDL(AUDIT_HISTORY_TABLE,
+ * AUDIT_ENTRY_SCHEMA)` gives its `CREATE TABLE` statement.
+ */
+export const AUDIT_ENTRY_SCHEMA: EntitySchema<AuditEntry> = {
+  table_name: { type: "string", required: true, maxLength: 255 },
+  record_id: { type: "string", required: true, maxLength: 255 },
+  action: { type: "string", required: true, maxLength: 20 },
+  actor: { type: "string", maxLength: 255 },
+  before: { type: "json" },
+  after: { type: "json" },
+  created_at: { type: "timestamp", required: true, default: "now" },
+};
+
+/**
+ * Fields left out of diffs: keys never change, and `updated_at` and
+ * `version` change with everything else
+ */
+const UNAUDITED_FIELDS = new Set(["id", "_id", "updated_at", "version"]);
+
+/**
+ * The audit entry for a change from `before` (null when the record was
+ * created) to `after`, or null when no audited field changed
+ */
+export function auditEntry(
+  tableName: string,
+  recordId: string | number,
+  actor: string | null,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): AuditEntry | null {
+  const changed = [
+    ...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]),
+  ].filter(
+    (field) =>
+      !UNAUDITED_FIELDS.has(field) &&
+      !sameValue(before?.[field], after?.[field])
+  );
+  if (changed.length === 0) {
+    return null;
+  }
+
+  const pick = (record: Record<string, any> | null) =>
+    record &&
+    Object.fromEntries(changed.map((field) => [field, record[field] ?? null]));
+
+  return {
+    table_name: tableName,
+    record_id: String(recordId),
+    action: changeAction(before, after),
+    actor,
+    before: pick(before),
+    after: pick(after),
+  };
+}
+
+/**
+ * What a change from `before` to `after` did. Either is null when the
+ * record did not exist; setting or clearing `deleted_at` counts as a
+ * delete or a restore.
+ */
+export function changeAction(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): AuditAction {
+  if (!before) {
+    return "create";
+  }
+  if (!after || (!before["deleted_at"] && after["deleted_at"])) {
+    return "delete";
+  }
+  if (before["deleted_at"] && !after?.["deleted_at"]) {
+    return "restore";
+  }
+  return "update";
+}
+
+/**
+ * Compares field values as they would be stored: dates by time, everything
+ * else by its JSON form, with missing fields equal to null
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) =>
+    JSON.stringify(value instanceof Date ? value.getTime() : value ?? null);
+  return normalize(a) === normalize(b);
+}
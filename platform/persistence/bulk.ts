@@ -0,0 +1,93 @@
+import { InvalidIdentifierError } from "./identifiers";
+import { BulkResult } from "./Persistence";
+import { SchemaValidationError } from "./schema";
+import { VersionConflictError } from "./versioning";
+
+/**
+ * Thrown for a bulk item that cannot be written as given, such as a delete
+ * without an ID. Only that item fails.
+ */
+export class InvalidItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidItemError";
+  }
+}
+
+/** An item that passed its checks, with its position in the batch */
+export interface BulkItem {
+  index: number;
+  record: Record<string, any>;
+}
+
+/**
+ * Whether an error concerns a single item of a bulk write, and so belongs
+ * in its result. Any other error fails the whole call.
+ */
+export function isItemError(error: unknown): error is Error {
+  return (
+    error instanceof SchemaValidationError ||
+    error instanceof InvalidIdentifierError ||
+    error instanceof VersionConflictError ||
+    error instanceof InvalidItemError
+  );
+}
+
+/**
+ * Runs `check` on every item. Items it rejects get their error as their
+ * result; the others are returned, as the records `check` made of them,
+ * for the caller to write and fill in their results.
+ */
+export async function checkItems<T>(
+  items: T[],
+  check: (item: T) => Record<string, any> | Promise<Record<string, any>>
+): Promise<{ results: BulkResult[]; accepted: BulkItem[] }> {
+  const results: BulkResult[] = [];
+  const accepted: BulkItem[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      accepted.push({ index, record: await check(item) });
+      results.push({ id: null });
+    } catch (error) {
+      if (!isItemError(error)) {
+        throw error;
+      }
+      results.push({ id: null, error });
+    }
+  }
+  return { results, accepted };
+}
+
+/**
+ * Writes items one at a time, for backends and options where each write
+ * needs its own statements
+ */
+export async function writeEach<T>(
+  items: T[],
+  write: (item: T) => Promise<string | number | null | undefined>
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = [];
+  for (const item of items) {
+    try {
+      results.push({ id: (await write(item)) || null });
+    } catch (error) {
+      if (!isItemError(error)) {
+        throw error;
+      }
+      results.push({ id: null, error });
+    }
+  }
+  return results;
+}
+
+/**
+ * The item, provided it has an ID
+ * @throws {InvalidItemError} When it has none
+ */
+export function requireId<T>(item: T, operation: string): T {
+  const { _id, id } = item as Record<string, any>;
+  if (!_id && !id) {
+    throw new InvalidItemError(`ID is required for ${operation} operation`);
+  }
+  return item;
+}
@@ -0,0 +1,336 @@
+import { randomUUID } from "crypto";
+import { KafkaMessage } from "kafkajs";
+import NodeCache from "node-cache";
+import {
+  BulkResult,
+  Filter,
+  FindPage,
+  FindQuery,
+  Persistence,
+} from "../Persistence";
+import { KafkaPublisher, KafkaSubscriber } from "../../messaging/kafka";
+
+export interface CacheOptions {
+  /** Seconds a record stays cached; 60 by default */
+  ttl?: number;
+  /** Seconds between sweeps for expired records; 120 by default */
+  checkPeriod?: number;
+}
+
+/**
+ * Where instances of a cached table tell each other about writes, so that
+ * every instance drops the records another one changed
+ */
+export interface CacheInvalidationConfig {
+  topic: string;
+  /** Kafka client ID of this service */
+  clientId: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Records currently cached */
+  keys: number;
+}
+
+/** IDs an open transaction wrote, per cache, invalidated once it commits */
+type PendingInvalidations = Map<CachedPersistence<any>, Set<string>>;
+
+/** Published on the invalidation topic after every write */
+interface Invalidation {
+  table: string;
+  ids: string[];
+}
+
+/**
+ * A read-through cache in front of any persistence. `get` results are kept
+ * for a TTL; every write through this persistence drops the records it
+ * touched, and with connectInvalidation() so does every write through
+ * another instance. Writes made around the cache, such as raw queries, are
+ * only picked up when the TTL runs out. Only `get` is cached: queries
+ * always reach the database.
+ */
+export class CachedPersistence<T extends Record<string, any>>
+  implements Persistence<T>
+{
+  private name: string;
+  private persistence: Persistence<T>;
+  private cache: NodeCache;
+  /**
+   * Bumped by every invalidation, so that a `get` racing a write does not
+   * cache what it read before the write. Shared with transaction handles.
+   */
+  private generation: { count: number };
+  private publisher: KafkaPublisher | null = null;
+  private subscriber: KafkaSubscriber | null = null;
+  /** Set on handles bound to an open transaction */
+  private pending: PendingInvalidations | null = null;
+
+  /**
+   * @param name The table or collection name, which tells invalidations
+   * for different tables apart
+   * @param persistence The persistence to cache
+   */
+  constructor(
+    name: string,
+    persistence: Persistence<T>,
+    options: CacheOptions = {}
+  ) {
+    this.name = name;
+    this.persistence = persistence;
+    this.generation = { count: 0 };
+    this.cache = new NodeCache({
+      stdTTL: options.ttl ?? 60,
+      checkperiod: options.checkPeriod ?? 120,
+    });
+  }
+
+  /**
+   * Publish this instance's invalidations to a Kafka topic and apply those
+   * of every other instance. Each instance reads the topic in a consumer
+   * group of its own, starting from when it connects: older invalidations
+   * are for records its empty cache does not hold.
+   */
+  async connectInvalidation(config: CacheInvalidationConfig): Promise<void> {
+    this.publisher = await KafkaPublisher.create({
+      topic: config.topic,
+      client: config.clientId,
+    });
+    this.subscriber = await KafkaSubscriber.create({
+      clientId: config.clientId,
+      groupId: `${config.clientId}-cache-${randomUUID()}`,
+      topics: [config.topic],
+      fromBeginning: false,
+      callback: (_topic: string, _partition: number, message: KafkaMessage) =>
+        this.receive(message),
+    });
+  }
+
+  async create(data: T): Promise<string | number | null | undefined> {
+    return await this.written([data], () => this.persistence.create(data));
+  }
+
+  async update(data: T): Promise<string | number | null | undefined> {
+    return await this.written([data], () => this.persistence.update(data));
+  }
+
+  async upsert(data: T): Promise<string | number | null | undefined> {
+    return await this.written([data], () => this.persistence.upsert(data));
+  }
+
+  async delete(data: T): Promise<string | number | null | undefined> {
+    return await this.written([data], () => this.persistence.delete(data));
+  }
+
+  async createMany(items: T[]): Promise<BulkResult[]> {
+    return await this.written(items, () => this.persistence.createMany(items));
+  }
+
+  async upsertMany(items: T[]): Promise<BulkResult[]> {
+    return await this.written(items, () => this.persistence.upsertMany(items));
+  }
+
+  async deleteMany(items: T[]): Promise<BulkResult[]> {
+    return await this.written(items, () => this.persistence.deleteMany(items));
+  }
+
+  /**
+   * Get a record by ID, from the cache when it holds it. Transaction
+   * handles always read the database, and never cache what they read.
+   */
+  async get(id: number | string | null | undefined): Promise<T | null> {
+    if (!id || this.pending) {
+      return await this.persistence.get(id);
+    }
+
+    const key = String(id);
+    const cached = this.cache.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const generation = this.generation.count;
+    const record = await this.persistence.get(id);
+    if (record && generation === this.generation.count) {
+      this.cache.set(key, record);
+    }
+    return record;
+  }
+
+  async findMany(query?: FindQuery<T>): Promise<FindPage<T>> {
+    return await this.persistence.findMany(query);
+  }
+
+  async countMany(filter?: Filter<T>): Promise<number> {
+    return await this.persistence.countMany(filter);
+  }
+
+  /**
+   * Run a callback in a transaction of the cached persistence. Records it
+   * writes are invalidated once the transaction commits, so that no other
+   * reader caches them in between.
+   */
+  async withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R> {
+    if (this.pending) {
+      return await fn(this);
+    }
+
+    const pending: PendingInvalidations = new Map();
+    const result = await this.persistence.withTransaction((inner) =>
+      fn(this.bound(inner, pending))
+    );
+    for (const [cached, ids] of pending) {
+      await cached.invalidate([...ids]);
+    }
+    return result;
+  }
+
+  /**
+   * Bind another persistence to this handle's transaction. A cached one
+   * stays cached, and its writes are invalidated when the transaction
+   * commits.
+   */
+  enlist<U extends Record<string, any>>(other: Persistence<U>): Persistence<U> {
+    if (!this.pending) {
+      throw new Error("enlist() can only be called on a transaction handle");
+    }
+    if (!(other instanceof CachedPersistence)) {
+      return this.persistence.enlist(other);
+    }
+
+    const cached = other as CachedPersistence<U>;
+    return cached.bound(
+      this.persistence.enlist(cached.persistence),
+      this.pending
+    );
+  }
+
+  /**
+   * Hit and miss counts since the cache was created or the stats were
+   * reset, and the number of records cached
+   */
+  stats(): CacheStats {
+    const { hits, misses, keys } = this.cache.getStats();
+    return { hits, misses, keys };
+  }
+
+  resetStats(): void {
+    this.cache.flushStats();
+  }
+
+  /**
+   * Drop every cached record of this instance, and reset its stats
+   */
+  clear(): void {
+    this.generation.count++;
+    this.cache.flushAll();
+  }
+
+  /**
+   * Stop the expiry sweeps and disconnect from Kafka. The cached
+   * persistence is left open.
+   */
+  async close(): Promise<void> {
+    this.cache.close();
+    await this.subscriber?.shutdown();
+    await this.publisher?.shutdown();
+    this.subscriber = null;
+    this.publisher = null;
+  }
+
+  /**
+   * Run a write and invalidate the records it names, or on a transaction
+   * handle remember them for the commit. Records are invalidated even when
+   * the write fails, since the failure may mean they changed.
+   */
+  private async written<R>(items: T[], write: () => Promise<R>): Promise<R> {
+    let result: R | undefined;
+    try {
+      result = await write();
+      return result;
+    } finally {
+      const ids = [
+        ...new Set([...items.map(idOf), ...writtenIds(result)]),
+      ].filter((id): id is string => id !== null);
+      if (this.pending) {
+        const pending = this.pending.get(this) ?? new Set<string>();
+        ids.forEach((id) => pending.add(id));
+        this.pending.set(this, pending);
+      } else {
+        await this.invalidate(ids);
+      }
+    }
+  }
+
+  /**
+   * Drop records from this instance's cache and tell the other instances
+   * to drop them. A failed publish is logged rather than failing the write
+   * that caused it; the other instances catch up when their TTL runs out.
+   */
+  private async invalidate(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    this.evict(ids);
+    const invalidation: Invalidation = { table: this.name, ids };
+    try {
+      await this.publisher?.publish("invalidate", invalidation);
+    } catch (error) {
+      console.error("Error publishing cache invalidation:", error);
+    }
+  }
+
+  private evict(ids: string[]): void {
+    this.generation.count++;
+    this.cache.del(ids);
+  }
+
+  /**
+   * Apply an invalidation published by any instance, this one included
+   */
+  private receive(message: KafkaMessage): void {
+    try {
+      const invalidation = JSON.parse(
+        message.value?.toString() ?? "null"
+      ) as Invalidation | null;
+      if (invalidation?.table === this.name) {
+        this.evict(invalidation.ids);
+      }
+    } catch (error) {
+      console.error("Error reading cache invalidation:", error);
+    }
+  }
+
+  /**
+   * A copy of this persistence running on the transaction handle `inner`
+   */
+  private bound(inner: Persistence<T>, pending: PendingInvalidations): this {
+    const tx = Object.create(this) as this;
+    tx.persistence = inner;
+    tx.pending = pending;
+    return tx;
+  }
+}
+
+/**
+ * The ID a write names, as a cache key
+ */
+function idOf(data: unknown): string | null {
+  const { _id, id } = (data ?? {}) as Record<string, any>;
+  const key = _id ?? id;
+  return key === undefined || key === null ? null : String(key);
+}
+
+/**
+ * The IDs a write returned, which for a create are not known beforehand
+ */
+function writtenIds(result: unknown): (string | null)[] {
+  if (Array.isArray(result)) {
+    return result.map(({ id }: BulkResult) =>
+      id === null ? null : String(id)
+    );
+  }
+  return result === null || result === undefined ? [] : [String(result)];
+}
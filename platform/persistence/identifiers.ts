@@ -0,0 +1,69 @@
+/** Letters, digits and underscores, not starting with a digit */
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * PostgreSQL silently truncates longer names, which could make two
+ * different names refer to the same column.
+ */
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Thrown when a table or column name is malformed or does not exist.
+ * Identifiers are interpolated into SQL, so this is raised before any
+ * statement using them is sent.
+ */
+export class InvalidIdentifierError extends Error {
+  readonly identifier: string;
+
+  constructor(message: string, identifier: string) {
+    super(message);
+    this.name = "InvalidIdentifierError";
+    this.identifier = identifier;
+  }
+}
+
+/**
+ * A column name quoted for SQL. Only plain identifiers are accepted, so the
+ * quoted name never needs escaping.
+ * @throws {InvalidIdentifierError} When the name is not a plain identifier
+ */
+export function quoteIdentifier(
+  name: string,
+  kind: "column" | "table" | "schema" = "column"
+): string {
+  if (!IDENTIFIER.test(name) || name.length > MAX_IDENTIFIER_LENGTH) {
+    throw new InvalidIdentifierError(`Invalid ${kind} name: ${name}`, name);
+  }
+  return `"${name}"`;
+}
+
+/**
+ * The schema, if any, and table of a possibly schema-qualified table name
+ * such as `inventory.items`.
+ * @throws {InvalidIdentifierError} When either part is not a plain identifier
+ */
+export function splitTableName(name: string): [string | null, string] {
+  const parts = name.split(".");
+  if (parts.length > 2) {
+    throw new InvalidIdentifierError(`Invalid table name: ${name}`, name);
+  }
+
+  const table = parts.pop() ?? "";
+  const schema = parts.pop() ?? null;
+  if (schema !== null) {
+    quoteIdentifier(schema, "schema");
+  }
+  quoteIdentifier(table, "table");
+  return [schema, table];
+}
+
+/**
+ * A possibly schema-qualified table name quoted for SQL
+ * @throws {InvalidIdentifierError} When either part is not a plain identifier
+ */
+export function quoteTableName(name: string): string {
+  const [schema, table] = splitTableName(name);
+  return schema === null
+    ? quoteIdentifier(table, "table")
+    : `${quoteIdentifier(schema, "schema")}.${quoteIdentifier(table, "table")}`;
+}
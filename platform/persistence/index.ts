@@ -1,29 +1,105 @@
 import { PostgresPersistence, PostgresConfig } from "./structured/postgres";
+import { SqlitePersistence, SqliteConfig } from "./structured/sqlite";
 import { MongoPersistence, MongoConfig } from "./unstructured/mongo";
+import { InMemoryPersistence, MemoryConfig } from "./memory/memory";
+import { PersistenceOptions } from "./Persistence";
 
 // Re-export all persistence classes and interfaces
-export { Persistence } from "./Persistence";
+export {
+  Persistence,
+  BulkResult,
+  Filter,
+  FieldCondition,
+  FilterValue,
+  FindQuery,
+  FindPage,
+  PersistenceOptions,
+  Sort,
+  SortDirection,
+} from "./Persistence";
 export { PostgresPersistence, PostgresConfig } from "./structured/postgres";
+export { SqlitePersistence, SqliteConfig } from "./structured/sqlite";
 export { MongoPersistence, MongoConfig } from "./unstructured/mongo";
+export { InMemoryPersistence, MemoryConfig } from "./memory/memory";
+export {
+  CachedPersistence,
+  CacheInvalidationConfig,
+  CacheOptions,
+  CacheStats,
+} from "./cache/cached";
+export {
+  AUDIT_ENTRY_SCHEMA,
+  AUDIT_HISTORY_TABLE,
+  AuditAction,
+  AuditEntry,
+  AuditOptions,
+} from "./audit";
+export { InvalidItemError } from "./bulk";
+export {
+  CHANGE_STREAM_CHECKPOINTS,
+  changeKey,
+  changeName,
+  ChangeStreamCheckpoint,
+  ChangeStreamRelay,
+  ChangeStreamRelayOptions,
+  OUTBOX_EVENT_SCHEMA,
+  OUTBOX_TABLE,
+  OutboxEvent,
+  OutboxOptions,
+  OutboxRelay,
+  OutboxRelayOptions,
+  RecordChange,
+} from "./outbox";
+export {
+  InvalidIdentifierError,
+  quoteIdentifier,
+  quoteTableName,
+} from "./identifiers";
+export {
+  EntitySchema,
+  FieldDefinition,
+  FieldError,
+  FieldType,
+  SchemaValidationError,
+  toPostgresDDL,
+  validateWrite,
+  WriteMode,
+} from "./schema";
+export { VERSION_FIELD, VersionConflictError } from "./versioning";
+export {
+  loadMigrations,
+  Migration,
+  MigrationStatus,
+  MIGRATIONS_TABLE,
+  PostgresMigrator,
+} from "./migrations";
 
 // Database type enum
 export enum DatabaseType {
   POSTGRES = "postgres",
   MONGODB = "mongodb",
+  MEMORY = "memory",
+  SQLITE = "sqlite",
 }
 
 // Union type for all persistence implementations
 export type PersistenceImplementation<T extends Record<string, any>> =
   | PostgresPersistence<T>
-  | MongoPersistence<T>;
+  | MongoPersistence<T>
+  | InMemoryPersistence<T>
+  | SqlitePersistence<T>;
 
 // Configuration union type
-export type PersistenceConfig = PostgresConfig | MongoConfig;
+export type PersistenceConfig =
+  | PostgresConfig
+  | MongoConfig
+  | MemoryConfig
+  | SqliteConfig;
 
 // Factory function options
 export interface PersistenceFactoryOptions<
-  _T extends Record<string, any> = Record<string, any>
-> {
+  T extends Record<string, any> = Record<string, any>
+> extends PersistenceOptions<T> {
   databaseType: DatabaseType;
   tableOrCollectionName: string;
   config?: PersistenceConfig;
@@ -43,13 +119,29 @@ export function createPersistence<T extends Record<string, any>>(
     case DatabaseType.POSTGRES:
       return new PostgresPersistence<T>(
         tableOrCollectionName,
-        config as PostgresConfig
+        config as PostgresConfig,
+        options
       );
 
     case DatabaseType.MONGODB:
       return new MongoPersistence<T>(
         tableOrCollectionName,
-        config as MongoConfig
+        config as MongoConfig,
+        options
+      );
+
+    case DatabaseType.MEMORY:
+      return new InMemoryPersistence<T>(
+        tableOrCollectionName,
+        config as MemoryConfig,
+        options
+      );
+
+    case DatabaseType.SQLITE:
+      return new SqlitePersistence<T>(
+        tableOrCollectionName,
+        config as SqliteConfig,
+        options
       );
 
     default:
@@ -65,26 +157,60 @@ export function createPersistence<T extends Record<string, any>>(
  * Helper function to create a PostgreSQL persistence instance
  * @param tableName Name of the database table
  * @param config Optional PostgreSQL configuration
+ * @param options Optional schema, auditing, versioning and outbox settings
  * @returns A new PostgresPersistence instance
  */
 export function createPostgresPersistence<T>(
   tableName: string,
-  config?: PostgresConfig
+  config?: PostgresConfig,
+  options?: PersistenceOptions<T>
 ): PostgresPersistence<T> {
-  return new PostgresPersistence<T>(tableName, config);
+  return new PostgresPersistence<T>(tableName, config, options);
 }
 
 /**
  * Helper function to create a MongoDB persistence instance
  * @param collectionName Name of the MongoDB collection
  * @param config Optional MongoDB configuration
+ * @param options Optional schema, auditing, versioning and outbox settings
  * @returns A new MongoPersistence instance
  */
 export function createMongoPersistence<T extends Record<string, any>>(
   collectionName: string,
-  config?: MongoConfig
+  config?: MongoConfig,
+  options?: PersistenceOptions<T>
 ): MongoPersistence<T> {
-  return new MongoPersistence<T>(collectionName, config);
+  return new MongoPersistence<T>(collectionName, config, options);
+}
+
+/**
+ * Helper function to create an in-memory persistence instance
+ * @param tableName Name of the in-memory table
+ * @param config Optional in-memory configuration
+ * @param options Optional schema and versioning settings
+ * @returns A new InMemoryPersistence instance
+ */
+export function createMemoryPersistence<T extends Record<string, any>>(
+  tableName: string,
+  config?: MemoryConfig,
+  options?: PersistenceOptions<T>
+): InMemoryPersistence<T> {
+  return new InMemoryPersistence<T>(tableName, config, options);
+}
+
+/**
+ * Helper function to create a SQLite persistence instance
+ * @param tableName Name of the database table
+ * @param config Optional SQLite configuration
+ * @param options Optional schema and versioning settings
+ * @returns A new SqlitePersistence instance
+ */
+export function createSqlitePersistence<T>(
+  tableName: string,
+  config?: SqliteConfig,
+  options?: PersistenceOptions<T>
+): SqlitePersistence<T> {
+  return new SqlitePersistence<T>(tableName, config, options);
 }
 
 /**
@@ -109,6 +235,28 @@ export function isMongoPersistence<T extends Record<string, any>>(
   return persistence instanceof MongoPersistence;
 }
 
+/**
+ * Type guard to check if a persistence implementation is in-memory
+ * @param persistence The persistence instance to check
+ * @returns True if the instance is InMemoryPersistence
+ */
+export function isMemoryPersistence<T extends Record<string, any>>(
+  persistence: PersistenceImplementation<T>
+): persistence is InMemoryPersistence<T> {
+  return persistence instanceof InMemoryPersistence;
+}
+
+/**
+ * Type guard to check if a persistence implementation is SQLite
+ * @param persistence The persistence instance to check
+ * @returns True if the instance is SqlitePersistence
+ */
+export function isSqlitePersistence<T extends Record<string, any>>(
+  persistence: PersistenceImplementation<T>
+): persistence is SqlitePersistence<T> {
+  return persistence instanceof SqlitePersistence;
+}
+
 /**
  * Get the database type from a persistence instance
  * @param persistence The persistence instance to check
@@ -121,6 +269,10 @@ export function getDatabaseType<T extends Record<string, any>>(
     return DatabaseType.POSTGRES;
   } else if (isMongoPersistence(persistence)) {
     return DatabaseType.MONGODB;
+  } else if (isMemoryPersistence(persistence)) {
+    return DatabaseType.MEMORY;
+  } else if (isSqlitePersistence(persistence)) {
+    return DatabaseType.SQLITE;
   } else {
     throw new Error("Unknown persistence implementation type");
   }
@@ -0,0 +1,408 @@
+import {
+  BulkResult,
+  Filter,
+  FindPage,
+  FindQuery,
+  Persistence,
+  PersistenceOptions,
+  SortDirection,
+} from "../Persistence";
+import {
+  checkPaging,
+  conditionsOf,
+  decodeCursor,
+  sortFields,
+  toPage,
+} from "../query";
+import { EntitySchema, validateWrite } from "../schema";
+import { requireId, writeEach } from "../bulk";
+import { checkVersion, takeVersion, VERSION_FIELD } from "../versioning";
+
+export interface MemoryConfig {
+  /** Instances with the same database and table name share their records */
+  database?: string;
+}
+
+interface Table {
+  rows: Map<string, Record<string, any>>;
+  nextId: number;
+}
+
+interface Transaction {
+  /** Each enlisted table's rows as they were when it joined */
+  snapshots: Map<Table, Map<string, Record<string, any>>>;
+}
+
+/** Every in-memory database of the process, by name */
+const databases = new Map<string, Map<string, Table>>();
+
+/**
+ * A `Persistence<T>` that keeps records in process memory, for tests and
+ * local development without database containers.
+ *
+ * It follows the PostgreSQL implementation: IDs are generated from a
+ * per-table sequence starting at 1, and missing records come back as null.
+ * Like the MongoDB implementation, it stamps `created_at` and `updated_at`.
+ * Records are copied in and out, so callers never share state with the
+ * store.
+ */
+export class InMemoryPersistence<T extends Record<string, any>>
+  implements Persistence<T>
+{
+  private table: Table;
+  private tableName: string;
+  /** Writes are validated against this schema when given */
+  private schema: EntitySchema<T> | undefined;
+  /** Whether records carry a version checked and bumped by every write */
+  private versioned: boolean;
+  /** Set on handles bound to an open transaction */
+  private transaction: Transaction | null = null;
+
+  constructor(
+    tableName: string,
+    config?: MemoryConfig,
+    options: PersistenceOptions<T> = {}
+  ) {
+    this.tableName = tableName;
+    this.schema = options.schema;
+    this.versioned = options.versioned ?? false;
+    if (options.audit) {
+      throw new Error("Auditing is not supported by in-memory persistence");
+    }
+    if (options.outbox) {
+      throw new Error("The outbox is not supported by in-memory persistence");
+    }
+
+    const databaseName = config?.database ?? "default";
+    const database = databases.get(databaseName) ?? new Map<string, Table>();
+    databases.set(databaseName, database);
+
+    const table = database.get(tableName) ?? { rows: new Map(), nextId: 1 };
+    database.set(tableName, table);
+    this.table = table;
+  }
+
+  /**
+   * Create a new record, generating its ID unless one is given
+   */
+  async create(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    const record = copy(data) as Record<string, any>;
+    if (this.versioned) {
+      record[VERSION_FIELD] = 1;
+    }
+    const id = record["id"] ?? this.table.nextId++;
+    if (this.table.rows.has(String(id))) {
+      throw new Error(
+        `Duplicate key: ${this.tableName} already has a record with ID ${id}`
+      );
+    }
+
+    const now = new Date();
+    this.table.rows.set(String(id), {
+      ...record,
+      id,
+      created_at: record["created_at"] ?? now,
+      updated_at: record["updated_at"] ?? now,
+    });
+    return id;
+  }
+
+  /**
+   * Update the given fields of an existing record
+   */
+  async update(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "update");
+    const { id, ...changes } = copy(data) as Record<string, any>;
+    if (!id) {
+      throw new Error("ID is required for update operation");
+    }
+
+    const existing = this.table.rows.get(String(id));
+    if (!existing) {
+      return null;
+    }
+    if (this.versioned) {
+      checkVersion(this.tableName, id, takeVersion(changes), existing);
+      changes[VERSION_FIELD] = (existing[VERSION_FIELD] ?? 0) + 1;
+    }
+
+    this.table.rows.set(String(id), {
+      ...existing,
+      ...changes,
+      updated_at: new Date(),
+    });
+    return existing["id"];
+  }
+
+  /**
+   * Insert or update a record (upsert)
+   */
+  async upsert(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    const { id } = data as Record<string, any>;
+    if (!id) {
+      // If no ID provided, treat as create
+      return this.create(data);
+    }
+
+    return this.table.rows.has(String(id))
+      ? this.update(data)
+      : this.create(data);
+  }
+
+  /**
+   * Delete a record
+   */
+  async delete(data: T): Promise<string | number | null | undefined> {
+    const { id } = data as Record<string, any>;
+    if (!id) {
+      throw new Error("ID is required for delete operation");
+    }
+
+    const existing = this.table.rows.get(String(id));
+    if (!existing) {
+      return null;
+    }
+
+    this.table.rows.delete(String(id));
+    return existing["id"];
+  }
+
+  /**
+   * Create many records. Item errors are reported in the results; any
+   * other error undoes the whole batch.
+   */
+  async createMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.create(item))
+    );
+  }
+
+  /**
+   * Insert or update many records, like createMany()
+   */
+  async upsertMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.upsert(item))
+    );
+  }
+
+  /**
+   * Delete many records, like createMany()
+   */
+  async deleteMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.delete(requireId(item, "delete")))
+    );
+  }
+
+  /**
+   * Get a record by ID
+   */
+  async get(id: number | string | null | undefined): Promise<T | null> {
+    if (!id) {
+      return null;
+    }
+
+    const record = this.table.rows.get(String(id));
+    return record ? (copy(record) as T) : null;
+  }
+
+  /**
+   * Find records matching a backend-neutral query
+   */
+  async findMany(query: FindQuery<T> = {}): Promise<FindPage<T>> {
+    checkPaging(query);
+
+    const sort = sortFields(query, "id");
+    let rows = [...this.table.rows.values()]
+      .filter((row) => matches(row, query.filter ?? {}))
+      .sort((a, b) => compareRows(a, sort, (field) => b[field]));
+
+    if (query.cursor) {
+      const values = decodeCursor(query.cursor, sort.length);
+      rows = rows.filter(
+        (row) => compareRows(row, sort, (_field, index) => values[index]) > 0
+      );
+    }
+    if (query.offset) {
+      rows = rows.slice(query.offset);
+    }
+    if (query.limit !== undefined) {
+      // One extra record tells whether there is a next page
+      rows = rows.slice(0, query.limit + 1);
+    }
+
+    return toPage(
+      rows.map((row) => copy(row) as T),
+      query.limit,
+      sort,
+      (row, field) => (row as Record<string, any>)[field]
+    );
+  }
+
+  /**
+   * Count records matching a backend-neutral filter
+   */
+  async countMany(filter: Filter<T> = {}): Promise<number> {
+    return [...this.table.rows.values()].filter((row) => matches(row, filter))
+      .length;
+  }
+
+  /**
+   * Run a callback in a transaction. The transaction commits when the
+   * callback resolves; when it throws, every enlisted table is restored to
+   * its state at the start. Writes are visible to other handles right away,
+   * since there is no isolation between transactions.
+   */
+  async withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R> {
+    if (this.transaction) {
+      return await fn(this);
+    }
+
+    const transaction: Transaction = { snapshots: new Map() };
+    try {
+      return await fn(this.bound(transaction));
+    } catch (error) {
+      for (const [table, rows] of transaction.snapshots) {
+        table.rows = rows;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Bind another table to this handle's transaction
+   */
+  enlist<U extends Record<string, any>>(
+    other: Persistence<U>
+  ): InMemoryPersistence<U> {
+    if (!this.transaction) {
+      throw new Error("enlist() can only be called on a transaction handle");
+    }
+    if (!(other instanceof InMemoryPersistence)) {
+      throw new Error(
+        "Only in-memory persistence can join an in-memory transaction"
+      );
+    }
+
+    return (other as InMemoryPersistence<U>).bound(this.transaction);
+  }
+
+  /**
+   * Remove every record and restart the ID sequence
+   */
+  async clear(): Promise<void> {
+    this.table.rows.clear();
+    this.table.nextId = 1;
+  }
+
+  /**
+   * Nothing to release; records stay available to other instances
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * The in-memory store is always available
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * A copy of this persistence bound to `transaction`, which keeps a
+   * snapshot of the table from when it joined
+   */
+  private bound(transaction: Transaction): this {
+    if (!transaction.snapshots.has(this.table)) {
+      transaction.snapshots.set(this.table, new Map(this.table.rows));
+    }
+
+    const tx = Object.create(this) as this;
+    tx.transaction = transaction;
+    return tx;
+  }
+}
+
+/**
+ * Deep copy of a record. Unlike `structuredClone`, dates stay instances of
+ * this realm's `Date`, which matters under test runners with sandboxed
+ * globals.
+ */
+function copy<V>(value: V): V {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as V;
+  }
+  if (Array.isArray(value)) {
+    return value.map(copy) as V;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, copy(item)])
+    ) as V;
+  }
+  return value;
+}
+
+/**
+ * Orders two field values the way both databases do: nulls and missing
+ * values first, dates by time, everything else by `<`.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a ?? null;
+  const right = b instanceof Date ? b.getTime() : b ?? null;
+  if (left === right) {
+    return 0;
+  }
+  if (left === null) {
+    return -1;
+  }
+  if (right === null) {
+    return 1;
+  }
+  return (left as any) < (right as any) ? -1 : 1;
+}
+
+/**
+ * Compares a record with another position in the sort order, given as a
+ * lookup of that position's value for each sort field.
+ */
+function compareRows(
+  row: Record<string, any>,
+  sort: [string, SortDirection][],
+  other: (field: string, index: number) => unknown
+): number {
+  for (const [index, [field, direction]] of sort.entries()) {
+    const order = compareValues(row[field], other(field, index));
+    if (order !== 0) {
+      return direction === "asc" ? order : -order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Checks a record against a backend-neutral filter. As in SQL, ordering
+ * comparisons never match a null field.
+ */
+function matches(row: Record<string, any>, filter: Filter<any>): boolean {
+  return Object.entries(filter).every(([field, value]) => {
+    const actual = row[field] ?? null;
+    const { eq, ne, gt, gte, lt, lte, in: oneOf } = conditionsOf(value);
+    const ordered = (bound: unknown, test: (order: number) => boolean) =>
+      bound === undefined ||
+      (actual !== null && bound !== null && test(compareValues(actual, bound)));
+
+    return (
+      (eq === undefined || compareValues(actual, eq) === 0) &&
+      (ne === undefined || compareValues(actual, ne) !== 0) &&
+      ordered(gt, (order) => order > 0) &&
+      ordered(gte, (order) => order >= 0) &&
+      ordered(lt, (order) => order < 0) &&
+      ordered(lte, (order) => order <= 0) &&
+      (oneOf === undefined ||
+        oneOf.some((candidate) => compareValues(actual, candidate) === 0))
+    );
+  });
+}
@@ -0,0 +1,96 @@
+import path from "path";
+import { parseArgs } from "util";
+import { PostgresMigrator } from "./migrator";
+
+const USAGE = `Usage: migrate <up|down|status> --service <name> --dir <path> [options]
+
+Commands:
+  up       Apply pending migrations (--to <version> stops at that version)
+  down     Roll back applied migrations (--steps <n>, default 1)
+  status   List migrations and when they were applied`;
+
+/**
+ * Command line entry point for a service's Postgres migrations. Connection
+ * settings come from the same POSTGRES_* variables as PostgresPersistence.
+ */
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      service: { type: "string" },
+      dir: { type: "string" },
+      to: { type: "string" },
+      steps: { type: "string" },
+    },
+  });
+
+  const [command] = positionals;
+  if (!command || !values.service || !values.dir) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const migrator = PostgresMigrator.fromDirectory(
+    values.service,
+    path.resolve(values.dir)
+  );
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await migrator.up(
+          values.to === undefined ? undefined : parseVersion(values.to, "--to")
+        );
+        for (const migration of applied) {
+          console.log(`Applied ${migration.version}_${migration.name}`);
+        }
+        console.log(
+          applied.length
+            ? `${applied.length} migration(s) applied`
+            : "Already up to date"
+        );
+        break;
+      }
+
+      case "down": {
+        const rolledBack = await migrator.down(
+          values.steps === undefined ? 1 : parseVersion(values.steps, "--steps")
+        );
+        for (const migration of rolledBack) {
+          console.log(`Rolled back ${migration.version}_${migration.name}`);
+        }
+        console.log(`${rolledBack.length} migration(s) rolled back`);
+        break;
+      }
+
+      case "status": {
+        for (const migration of await migrator.status()) {
+          const state = migration.applied_at
+            ? `applied ${migration.applied_at.toISOString()}`
+            : "pending";
+          console.log(`${migration.version}_${migration.name}\t${state}`);
+        }
+        break;
+      }
+
+      default:
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        process.exitCode = 1;
+    }
+  } finally {
+    await migrator.close();
+  }
+}
+
+function parseVersion(value: string, option: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`${option} must be a non-negative integer`);
+  }
+  return number;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,7 @@
+export {
+  loadMigrations,
+  Migration,
+  MigrationStatus,
+  MIGRATIONS_TABLE,
+  PostgresMigrator,
+} from "./migrator";
@@ -0,0 +1,298 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { PoolClient } from "pg";
+import { PostgresConfig, PostgresPersistence } from "../structured/postgres";
+
+/** Table recording which migrations each service has applied */
+export const MIGRATIONS_TABLE = "schema_migrations";
+
+/**
+ * Advisory lock key held while migrations run, so two deploys never
+ * migrate the same database at once. Shared by every service because they
+ * all write the tracking table.
+ */
+const MIGRATION_LOCK_KEY = 72_415_301;
+
+/** e.g. `0002_add_owner.up.sql` and `0002_add_owner.down.sql` */
+const MIGRATION_FILE = /^(\d+)_([A-Za-z0-9_-]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  /** Null when the migration cannot be rolled back */
+  down: string | null;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** Null while the migration is pending */
+  applied_at: Date | null;
+}
+
+interface AppliedMigration {
+  service: string;
+  version: number;
+  name: string;
+  applied_at?: Date;
+}
+
+/**
+ * Reads a service's migrations from a directory of versioned
+ * `<version>_<name>.up.sql` / `<version>_<name>.down.sql` files. Other
+ * files are ignored.
+ * @param directory The directory holding the migration files
+ * @returns The migrations, oldest first
+ */
+export function loadMigrations(directory: string): Migration[] {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(directory)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const [, version = "", name = "", direction] = match;
+    const entry = files.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(
+        `Migration version ${version} is used by both '${entry.name}' and '${name}'`
+      );
+    }
+    entry[direction === "up" ? "up" : "down"] = readFileSync(
+      path.join(directory, file),
+      "utf8"
+    );
+    files.set(Number(version), entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new Error(
+          `Migration ${version}_${entry.name} has no .up.sql file`
+        );
+      }
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down ?? null,
+      };
+    });
+}
+
+/**
+ * Applies and rolls back one service's migrations on PostgreSQL.
+ *
+ * Applied migrations are recorded per service in the `schema_migrations`
+ * table, so services sharing a database keep separate histories. Each
+ * migration runs in its own transaction together with its tracking row,
+ * and a run holds an advisory lock for its whole duration.
+ */
+export class PostgresMigrator {
+  private service: string;
+  private migrations: Migration[];
+  private persistence: PostgresPersistence<AppliedMigration>;
+
+  constructor(
+    service: string,
+    migrations: Migration[],
+    config?: PostgresConfig
+  ) {
+    this.service = service;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.persistence = new PostgresPersistence<AppliedMigration>(
+      MIGRATIONS_TABLE,
+      config
+    );
+  }
+
+  /**
+   * Create a migrator for the migration files in a directory
+   */
+  static fromDirectory(
+    service: string,
+    directory: string,
+    config?: PostgresConfig
+  ): PostgresMigrator {
+    return new PostgresMigrator(service, loadMigrations(directory), config);
+  }
+
+  /**
+   * Apply pending migrations, oldest first, up to and including `target`
+   * when given. Returns the migrations that were applied.
+   */
+  async up(target?: number): Promise<Migration[]> {
+    return await this.locked(async (client) => {
+      const applied = await this.applied(client);
+      const pending = this.migrations.filter(
+        (migration) =>
+          !applied.has(migration.version) &&
+          (target === undefined || migration.version <= target)
+      );
+
+      for (const migration of pending) {
+        await this.run(client, migration, migration.up, async () => {
+          await client.query(
+            `INSERT INTO ${MIGRATIONS_TABLE} (service, version, name) VALUES ($1, $2, $3)`,
+            [this.service, migration.version, migration.name]
+          );
+        });
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Roll back the most recently applied migrations, newest first. Returns
+   * the migrations that were rolled back.
+   */
+  async down(steps: number = 1): Promise<Migration[]> {
+    return await this.locked(async (client) => {
+      const applied = await this.applied(client);
+      const latest = [...applied.keys()]
+        .sort((a, b) => b - a)
+        .slice(0, steps)
+        .map((version) => {
+          const migration = this.migrations.find(
+            (candidate) => candidate.version === version
+          );
+          if (!migration) {
+            throw new Error(
+              `Applied migration ${version} has no migration file`
+            );
+          }
+          if (migration.down === null) {
+            throw new Error(
+              `Migration ${version}_${migration.name} has no .down.sql file`
+            );
+          }
+          return { ...migration, down: migration.down };
+        });
+
+      for (const migration of latest) {
+        await this.run(client, migration, migration.down, async () => {
+          await client.query(
+            `DELETE FROM ${MIGRATIONS_TABLE} WHERE service = $1 AND version = $2`,
+            [this.service, migration.version]
+          );
+        });
+      }
+
+      return latest;
+    });
+  }
+
+  /**
+   * List every known migration with when it was applied. Applied versions
+   * whose files are gone are included under their recorded name.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return await this.locked(async (client) => {
+      const applied = await this.applied(client);
+      const versions = new Set([
+        ...this.migrations.map((migration) => migration.version),
+        ...applied.keys(),
+      ]);
+
+      return [...versions]
+        .sort((a, b) => a - b)
+        .map((version) => {
+          const record = applied.get(version);
+          const migration = this.migrations.find(
+            (candidate) => candidate.version === version
+          );
+          return {
+            version,
+            name: migration?.name ?? record?.name ?? "",
+            applied_at: record?.applied_at ?? null,
+          };
+        });
+    });
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    await this.persistence.close();
+  }
+
+  /**
+   * Run `fn` on one client while holding the migration lock, creating the
+   * tracking table first if needed
+   */
+  private async locked<R>(fn: (client: PoolClient) => Promise<R>): Promise<R> {
+    const client = await this.persistence.getClient();
+    try {
+      await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+      try {
+        await client.query(
+          `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+             service VARCHAR(255) NOT NULL,
+             version BIGINT NOT NULL,
+             name VARCHAR(255) NOT NULL,
+             applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+             PRIMARY KEY (service, version)
+           )`
+        );
+        return await fn(client);
+      } finally {
+        await client.query("SELECT pg_advisory_unlock($1)", [
+          MIGRATION_LOCK_KEY,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The service's applied migrations, keyed by version
+   */
+  private async applied(
+    client: PoolClient
+  ): Promise<Map<number, AppliedMigration>> {
+    const result = await client.query(
+      `SELECT service, version, name, applied_at FROM ${MIGRATIONS_TABLE} WHERE service = $1`,
+      [this.service]
+    );
+
+    // BIGINT columns come back as strings
+    return new Map(
+      result.rows.map((row) => [
+        Number(row.version),
+        { ...row, version: Number(row.version) } as AppliedMigration,
+      ])
+    );
+  }
+
+  /**
+   * Run one migration script and its tracking change in a transaction
+   */
+  private async run(
+    client: PoolClient,
+    migration: Migration,
+    sql: string,
+    track: () => Promise<void>
+  ): Promise<void> {
+    await client.query("BEGIN");
+    try {
+      await client.query(sql);
+      await track();
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error(
+        `Migration ${migration.version}_${migration.name} failed:`,
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { ChangeStream, ChangeStreamDocument, ResumeToken } from "mongodb";
+import { setTimeout as sleep } from "timers/promises";
+import { AuditAction } from "../audit";
+import { MongoPersistence } from "../unstructured/mongo";
+import { Publisher } from "../../messaging/Publisher";
+import { changeKey, changeName, RecordChange } from "./events";
+
+/** Collection change stream relays keep their place in unless configured otherwise */
+export const CHANGE_STREAM_CHECKPOINTS = "change_stream_checkpoints";
+
+/** Where a change stream relay got to, saved under the relay's name */
+export interface ChangeStreamCheckpoint {
+  _id: string;
+  /** Identifies the last change published */
+  resume_token: ResumeToken;
+  updated_at: Date;
+}
+
+export interface ChangeStreamRelayOptions {
+  /**
+   * Where the resume token is saved after every published change, and
+   * loaded from by start(). Without it the token is only kept in memory.
+   */
+  checkpoints?: MongoPersistence<ChangeStreamCheckpoint>;
+  /** Names the relay's checkpoint; the watched collection by default */
+  name?: string;
+  /** Publish attempts per change before the relay gives up; 5 by default */
+  attempts?: number;
+  /** Milliseconds before the first retry, doubled for every further one; 1000 by default */
+  retryDelay?: number;
+  /**
+   * Called when a change could not be published and the relay stopped;
+   * by default the error is only logged
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Publishes a MongoDB collection's changes straight from its change
+ * stream, in place of an outbox. Nothing is written besides the change
+ * itself and, with `checkpoints`, the resume token, which lets a restarted
+ * relay carry on with the changes made while it was down. Needs a replica
+ * set.
+ */
+export class ChangeStreamRelay {
+  private persistence: MongoPersistence<any>;
+  private publisher: Publisher;
+  private checkpoints: MongoPersistence<ChangeStreamCheckpoint> | null;
+  private name: string;
+  private attempts: number;
+  private retryDelay: number;
+  private onError: (error: unknown) => void;
+  private stream: ChangeStream<any> | null = null;
+  /** Reads the stream until it closes */
+  private reading: Promise<void> | null = null;
+  /** Identifies the last change published */
+  resumeToken: ResumeToken | null = null;
+
+  constructor(
+    persistence: MongoPersistence<any>,
+    publisher: Publisher,
+    options: ChangeStreamRelayOptions = {}
+  ) {
+    this.persistence = persistence;
+    this.publisher = publisher;
+    this.checkpoints = options.checkpoints ?? null;
+    this.name = options.name ?? persistence.getCollection().collectionName;
+    this.attempts = options.attempts ?? 5;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.onError =
+      options.onError ??
+      ((error) => console.error("Error relaying change stream:", error));
+  }
+
+  /**
+   * Publish every change after the one `resumeAfter` names, or else after
+   * the saved checkpoint, or else from now, until stop() is called. A
+   * change that still fails to publish after every attempt stops the relay
+   * and is passed to `onError`; its checkpoint is not saved, so a restarted
+   * relay publishes it again.
+   */
+  async start(resumeAfter?: ResumeToken): Promise<void> {
+    if (this.stream) {
+      throw new Error("The change stream relay is already running");
+    }
+
+    const saved = await this.checkpoints?.findOne({ _id: this.name });
+    const token = resumeAfter ?? saved?.resume_token;
+    const stream = await this.persistence.watch(token);
+    this.stream = stream;
+    this.resumeToken = token ?? null;
+    this.reading = this.read(stream);
+  }
+
+  async stop(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    await stream?.close();
+    await this.reading;
+  }
+
+  private async read(stream: ChangeStream<any>): Promise<void> {
+    try {
+      for await (const event of stream) {
+        const change = recordChangeOf(event);
+        if (change) {
+          await this.publish(change, stream);
+        }
+        await this.save(event._id);
+      }
+    } catch (error) {
+      if (!stream.closed) {
+        this.onError(error);
+      }
+    } finally {
+      if (this.stream === stream) {
+        this.stream = null;
+        await stream.close();
+      }
+    }
+  }
+
+  /**
+   * Publish a change, retrying with a growing delay until it is accepted,
+   * the attempts run out or the relay is stopped
+   */
+  private async publish(
+    change: RecordChange,
+    stream: ChangeStream<any>
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.publisher.publish(
+          changeName(change),
+          change,
+          changeKey(change)
+        );
+        return;
+      } catch (error) {
+        if (attempt >= this.attempts || this.stream !== stream) {
+          throw error;
+        }
+        console.error(
+          `Error publishing change, attempt ${attempt} of ${this.attempts}:`,
+          error
+        );
+        await sleep(this.retryDelay * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Remember the last change published, durably when there are checkpoints
+   */
+  private async save(token: ResumeToken): Promise<void> {
+    this.resumeToken = token;
+    await this.checkpoints
+      ?.getCollection()
+      .updateOne(
+        { _id: this.name },
+        { $set: { resume_token: token, updated_at: new Date() } },
+        { upsert: true }
+      );
+  }
+}
+
+/**
+ * The record change a change stream event describes, or null for events
+ * that change no document, such as a dropped collection. Setting or
+ * clearing `deleted_at` counts as a delete or a restore, as in audit
+ * entries.
+ */
+function recordChangeOf(event: ChangeStreamDocument): RecordChange | null {
+  let action: AuditAction;
+  let record: Record<string, unknown> | null | undefined;
+  switch (event.operationType) {
+    case "insert":
+      action = "create";
+      record = event.fullDocument;
+      break;
+
+    case "update": {
+      const updated = event.updateDescription.updatedFields ?? {};
+      if ("deleted_at" in updated) {
+        action = updated["deleted_at"] ? "delete" : "restore";
+      } else if (
+        event.updateDescription.removedFields?.includes("deleted_at")
+      ) {
+        action = "restore";
+      } else {
+        action = "update";
+      }
+      record = event.fullDocument;
+      break;
+    }
+
+    case "replace":
+      action = "update";
+      record = event.fullDocument;
+      break;
+
+    case "delete":
+      action = "delete";
+      record = event.fullDocumentBeforeChange;
+      break;
+
+    default:
+      return null;
+  }
+
+  return {
+    table_name: event.ns.coll,
+    record_id: String(event.documentKey._id),
+    action,
+    record: record ?? null,
+    created_at: event.wallTime ?? new Date(),
+  };
+}
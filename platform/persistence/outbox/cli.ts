@@ -0,0 +1,127 @@
+import { parseArgs } from "util";
+import { KafkaPublisher } from "../../messaging/kafka";
+import { PostgresPersistence } from "../structured/postgres";
+import { MongoPersistence } from "../unstructured/mongo";
+import {
+  CHANGE_STREAM_CHECKPOINTS,
+  ChangeStreamCheckpoint,
+  ChangeStreamRelay,
+} from "./changeStream";
+import { OUTBOX_TABLE, OutboxEvent } from "./events";
+import { OutboxRelay } from "./relay";
+
+const USAGE = `Usage: outbox-relay --topic <name> --client <id> [options]
+
+Options:
+  --database <type>      postgres (default) or mongodb
+  --table <name>         The outbox table or collection (default ${OUTBOX_TABLE})
+  --interval <ms>        Milliseconds between polls (default 1000)
+  --watch <collection>   Publish a MongoDB collection's change stream instead
+                         of an outbox, from where the relay last stopped
+                         (kept in ${CHANGE_STREAM_CHECKPOINTS})`;
+
+/**
+ * Command line entry point for a service's outbox relay, which runs until
+ * it is interrupted, or exits non-zero once a change stream relay fails to
+ * publish. Connection settings come from the same POSTGRES_* and MONGO_*
+ * variables as the persistence classes.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      topic: { type: "string" },
+      client: { type: "string" },
+      database: { type: "string", default: "postgres" },
+      table: { type: "string", default: OUTBOX_TABLE },
+      interval: { type: "string" },
+      watch: { type: "string" },
+    },
+  });
+
+  if (
+    !values.topic ||
+    !values.client ||
+    !["postgres", "mongodb"].includes(values.database) ||
+    (values.watch && values.database !== "mongodb")
+  ) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const publisher = await KafkaPublisher.create({
+    topic: values.topic,
+    client: values.client,
+  });
+  const persistence =
+    values.database === "mongodb"
+      ? new MongoPersistence<OutboxEvent>(values.watch ?? values.table)
+      : new PostgresPersistence<OutboxEvent>(values.table);
+
+  // Declared before the relay is built, since a change stream relay can
+  // fail and shut down while it is still starting
+  let stop: () => Promise<void> = async () => {};
+  let stopped = false;
+  const shutdown = async () => {
+    // The relay's onError and a signal can both ask to shut down
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    try {
+      await stop();
+      await persistence.close();
+      await publisher.shutdown();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  if (values.watch) {
+    const checkpoints = new MongoPersistence<ChangeStreamCheckpoint>(
+      CHANGE_STREAM_CHECKPOINTS
+    );
+    const relay = new ChangeStreamRelay(
+      persistence as MongoPersistence<OutboxEvent>,
+      publisher,
+      {
+        checkpoints,
+        onError: (error) => {
+          console.error("Error relaying change stream:", error);
+          process.exitCode = 1;
+          void shutdown();
+        },
+      }
+    );
+    stop = async () => {
+      await relay.stop();
+      await checkpoints.close();
+    };
+    await relay.start();
+  } else {
+    const relay = new OutboxRelay(persistence, publisher, {
+      ...(values.interval === undefined
+        ? {}
+        : { interval: parseInterval(values.interval) }),
+    });
+    stop = () => relay.stop();
+    relay.start();
+  }
+  console.log(`Relaying ${values.watch ?? values.table} to ${values.topic}`);
+}
+
+function parseInterval(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error("--interval must be a positive integer");
+  }
+  return number;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
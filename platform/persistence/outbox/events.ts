@@ -0,0 +1,81 @@
+import { AuditAction, changeAction } from "../audit";
+import { EntitySchema } from "../schema";
+
+/** Table or collection outbox events go to unless configured otherwise */
+export const OUTBOX_TABLE = "outbox";
+
+/**
+ * Opts a table or collection into publishing its changes. Every write
+ * queues an event in the outbox, in the same transaction as the write, for
+ * an OutboxRelay to publish.
+ */
+export interface OutboxOptions {
+  /** Where events are queued; `outbox` by default */
+  table?: string;
+}
+
+/**
+ * A change to one record, as published to Kafka under the name
+ * `<table_name>.<action>`
+ */
+export interface RecordChange {
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  /** The record after the change, or as it was before a delete */
+  record: Record<string, unknown> | null;
+  created_at?: Date;
+}
+
+/** A record change queued in the outbox, unpublished while `published_at` is null */
+export interface OutboxEvent extends RecordChange {
+  id?: number | string;
+  published_at?: Date | null;
+}
+
+/**
+ * The outbox table's fields. `toPostgresDDL(OUTBOX_TABLE,
+ * OUTBOX_EVENT_SCHEMA)` gives its `CREATE TABLE` statement.
+ */
+export const OUTBOX_EVENT_SCHEMA: EntitySchema<OutboxEvent> = {
+  table_name: { type: "string", required: true, maxLength: 255 },
+  record_id: { type: "string", required: true, maxLength: 255 },
+  action: { type: "string", required: true, maxLength: 20 },
+  record: { type: "json" },
+  created_at: { type: "timestamp", required: true, default: "now" },
+  published_at: { type: "timestamp" },
+};
+
+/**
+ * The change from `before` to `after`, either of which is null when the
+ * record did not exist
+ */
+export function recordChange(
+  tableName: string,
+  recordId: string | number,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): RecordChange {
+  return {
+    table_name: tableName,
+    record_id: String(recordId),
+    action: changeAction(before, after),
+    record: after ?? before,
+  };
+}
+
+/**
+ * The Kafka message name of a change, such as `items.update`
+ */
+export function changeName(change: RecordChange): string {
+  return `${change.table_name}.${change.action}`;
+}
+
+/**
+ * The Kafka message key of a change, such as `items:42`. Kafka keeps the
+ * messages of one key on one partition, so a record's changes are
+ * consumed in the order they were made.
+ */
+export function changeKey(change: RecordChange): string {
+  return `${change.table_name}:${change.record_id}`;
+}
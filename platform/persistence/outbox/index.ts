@@ -0,0 +1,17 @@
+export {
+  changeKey,
+  changeName,
+  OUTBOX_EVENT_SCHEMA,
+  OUTBOX_TABLE,
+  OutboxEvent,
+  OutboxOptions,
+  RecordChange,
+  recordChange,
+} from "./events";
+export { OutboxRelay, OutboxRelayOptions } from "./relay";
+export {
+  CHANGE_STREAM_CHECKPOINTS,
+  ChangeStreamCheckpoint,
+  ChangeStreamRelay,
+  ChangeStreamRelayOptions,
+} from "./changeStream";
@@ -0,0 +1,119 @@
+import { Persistence } from "../Persistence";
+import { Publisher } from "../../messaging/Publisher";
+import { changeKey, changeName, OutboxEvent, RecordChange } from "./events";
+
+export interface OutboxRelayOptions {
+  /** Events read from the outbox per query; 100 by default */
+  batchSize?: number;
+  /** Milliseconds between polls once the outbox is drained; 1000 by default */
+  interval?: number;
+}
+
+/**
+ * Publishes the events queued in an outbox, oldest first. An event is
+ * marked published only after Kafka accepted it, so a relay that stops
+ * half way publishes it again: delivery is at least once, and consumers
+ * should ignore changes they have already applied. Run one relay per
+ * outbox; two would publish every event twice.
+ */
+export class OutboxRelay {
+  private outbox: Persistence<OutboxEvent>;
+  private publisher: Publisher;
+  private batchSize: number;
+  private interval: number;
+  private running: boolean = false;
+  private timer: NodeJS.Timeout | null = null;
+  /** The pass in progress, which stop() waits for */
+  private pass: Promise<number> | null = null;
+
+  constructor(
+    outbox: Persistence<OutboxEvent>,
+    publisher: Publisher,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.outbox = outbox;
+    this.publisher = publisher;
+    this.batchSize = options.batchSize ?? 100;
+    this.interval = options.interval ?? 1000;
+  }
+
+  /**
+   * Publish every unpublished event and return how many were published.
+   * A failed publish stops the pass, so that later changes to a record are
+   * never published before earlier ones.
+   */
+  async relay(): Promise<number> {
+    let published = 0;
+    for (;;) {
+      const { items } = await this.outbox.findMany({
+        filter: { published_at: null },
+        sort: { created_at: "asc" },
+        limit: this.batchSize,
+      });
+      for (const event of items) {
+        const { table_name, record_id, action, record, created_at } = event;
+        const change: RecordChange = {
+          table_name,
+          record_id,
+          action,
+          record,
+          ...(created_at === undefined ? {} : { created_at }),
+        };
+        await this.publisher.publish(
+          changeName(change),
+          change,
+          changeKey(change)
+        );
+
+        const { _id, id } = event as Record<string, any>;
+        await this.outbox.update({
+          ...(_id === undefined ? { id } : { _id }),
+          published_at: new Date(),
+        } as OutboxEvent);
+        published++;
+      }
+      if (items.length < this.batchSize) {
+        return published;
+      }
+    }
+  }
+
+  /**
+   * Relay events now and then every `interval` until stop() is called.
+   * Failed passes are logged and retried on the next poll.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling, once the pass in progress has finished
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.pass;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.pass = this.relay().catch((error) => {
+        console.error("Error relaying outbox events:", error);
+        return 0;
+      });
+      await this.pass;
+      this.pass = null;
+      if (this.running) {
+        this.schedule(this.interval);
+      }
+    }, delay);
+  }
+}
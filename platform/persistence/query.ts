@@ -0,0 +1,114 @@
+import {
+  FieldCondition,
+  FilterValue,
+  FindPage,
+  FindQuery,
+  SortDirection,
+} from "./Persistence";
+
+/**
+ * The comparisons of a filter entry, with a bare value expanded to `eq`.
+ */
+export function conditionsOf(
+  value: FilterValue | FieldCondition | undefined
+): FieldCondition {
+  if (
+    value === null ||
+    value === undefined ||
+    value instanceof Date ||
+    typeof value !== "object"
+  ) {
+    return value === undefined ? {} : { eq: value };
+  }
+  return value;
+}
+
+/**
+ * The sort fields of a query in order of significance, followed by the ID
+ * field as a tiebreaker.
+ */
+export function sortFields(
+  query: FindQuery<any>,
+  idField: string
+): [string, SortDirection][] {
+  const fields = Object.entries(query.sort ?? {}).filter(
+    (entry): entry is [string, SortDirection] =>
+      entry[1] !== undefined && entry[0] !== idField
+  );
+  const idDirection = (
+    query.sort as Record<string, SortDirection> | undefined
+  )?.[idField];
+
+  return [...fields, [idField, idDirection ?? "asc"]];
+}
+
+/**
+ * Rejects queries whose paging options cannot be satisfied.
+ */
+export function checkPaging(query: FindQuery<any>): void {
+  const { limit, offset, cursor } = query;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error("limit must be a positive integer");
+  }
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+    throw new Error("offset must be a non-negative integer");
+  }
+  if (cursor && offset) {
+    throw new Error("A query can use a cursor or an offset, not both");
+  }
+}
+
+/**
+ * Encodes the sort values of the last record on a page as an opaque cursor.
+ */
+export function encodeCursor(values: unknown[]): string {
+  const tagged = values.map((value) =>
+    value instanceof Date ? { $date: value.toISOString() } : value
+  );
+  return Buffer.from(JSON.stringify(tagged)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor` for a query sorted on
+ * `length` fields.
+ */
+export function decodeCursor(cursor: string, length: number): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new Error("Cursor does not match the query's sort order");
+  }
+
+  return values.map((value) =>
+    value && typeof value === "object" && "$date" in value
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+/**
+ * Trims the extra record fetched to detect a following page, and builds the
+ * cursor pointing past the last record kept.
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number | undefined,
+  sort: [string, SortDirection][],
+  valueOf: (row: T, field: string) => unknown
+): FindPage<T> {
+  if (limit === undefined || rows.length <= limit) {
+    return { items: rows, next_cursor: null };
+  }
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1] as T;
+
+  return {
+    items,
+    next_cursor: encodeCursor(sort.map(([field]) => valueOf(last, field))),
+  };
+}
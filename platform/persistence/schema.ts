@@ -0,0 +1,228 @@
+import { quoteIdentifier, quoteTableName } from "./identifiers";
+import { FilterValue } from "./Persistence";
+
+export type FieldType =
+  | "string"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "date"
+  | "timestamp"
+  | "json";
+
+export interface FieldDefinition {
+  type: FieldType;
+  /** Required fields must be given, and never null, when a record is created */
+  required?: boolean;
+  /**
+   * Written when a record is created without the field. On `date` and
+   * `timestamp` fields, "now" stands for the time of the write.
+   */
+  default?: FilterValue;
+  /** Longest allowed `string` value, in characters */
+  maxLength?: number;
+}
+
+/**
+ * The fields of an entity, declared once and shared by every backend. The
+ * ID is implicit: it is never validated, and the generated DDL makes it a
+ * `SERIAL` primary key.
+ */
+export type EntitySchema<T> = {
+  [K in Exclude<keyof T & string, "id">]-?: FieldDefinition;
+};
+
+export type WriteMode = "create" | "update";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when a write does not match the entity schema. `errors` lists
+ * every offending field, not just the first.
+ */
+export class SchemaValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(entity: string, errors: FieldError[]) {
+    super(
+      `Invalid ${entity}: ${errors
+        .map((error) => `${error.field} ${error.message}`)
+        .join("; ")}`
+    );
+    this.name = "SchemaValidationError";
+    this.errors = errors;
+  }
+}
+
+/** Fields identifying a record, which no schema declares */
+const KEY_FIELDS = new Set(["id", "_id"]);
+
+const POSTGRES_TYPES: Record<FieldType, string> = {
+  string: "TEXT",
+  integer: "INTEGER",
+  number: "DOUBLE PRECISION",
+  boolean: "BOOLEAN",
+  date: "DATE",
+  timestamp: "TIMESTAMPTZ",
+  json: "JSONB",
+};
+
+/**
+ * Checks a write against an entity schema and returns the record to store.
+ * Creates get defaults for missing fields and must include every required
+ * field; updates may leave fields out but cannot set a required one to
+ * null. Without a schema the data is returned unchanged.
+ * @throws {SchemaValidationError} When any field is unknown or invalid
+ */
+export function validateWrite<T>(
+  schema: EntitySchema<T> | undefined,
+  entity: string,
+  data: T,
+  mode: WriteMode
+): T {
+  if (!schema) {
+    return data;
+  }
+
+  const fields = schema as Record<string, FieldDefinition>;
+  const record = { ...data } as Record<string, any>;
+  const errors: FieldError[] = [];
+
+  for (const field of Object.keys(record)) {
+    if (!KEY_FIELDS.has(field) && !fields[field]) {
+      errors.push({ field, message: "is not in the schema" });
+    }
+  }
+
+  for (const [field, definition] of Object.entries(fields)) {
+    if (
+      mode === "create" &&
+      record[field] === undefined &&
+      definition.default !== undefined
+    ) {
+      record[field] =
+        definition.default === "now" && isDateType(definition.type)
+          ? new Date()
+          : definition.default;
+    }
+
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (definition.required && (mode === "create" || value === null)) {
+        errors.push({ field, message: "is required" });
+      }
+      continue;
+    }
+
+    const message = checkValue(definition, value);
+    if (message) {
+      errors.push({ field, message });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new SchemaValidationError(entity, errors);
+  }
+  return record as T;
+}
+
+/**
+ * The `CREATE TABLE` statement for an entity schema, for use in a
+ * migration. Strings with a `maxLength` become `VARCHAR`, others `TEXT`.
+ */
+export function toPostgresDDL<T>(
+  tableName: string,
+  schema: EntitySchema<T>
+): string {
+  const columns = ['"id" SERIAL PRIMARY KEY'];
+
+  for (const [field, definition] of Object.entries(
+    schema as Record<string, FieldDefinition>
+  )) {
+    let column = `${quoteIdentifier(field)} ${
+      definition.type === "string" && definition.maxLength !== undefined
+        ? `VARCHAR(${definition.maxLength})`
+        : POSTGRES_TYPES[definition.type]
+    }`;
+    if (definition.required) {
+      column += " NOT NULL";
+    }
+    if (definition.default !== undefined) {
+      column += ` DEFAULT ${toSqlLiteral(definition)}`;
+    }
+    columns.push(column);
+  }
+
+  return `CREATE TABLE IF NOT EXISTS ${quoteTableName(
+    tableName
+  )} (\n  ${columns.join(",\n  ")}\n);`;
+}
+
+function isDateType(type: FieldType): boolean {
+  return type === "date" || type === "timestamp";
+}
+
+/**
+ * Why a non-null value does not fit its field, or null when it does.
+ */
+function checkValue(
+  definition: FieldDefinition,
+  value: unknown
+): string | null {
+  switch (definition.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return "must be a string";
+      }
+      if (
+        definition.maxLength !== undefined &&
+        value.length > definition.maxLength
+      ) {
+        return `must be at most ${definition.maxLength} characters`;
+      }
+      return null;
+    case "integer":
+      return Number.isInteger(value) ? null : "must be an integer";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : "must be a number";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+    case "date":
+    case "timestamp": {
+      const time =
+        value instanceof Date
+          ? value.getTime()
+          : typeof value === "string"
+          ? Date.parse(value)
+          : NaN;
+      return Number.isNaN(time) ? "must be a date" : null;
+    }
+    case "json":
+      return typeof value === "object" ? null : "must be an object or array";
+  }
+}
+
+/**
+ * A field's default as a SQL literal
+ */
+function toSqlLiteral(definition: FieldDefinition): string {
+  const value = definition.default;
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (value === "now" && isDateType(definition.type)) {
+    return "NOW()";
+  }
+  if (value instanceof Date) {
+    return `'${value.toISOString()}'`;
+  }
+  if (typeof value === "string") {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value).toUpperCase();
+}
@@ -1,5 +1,41 @@
 import { Pool, PoolClient, QueryResult } from "pg";
-import { Persistence } from "../Persistence";
+import {
+  BulkResult,
+  Filter,
+  FindPage,
+  FindQuery,
+  Persistence,
+  PersistenceOptions,
+  SortDirection,
+} from "../Persistence";
+import {
+  checkPaging,
+  conditionsOf,
+  decodeCursor,
+  sortFields,
+  toPage,
+} from "../query";
+import { EntitySchema, validateWrite } from "../schema";
+import { BulkItem, checkItems, requireId, writeEach } from "../bulk";
+import {
+  AUDIT_ENTRY_SCHEMA,
+  AUDIT_HISTORY_TABLE,
+  AuditEntry,
+  auditEntry,
+} from "../audit";
+import {
+  OUTBOX_EVENT_SCHEMA,
+  OUTBOX_TABLE,
+  OutboxEvent,
+  recordChange,
+} from "../outbox/events";
+import {
+  InvalidIdentifierError,
+  quoteIdentifier,
+  quoteTableName,
+  splitTableName,
+} from "../identifiers";
+import { checkVersion, takeVersion, VERSION_FIELD } from "../versioning";
 import { fetchEnvVar } from "../../utils";
 
 export interface PostgresConfig {
@@ -17,9 +53,40 @@ export interface PostgresConfig {
 export class PostgresPersistence<T> implements Persistence<T> {
   private pool: Pool;
   private tableName: string;
+  /** The table name quoted for SQL */
+  private table: string;
+  /**
+   * The table's columns, loaded from information_schema on first use.
+   * Shared with transaction handles.
+   */
+  private columnCache: { columns: Set<string> | null };
+  /** Writes are validated against this schema when given */
+  private schema: EntitySchema<T> | undefined;
+  /** Where changes are recorded; null unless auditing is enabled */
+  private auditLog: PostgresPersistence<AuditEntry> | null = null;
+  /** Where change events are queued; null unless the outbox is enabled */
+  private outbox: PostgresPersistence<OutboxEvent> | null = null;
+  /** `AND deleted_at IS NULL` when deleted rows are hidden, otherwise empty */
+  private live: string = "";
+  /** Recorded as the actor of audit entries */
+  private actor: string | null = null;
+  /** Whether records carry a version checked and bumped by every write */
+  private versioned: boolean;
+  /** Set on handles that make the writes recorded() records */
+  private recording: boolean = false;
+  /** Set on handles bound to an open transaction */
+  private transactionClient: PoolClient | null = null;
 
-  constructor(tableName: string, config?: PostgresConfig) {
+  constructor(
+    tableName: string,
+    config?: PostgresConfig,
+    options: PersistenceOptions<T> = {}
+  ) {
     this.tableName = tableName;
+    this.table = quoteTableName(tableName);
+    this.columnCache = { columns: null };
+    this.schema = options.schema;
+    this.versioned = options.versioned ?? false;
 
     // Default configuration with environment variable fallbacks
     const defaultConfig: PostgresConfig = {
@@ -38,6 +105,23 @@ export class PostgresPersistence<T> implements Persistence<T> {
 
     this.pool = new Pool(finalConfig);
 
+    const { audit } = options;
+    if (audit) {
+      this.auditLog = new PostgresPersistence<AuditEntry>(
+        audit.historyTable ?? AUDIT_HISTORY_TABLE,
+        config,
+        { schema: AUDIT_ENTRY_SCHEMA }
+      );
+      this.live = " AND deleted_at IS NULL";
+    }
+    if (options.outbox) {
+      this.outbox = new PostgresPersistence<OutboxEvent>(
+        options.outbox.table ?? OUTBOX_TABLE,
+        config,
+        { schema: OUTBOX_EVENT_SCHEMA }
+      );
+    }
+
     // Handle pool errors
     this.pool.on("error", (err: Error) => {
       console.error("Unexpected error on idle client", err);
@@ -48,14 +132,23 @@ export class PostgresPersistence<T> implements Persistence<T> {
    * Create a new record in the database
    */
   async create(data: T): Promise<string | number | null | undefined> {
-    const client = await this.pool.connect();
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(null, (tx) => tx.create(data));
+    }
+    if (this.versioned) {
+      data = { ...data, [VERSION_FIELD]: 1 };
+    }
+
+    const client = await this.acquire();
     try {
       const columns = Object.keys(data as Record<string, any>);
       const values = Object.values(data as Record<string, any>);
       const placeholders = values.map((_, index) => `$${index + 1}`).join(", ");
+      await this.checkColumns(columns, client);
 
       const query = `
-        INSERT INTO ${this.tableName} (${columns.join(", ")})
+        INSERT INTO ${this.table} (${columns.map(quote).join(", ")})
         VALUES (${placeholders})
         RETURNING id
       `;
@@ -66,7 +159,7 @@ export class PostgresPersistence<T> implements Persistence<T> {
       console.error("Error creating record:", error);
       throw error;
     } finally {
-      client.release();
+      this.release(client);
     }
   }
 
@@ -74,7 +167,12 @@ export class PostgresPersistence<T> implements Persistence<T> {
    * Update an existing record in the database
    */
   async update(data: T): Promise<string | number | null | undefined> {
-    const client = await this.pool.connect();
+    data = validateWrite(this.schema, this.tableName, data, "update");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (tx) => tx.update(data));
+    }
+
+    const client = await this.acquire();
     try {
       const dataObj = data as Record<string, any>;
       const { id, ...updateData } = dataObj;
@@ -83,26 +181,36 @@ export class PostgresPersistence<T> implements Persistence<T> {
         throw new Error("ID is required for update operation");
       }
 
+      const expected = this.versioned ? takeVersion(updateData) : undefined;
       const columns = Object.keys(updateData);
-      const values = Object.values(updateData);
+      const values: unknown[] = Object.values(updateData);
+      await this.checkColumns(columns, client);
       const setClause = columns
-        .map((col, index) => `${col} = $${index + 1}`)
+        .map((col, index) => `${quote(col)} = $${index + 1}`)
+        .concat(this.versioned ? ["version = version + 1"] : [])
         .join(", ");
+      const conditions = [`id = ${bind(values, id)}${this.live}`];
+      if (expected !== undefined) {
+        conditions.push(`version = ${bind(values, expected)}`);
+      }
 
       const query = `
-        UPDATE ${this.tableName}
+        UPDATE ${this.table}
         SET ${setClause}
-        WHERE id = $${values.length + 1}
+        WHERE ${conditions.join(" AND ")}
         RETURNING id
       `;
 
-      const result: QueryResult = await client.query(query, [...values, id]);
+      const result: QueryResult = await client.query(query, values);
+      if (!result.rows[0]) {
+        await this.checkStoredVersion(client, id, expected);
+      }
       return result.rows[0]?.id || null;
     } catch (error) {
       console.error("Error updating record:", error);
       throw error;
     } finally {
-      client.release();
+      this.release(client);
     }
   }
 
@@ -110,7 +218,12 @@ export class PostgresPersistence<T> implements Persistence<T> {
    * Insert or update a record (upsert)
    */
   async upsert(data: T): Promise<string | number | null | undefined> {
-    const client = await this.pool.connect();
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (tx) => tx.upsert(data));
+    }
+
+    const client = await this.acquire();
     try {
       const dataObj = data as Record<string, any>;
       const { id, ...upsertData } = dataObj;
@@ -120,36 +233,61 @@ export class PostgresPersistence<T> implements Persistence<T> {
         return this.create(data);
       }
 
+      const expected = this.versioned ? takeVersion(upsertData) : undefined;
       const columns = Object.keys(upsertData);
-      const values = Object.values(upsertData);
+      const values: unknown[] = Object.values(upsertData);
+      await this.checkColumns(columns, client);
       const placeholders = values.map((_, index) => `$${index + 1}`).join(", ");
       const setClause = columns
-        .map((col, index) => `${col} = $${index + 1}`)
+        .map((col, index) => `${quote(col)} = $${index + 1}`)
+        .concat(this.versioned ? [`version = ${this.table}.version + 1`] : [])
         .join(", ");
+      const insertColumns = ["id", ...columns.map(quote)];
+      const insertValues = [bind(values, id), placeholders];
+      if (this.versioned) {
+        insertColumns.push(VERSION_FIELD);
+        insertValues.push("1");
+      }
+      const conditions: string[] = [];
+      if (this.auditLog) {
+        conditions.push(`${this.table}.deleted_at IS NULL`);
+      }
+      if (expected !== undefined) {
+        conditions.push(`${this.table}.version = ${bind(values, expected)}`);
+      }
 
       const query = `
-        INSERT INTO ${this.tableName} (id, ${columns.join(", ")})
-        VALUES ($${values.length + 1}, ${placeholders})
+        INSERT INTO ${this.table} (${insertColumns.join(", ")})
+        VALUES (${insertValues.filter(Boolean).join(", ")})
         ON CONFLICT (id) DO UPDATE SET
         ${setClause}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
         RETURNING id
       `;
 
-      const result: QueryResult = await client.query(query, [...values, id]);
+      const result: QueryResult = await client.query(query, values);
+      if (!result.rows[0]) {
+        await this.checkStoredVersion(client, id, expected);
+      }
       return result.rows[0]?.id || null;
     } catch (error) {
       console.error("Error upserting record:", error);
       throw error;
     } finally {
-      client.release();
+      this.release(client);
     }
   }
 
   /**
-   * Delete a record from the database
+   * Delete a record from the database. With auditing enabled, the record is
+   * only marked deleted and can be restored.
    */
   async delete(data: T): Promise<string | number | null | undefined> {
-    const client = await this.pool.connect();
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (tx) => tx.delete(data));
+    }
+
+    const client = await this.acquire();
     try {
       const dataObj = data as Record<string, any>;
       const { id } = dataObj;
@@ -158,8 +296,15 @@ export class PostgresPersistence<T> implements Persistence<T> {
         throw new Error("ID is required for delete operation");
       }
 
-      const query = `
-        DELETE FROM ${this.tableName}
+      const query = this.auditLog
+        ? `
+        UPDATE ${this.table}
+        SET ${await this.softDeleteSet("NOW()", client)}
+        WHERE id = $1${this.live}
+        RETURNING id
+      `
+        : `
+        DELETE FROM ${this.table}
         WHERE id = $1
         RETURNING id
       `;
@@ -170,21 +315,92 @@ export class PostgresPersistence<T> implements Persistence<T> {
       console.error("Error deleting record:", error);
       throw error;
     } finally {
-      client.release();
+      this.release(client);
+    }
+  }
+
+  /**
+   * Create many records in one transaction, with a multi-row INSERT per set
+   * of columns. Item errors are reported in the results; any other error
+   * rolls back the whole batch. Audited tables, and tables with an outbox,
+   * are written record by record so that every change gets its history
+   * entry and event.
+   */
+  async createMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction(async (tx) => {
+      if (this.recordsChanges()) {
+        return await writeEach(items, (item) => tx.create(item));
+      }
+
+      const { results, accepted } = await checkItems(items, (item) =>
+        tx.insertableRecord(item)
+      );
+      await tx.insertRows(accepted, results, false);
+      return results;
+    });
+  }
+
+  /**
+   * Insert or update many records, like createMany(). Audited and versioned
+   * tables, and tables with an outbox, are written record by record.
+   */
+  async upsertMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction(async (tx) => {
+      if (this.recordsChanges() || this.versioned) {
+        return await writeEach(items, (item) => tx.upsert(item));
+      }
+
+      const { results, accepted } = await checkItems(items, (item) =>
+        tx.insertableRecord(item)
+      );
+      await tx.insertRows(accepted, results, true);
+      return results;
+    });
+  }
+
+  /**
+   * Delete many records with one statement. Items without an ID are
+   * reported in the results, and so are records that do not exist, with a
+   * null ID. Audited tables, and tables with an outbox, delete records one
+   * by one, in a transaction.
+   */
+  async deleteMany(items: T[]): Promise<BulkResult[]> {
+    if (this.recordsChanges()) {
+      return await this.withTransaction((tx) =>
+        writeEach(items, (item) => tx.delete(requireId(item, "delete")))
+      );
+    }
+
+    const { results, accepted } = await checkItems(
+      items,
+      (item) => requireId(item, "delete") as Record<string, any>
+    );
+    if (accepted.length === 0) {
+      return results;
     }
+
+    const result = await this.query(
+      `DELETE FROM ${this.table} WHERE id = ANY($1) RETURNING id`,
+      [accepted.map(({ record }) => record["id"])]
+    );
+    const deleted = new Map(result.rows.map((row) => [String(row.id), row.id]));
+    for (const { index, record } of accepted) {
+      results[index] = { id: deleted.get(String(record["id"])) ?? null };
+    }
+    return results;
   }
 
   /**
    * Get a record by ID
    */
   async get(id: number | string | null | undefined): Promise<T | null> {
-    const client = await this.pool.connect();
+    const client = await this.acquire();
     try {
       if (!id) {
         return null;
       }
 
-      const query = `SELECT * FROM ${this.tableName} WHERE id = $1`;
+      const query = `SELECT * FROM ${this.table} WHERE id = $1${this.live}`;
       const result: QueryResult = await client.query(query, [id]);
 
       return (result.rows[0] as T) || null;
@@ -192,26 +408,192 @@ export class PostgresPersistence<T> implements Persistence<T> {
       console.error("Error getting record:", error);
       throw error;
     } finally {
-      client.release();
+      this.release(client);
+    }
+  }
+
+  /**
+   * Undo the soft delete of a record. Returns null when the record does not
+   * exist or is not deleted.
+   */
+  async restore(
+    id: number | string | null | undefined
+  ): Promise<string | number | null | undefined> {
+    if (!this.auditLog) {
+      throw new Error(`Auditing is not enabled for ${this.tableName}`);
+    }
+    if (!id) {
+      throw new Error("ID is required for restore operation");
+    }
+    if (!this.recording) {
+      return await this.recorded(id, (tx) => tx.restore(id));
+    }
+
+    const result = await this.query(
+      `UPDATE ${this.table} SET ${await this.softDeleteSet("NULL")}
+       WHERE id = $1 AND deleted_at IS NOT NULL
+       RETURNING id`,
+      [id]
+    );
+    return result.rows[0]?.id || null;
+  }
+
+  /**
+   * Every recorded change to a record, oldest first
+   */
+  async history(id: number | string): Promise<AuditEntry[]> {
+    if (!this.auditLog) {
+      throw new Error(`Auditing is not enabled for ${this.tableName}`);
     }
+
+    const log = this.transactionClient
+      ? this.enlist(this.auditLog)
+      : this.auditLog;
+    const page = await log.findMany({
+      filter: { table_name: this.tableName, record_id: String(id) },
+      sort: { created_at: "asc" },
+    });
+    return page.items;
+  }
+
+  /**
+   * A copy of this persistence that records `actor` in the audit entries
+   * of its writes
+   */
+  withActor(actor: string): this {
+    const handle = Object.create(this) as this;
+    handle.actor = actor;
+    return handle;
+  }
+
+  /**
+   * Find records matching a backend-neutral query
+   */
+  async findMany(query: FindQuery<T> = {}): Promise<FindPage<T>> {
+    checkPaging(query);
+
+    const params: unknown[] = [];
+    const conditions = this.liveConditions(query.filter ?? {}, params);
+    const sort = sortFields(query, "id");
+    await this.checkColumns([
+      ...Object.keys(query.filter ?? {}),
+      ...sort.map(([field]) => field),
+    ]);
+    if (query.cursor) {
+      conditions.push(
+        afterCursor(sort, decodeCursor(query.cursor, sort.length), params)
+      );
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const orderBy = sort
+      .map(
+        ([field, direction]) =>
+          `${quote(field)} ${
+            direction === "asc" ? "ASC NULLS FIRST" : "DESC NULLS LAST"
+          }`
+      )
+      .join(", ");
+
+    let sql = `SELECT * FROM ${this.table} ${where} ORDER BY ${orderBy}`;
+    if (query.limit !== undefined) {
+      // One extra row tells whether there is a next page
+      params.push(query.limit + 1);
+      sql += ` LIMIT $${params.length}`;
+    }
+    if (query.offset) {
+      params.push(query.offset);
+      sql += ` OFFSET $${params.length}`;
+    }
+
+    const result = await this.query(sql, params);
+    return toPage(
+      result.rows as T[],
+      query.limit,
+      sort,
+      (row, field) => (row as Record<string, any>)[field]
+    );
+  }
+
+  /**
+   * Count records matching a backend-neutral filter
+   */
+  async countMany(filter: Filter<T> = {}): Promise<number> {
+    const params: unknown[] = [];
+    const conditions = this.liveConditions(filter, params);
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    await this.checkColumns(Object.keys(filter));
+
+    const result = await this.query(
+      `SELECT COUNT(*)::int AS count FROM ${this.table} ${where}`,
+      params
+    );
+    return result.rows[0]?.count ?? 0;
   }
 
   /**
    * Execute a custom query
    */
   async query(query: string, params?: any[]): Promise<QueryResult> {
-    const client = await this.pool.connect();
+    const client = await this.acquire();
     try {
       const result = await client.query(query, params);
       return result;
     } catch (error) {
       console.error("Error executing query:", error);
       throw error;
+    } finally {
+      this.release(client);
+    }
+  }
+
+  /**
+   * Run a callback in a transaction. The handle passed to the callback runs
+   * every query on the transaction's client; the transaction commits when
+   * the callback resolves and rolls back when it throws. Called on a
+   * transaction handle, the callback joins the open transaction.
+   */
+  async withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R> {
+    if (this.transactionClient) {
+      return await fn(this);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      let result: R;
+      try {
+        result = await fn(this.bound(client));
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+      await client.query("COMMIT");
+      return result;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Bind another table to this handle's transaction. The other persistence
+   * must point at the same database.
+   */
+  enlist<U extends Record<string, any>>(
+    other: Persistence<U>
+  ): PostgresPersistence<U> {
+    if (!this.transactionClient) {
+      throw new Error("enlist() can only be called on a transaction handle");
+    }
+    if (!(other instanceof PostgresPersistence)) {
+      throw new Error(
+        "Only PostgreSQL persistence can join a PostgreSQL transaction"
+      );
+    }
+
+    return (other as PostgresPersistence<U>).bound(this.transactionClient);
+  }
+
   /**
    * Get a client from the pool for transaction management
    */
@@ -220,10 +602,264 @@ export class PostgresPersistence<T> implements Persistence<T> {
   }
 
   /**
-   * Close the connection pool
+   * Forget the cached column list, e.g. after a migration added a column
+   * while the service was running
+   */
+  clearColumnCache(): void {
+    this.columnCache.columns = null;
+  }
+
+  /**
+   * A copy of this persistence that runs every query on `client`
+   */
+  private bound(client: PoolClient): this {
+    const tx = Object.create(this) as this;
+    tx.transactionClient = client;
+    return tx;
+  }
+
+  /**
+   * The transaction's client on a transaction handle, otherwise a client
+   * from the pool
+   */
+  private async acquire(): Promise<PoolClient> {
+    return this.transactionClient ?? (await this.pool.connect());
+  }
+
+  /**
+   * Return a client taken with acquire(); the transaction's client stays
+   * checked out until the transaction ends
+   */
+  private release(client: PoolClient): void {
+    if (client !== this.transactionClient) {
+      client.release();
+    }
+  }
+
+  /**
+   * Whether writes go through recorded(), for an audit entry or an outbox
+   * event
+   */
+  private recordsChanges(): boolean {
+    return this.auditLog !== null || this.outbox !== null;
+  }
+
+  /**
+   * Run `write` in a transaction together with the audit entry and the
+   * outbox event for the change it makes to record `id` (null for a
+   * create)
+   */
+  private async recorded(
+    id: number | string | null,
+    write: (tx: this) => Promise<string | number | null | undefined>
+  ): Promise<string | number | null | undefined> {
+    return await this.withTransaction(async (tx) => {
+      const before = id ? await tx.lockedRow(id) : null;
+
+      const writer = Object.create(tx) as this;
+      writer.recording = true;
+      const recordId = await write(writer);
+      if (!recordId) {
+        return recordId;
+      }
+
+      const after = await tx.lockedRow(recordId);
+      if (this.auditLog) {
+        const entry = auditEntry(
+          this.tableName,
+          recordId,
+          tx.actor,
+          before,
+          after
+        );
+        if (entry) {
+          await tx.enlist(this.auditLog).create(entry);
+        }
+      }
+      if (this.outbox) {
+        await tx
+          .enlist(this.outbox)
+          .create(recordChange(this.tableName, recordId, before, after));
+      }
+      return recordId;
+    });
+  }
+
+  /**
+   * A row as stored, deleted or not, locked until the transaction ends
+   */
+  private async lockedRow(
+    id: number | string
+  ): Promise<Record<string, any> | null> {
+    const result = await this.query(
+      `SELECT * FROM ${this.table} WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * A bulk item validated as a create, ready to insert
+   * @throws {SchemaValidationError} When it does not match the schema
+   * @throws {InvalidIdentifierError} When it names an unknown column
+   */
+  private async insertableRecord(item: T): Promise<Record<string, any>> {
+    const { id, ...fields } = validateWrite(
+      this.schema,
+      this.tableName,
+      item,
+      "create"
+    ) as Record<string, any>;
+    const record = id ? { id, ...fields } : fields;
+    if (this.versioned) {
+      record[VERSION_FIELD] = 1;
+    }
+    await this.checkColumns(Object.keys(record));
+    return record;
+  }
+
+  /**
+   * Insert checked bulk items with a multi-row INSERT per group of rows,
+   * updating those whose ID already exists when `upsert` is set, and fill
+   * in their results
+   */
+  private async insertRows(
+    accepted: BulkItem[],
+    results: BulkResult[],
+    upsert: boolean
+  ): Promise<void> {
+    for (const { columns, items } of groupRows(accepted)) {
+      const params: unknown[] = [];
+      const rows = items.map(
+        ({ record }) =>
+          `(${columns.map((col) => bind(params, record[col])).join(", ")})`
+      );
+      const updates = columns
+        .filter((col) => col !== "id")
+        .map((col) => `${quote(col)} = EXCLUDED.${quote(col)}`);
+
+      const result = await this.query(
+        `
+        INSERT INTO ${this.table} (${columns.map(quote).join(", ")})
+        VALUES ${rows.join(", ")}
+        ${upsert ? `ON CONFLICT (id) DO UPDATE SET ${updates.join(", ")}` : ""}
+        RETURNING id
+      `,
+        params
+      );
+
+      // Rows come back in the order of the VALUES list
+      items.forEach(({ index }, row) => {
+        results[index] = { id: result.rows[row]?.id ?? null };
+      });
+    }
+  }
+
+  /**
+   * After a versioned write matched no row, tells a stale version apart
+   * from a missing record
+   * @throws {VersionConflictError} When the record exists at another version
+   */
+  private async checkStoredVersion(
+    client: PoolClient,
+    id: number | string,
+    expected: number | undefined
+  ): Promise<void> {
+    if (expected === undefined) {
+      return;
+    }
+    const result = await client.query(
+      `SELECT version FROM ${this.table} WHERE id = $1${this.live}`,
+      [id]
+    );
+    checkVersion(this.tableName, id, expected, result.rows[0]);
+  }
+
+  /**
+   * The WHERE conditions of a filter, hiding deleted rows unless the filter
+   * asks about `deleted_at` itself
+   */
+  private liveConditions(filter: Filter<T>, params: unknown[]): string[] {
+    const conditions = whereConditions(filter, params);
+    if (this.auditLog && !("deleted_at" in filter)) {
+      conditions.push("deleted_at IS NULL");
+    }
+    return conditions;
+  }
+
+  /**
+   * Rejects fields that are not columns of the table, so that request
+   * bodies passed through verbatim cannot name arbitrary columns. The
+   * column list is read once from information_schema, on `client` when
+   * given.
+   * @throws {InvalidIdentifierError} When a field is not a column
+   */
+  private async checkColumns(
+    fields: string[],
+    client?: PoolClient
+  ): Promise<void> {
+    const columns = await this.tableColumns(client);
+    for (const field of fields) {
+      if (!columns.has(field)) {
+        throw new InvalidIdentifierError(
+          `Unknown column ${field} in table ${this.tableName}`,
+          field
+        );
+      }
+    }
+  }
+
+  /**
+   * The table's columns, looked up once and cached
+   * @throws {InvalidIdentifierError} When the table does not exist
+   */
+  private async tableColumns(client?: PoolClient): Promise<Set<string>> {
+    let columns = this.columnCache.columns;
+    if (!columns) {
+      const [schema, table] = splitTableName(this.tableName);
+      const sql = `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = COALESCE($1, current_schema()) AND table_name = $2`;
+      const result = client
+        ? await client.query(sql, [schema, table])
+        : await this.query(sql, [schema, table]);
+      if (result.rows.length === 0) {
+        throw new InvalidIdentifierError(
+          `Table ${this.tableName} does not exist`,
+          this.tableName
+        );
+      }
+
+      columns = new Set(result.rows.map((row) => row.column_name as string));
+      this.columnCache.columns = columns;
+    }
+    return columns;
+  }
+
+  /**
+   * The SET clause of a soft delete or restore: `deleted_at` becomes
+   * `deletedAt`, and like any other write it touches `updated_at`, when the
+   * table has one, and bumps the version
+   */
+  private async softDeleteSet(
+    deletedAt: "NOW()" | "NULL",
+    client?: PoolClient
+  ): Promise<string> {
+    const columns = await this.tableColumns(client);
+    return [`deleted_at = ${deletedAt}`]
+      .concat(columns.has("updated_at") ? ["updated_at = NOW()"] : [])
+      .concat(this.versioned ? ["version = version + 1"] : [])
+      .join(", ");
+  }
+
+  /**
+   * Close the connection pool, and those of the audit history and outbox
    */
   async close(): Promise<void> {
-    await this.pool.end();
+    await Promise.all([
+      this.pool.end(),
+      this.auditLog?.close(),
+      this.outbox?.close(),
+    ]);
   }
 
   /**
@@ -231,9 +867,12 @@ export class PostgresPersistence<T> implements Persistence<T> {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const client = await this.pool.connect();
-      await client.query("SELECT 1");
-      client.release();
+      const client = await this.acquire();
+      try {
+        await client.query("SELECT 1");
+      } finally {
+        this.release(client);
+      }
       return true;
     } catch (error) {
       console.error("Database health check failed:", error);
@@ -241,3 +880,147 @@ export class PostgresPersistence<T> implements Persistence<T> {
     }
   }
 }
+
+const COMPARISONS = { gt: ">", gte: ">=", lt: "<", lte: "<=" } as const;
+
+/** Most parameters PostgreSQL accepts in one statement */
+const MAX_PARAMETERS = 65535;
+
+/**
+ * Splits bulk rows into groups that can share one INSERT: rows with the
+ * same columns, within the parameter limit, and without a repeated ID,
+ * since one statement cannot upsert a row twice
+ */
+function groupRows(
+  items: BulkItem[]
+): { columns: string[]; items: BulkItem[] }[] {
+  const groups: {
+    key: string;
+    columns: string[];
+    ids: Set<string>;
+    items: BulkItem[];
+  }[] = [];
+
+  for (const item of items) {
+    const columns = Object.keys(item.record);
+    const key = [...columns].sort().join(",");
+    const id = "id" in item.record ? String(item.record["id"]) : null;
+
+    let group = groups.find(
+      (candidate) =>
+        candidate.key === key &&
+        (candidate.items.length + 1) * columns.length <= MAX_PARAMETERS &&
+        (id === null || !candidate.ids.has(id))
+    );
+    if (!group) {
+      group = { key, columns, ids: new Set(), items: [] };
+      groups.push(group);
+    }
+    if (id !== null) {
+      group.ids.add(id);
+    }
+    group.items.push(item);
+  }
+  return groups;
+}
+
+function idOf(data: unknown): number | string | null {
+  return (data as Record<string, any>)["id"] ?? null;
+}
+
+/**
+ * A field name quoted as a column, usable as a map callback
+ */
+function quote(field: string): string {
+  return quoteIdentifier(field);
+}
+
+/**
+ * Adds a query parameter and returns its placeholder.
+ */
+function bind(params: unknown[], value: unknown): string {
+  params.push(value);
+  return `$${params.length}`;
+}
+
+function whereConditions(filter: Filter<any>, params: unknown[]): string[] {
+  const conditions: string[] = [];
+  for (const [field, value] of Object.entries(filter)) {
+    const col = quote(field);
+    const { eq, ne, in: oneOf, ...ranges } = conditionsOf(value);
+
+    if (eq !== undefined) {
+      conditions.push(
+        eq === null ? `${col} IS NULL` : `${col} = ${bind(params, eq)}`
+      );
+    }
+    if (ne !== undefined) {
+      conditions.push(
+        ne === null
+          ? `${col} IS NOT NULL`
+          : `${col} IS DISTINCT FROM ${bind(params, ne)}`
+      );
+    }
+    for (const [op, bound] of Object.entries(ranges)) {
+      if (bound !== undefined) {
+        conditions.push(
+          `${col} ${COMPARISONS[op as keyof typeof COMPARISONS]} ${bind(
+            params,
+            bound
+          )}`
+        );
+      }
+    }
+    if (oneOf !== undefined) {
+      const values = oneOf.filter((item) => item !== null);
+      const alternatives = values.length
+        ? [`${col} = ANY(${bind(params, values)})`]
+        : [];
+      if (values.length < oneOf.length) {
+        alternatives.push(`${col} IS NULL`);
+      }
+      conditions.push(
+        alternatives.length ? `(${alternatives.join(" OR ")})` : "FALSE"
+      );
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Keyset condition selecting the rows that sort after the cursor position.
+ * Nulls sort first in ascending and last in descending order, matching
+ * MongoDB.
+ */
+function afterCursor(
+  sort: [string, SortDirection][],
+  values: unknown[],
+  params: unknown[]
+): string {
+  const branches = sort.flatMap(([field, direction], index) => {
+    const value = values[index];
+    const col = quote(field);
+    const beyond =
+      direction === "asc"
+        ? value === null
+          ? `${col} IS NOT NULL`
+          : `${col} > ${bind(params, value)}`
+        : value === null
+        ? null
+        : `(${col} < ${bind(params, value)} OR ${col} IS NULL)`;
+    if (beyond === null) {
+      return [];
+    }
+
+    const ties = sort.slice(0, index).map(([tied], tieIndex) => {
+      const tieValue = values[tieIndex];
+      return tieValue === null
+        ? `${quote(tied)} IS NULL`
+        : `${quote(tied)} = ${bind(params, tieValue)}`;
+    });
+    return [`(${[...ties, beyond].join(" AND ")})`];
+  });
+
+  return branches.length ? `(${branches.join(" OR ")})` : "FALSE";
+}
@@ -0,0 +1,665 @@
+import Database from "better-sqlite3";
+import {
+  BulkResult,
+  Filter,
+  FindPage,
+  FindQuery,
+  Persistence,
+  PersistenceOptions,
+  SortDirection,
+} from "../Persistence";
+import {
+  checkPaging,
+  conditionsOf,
+  decodeCursor,
+  sortFields,
+  toPage,
+} from "../query";
+import { InvalidIdentifierError, quoteIdentifier } from "../identifiers";
+import { EntitySchema, validateWrite } from "../schema";
+import { requireId, writeEach } from "../bulk";
+import { checkVersion, takeVersion, VERSION_FIELD } from "../versioning";
+import { fetchEnvVar } from "../../utils";
+
+export interface SqliteConfig {
+  /** Path of the database file; ":memory:" for a throwaway database */
+  filename?: string;
+  readonly?: boolean;
+  /** How long to wait for another process's lock, in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * One open database file, shared by every SqlitePersistence using it so
+ * that a transaction never waits on a lock held by the same process.
+ */
+interface Connection {
+  db: Database.Database;
+  users: number;
+  /** Settles when the open transaction ends; null when there is none */
+  transaction: Promise<void> | null;
+}
+
+const connections = new Map<string, Connection>();
+
+export class SqlitePersistence<T> implements Persistence<T> {
+  private connection: Connection;
+  private filename: string;
+  private tableName: string;
+  /** The table name quoted for SQL */
+  private table: string;
+  /**
+   * The table's columns, loaded from PRAGMA table_info on first use.
+   * Shared with transaction handles.
+   */
+  private columnCache: { columns: Set<string> | null } = { columns: null };
+  /** Writes are validated against this schema when given */
+  private schema: EntitySchema<T> | undefined;
+  /** Whether records carry a version checked and bumped by every write */
+  private versioned: boolean;
+  /** Set on handles bound to the open transaction */
+  private inTransaction: boolean = false;
+
+  constructor(
+    tableName: string,
+    config?: SqliteConfig,
+    options: PersistenceOptions<T> = {}
+  ) {
+    this.tableName = tableName;
+    this.table = quoteIdentifier(tableName, "table");
+    this.schema = options.schema;
+    this.versioned = options.versioned ?? false;
+    if (options.audit) {
+      throw new Error("Auditing is not supported by SQLite persistence");
+    }
+    if (options.outbox) {
+      throw new Error("The outbox is not supported by SQLite persistence");
+    }
+
+    // Default configuration with environment variable fallbacks
+    const defaultConfig: SqliteConfig = {
+      filename: fetchEnvVar("SQLITE_FILE", "atomic-void.db"),
+      readonly: false,
+      timeout: 5000,
+    };
+
+    const finalConfig = { ...defaultConfig, ...config };
+    this.filename = finalConfig.filename ?? "atomic-void.db";
+
+    const existing = connections.get(this.filename);
+    if (existing) {
+      existing.users++;
+      this.connection = existing;
+      return;
+    }
+
+    const db = new Database(this.filename, {
+      readonly: finalConfig.readonly ?? false,
+      timeout: finalConfig.timeout ?? 5000,
+    });
+    if (!finalConfig.readonly) {
+      // WAL lets readers carry on while a write is in progress
+      db.pragma("journal_mode = WAL");
+    }
+    db.pragma("foreign_keys = ON");
+
+    this.connection = { db, users: 1, transaction: null };
+    connections.set(this.filename, this.connection);
+  }
+
+  /**
+   * Create a new record in the database
+   */
+  async create(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    if (this.versioned) {
+      data = { ...data, [VERSION_FIELD]: 1 };
+    }
+    return await this.run((db) => {
+      const entries = Object.entries(data as Record<string, any>);
+      this.checkColumns(db, Object.keys(data as Record<string, any>));
+      const columns = entries.map(([col]) => quote(col));
+      const placeholders = entries.map(() => "?").join(", ");
+
+      const row = db
+        .prepare(
+          `INSERT INTO ${this.table} (${columns.join(", ")})
+           VALUES (${placeholders})
+           RETURNING id`
+        )
+        .get(...entries.map(([, value]) => toSqlite(value))) as
+        | { id: number | string }
+        | undefined;
+      return row?.id || null;
+    }, "Error creating record:");
+  }
+
+  /**
+   * Update an existing record in the database
+   */
+  async update(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "update");
+    return await this.run((db) => {
+      const { id, ...updateData } = data as Record<string, any>;
+
+      if (!id) {
+        throw new Error("ID is required for update operation");
+      }
+
+      const expected = this.versioned ? takeVersion(updateData) : undefined;
+      const entries = Object.entries(updateData);
+      this.checkColumns(db, Object.keys(updateData));
+      const setClause = entries
+        .map(([col]) => `${quote(col)} = ?`)
+        .concat(this.versioned ? ["version = version + 1"] : [])
+        .join(", ");
+      const params = [...entries.map(([, value]) => toSqlite(value)), id];
+      if (expected !== undefined) {
+        params.push(expected);
+      }
+
+      const row = db
+        .prepare(
+          `UPDATE ${this.table}
+           SET ${setClause}
+           WHERE id = ?${expected !== undefined ? " AND version = ?" : ""}
+           RETURNING id`
+        )
+        .get(...params) as { id: number | string } | undefined;
+      if (!row) {
+        this.checkStoredVersion(db, id, expected);
+      }
+      return row?.id || null;
+    }, "Error updating record:");
+  }
+
+  /**
+   * Insert or update a record (upsert)
+   */
+  async upsert(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.tableName, data, "create");
+    const { id, ...upsertData } = data as Record<string, any>;
+
+    if (!id) {
+      // If no ID provided, treat as create
+      return this.create(data);
+    }
+
+    return await this.run((db) => {
+      const expected = this.versioned ? takeVersion(upsertData) : undefined;
+      const entries = Object.entries(upsertData);
+      this.checkColumns(db, Object.keys(upsertData));
+      const columns = entries.map(([col]) => quote(col));
+      const setClause = columns
+        .map((col) => `${col} = excluded.${col}`)
+        .concat(this.versioned ? ["version = version + 1"] : [])
+        .join(", ");
+      const params = [id, ...entries.map(([, value]) => toSqlite(value))];
+      if (this.versioned) {
+        columns.push(quote(VERSION_FIELD));
+        params.push(1);
+      }
+      if (expected !== undefined) {
+        params.push(expected);
+      }
+
+      const row = db
+        .prepare(
+          `INSERT INTO ${this.table} (id, ${columns.join(", ")})
+           VALUES (?, ${columns.map(() => "?").join(", ")})
+           ON CONFLICT (id) DO UPDATE SET
+           ${setClause}
+           ${expected !== undefined ? "WHERE version = ?" : ""}
+           RETURNING id`
+        )
+        .get(...params) as { id: number | string } | undefined;
+      if (!row) {
+        this.checkStoredVersion(db, id, expected);
+      }
+      return row?.id || null;
+    }, "Error upserting record:");
+  }
+
+  /**
+   * Delete a record from the database
+   */
+  async delete(data: T): Promise<string | number | null | undefined> {
+    return await this.run((db) => {
+      const { id } = data as Record<string, any>;
+
+      if (!id) {
+        throw new Error("ID is required for delete operation");
+      }
+
+      const row = db
+        .prepare(`DELETE FROM ${this.table} WHERE id = ? RETURNING id`)
+        .get(id) as { id: number | string } | undefined;
+      return row?.id || null;
+    }, "Error deleting record:");
+  }
+
+  /**
+   * Create many records in one transaction, which SQLite commits far faster
+   * than one transaction per record. Item errors are reported in the
+   * results; any other error rolls back the whole batch.
+   */
+  async createMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.create(item))
+    );
+  }
+
+  /**
+   * Insert or update many records, like createMany()
+   */
+  async upsertMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.upsert(item))
+    );
+  }
+
+  /**
+   * Delete many records, like createMany()
+   */
+  async deleteMany(items: T[]): Promise<BulkResult[]> {
+    return await this.withTransaction((tx) =>
+      writeEach(items, (item) => tx.delete(requireId(item, "delete")))
+    );
+  }
+
+  /**
+   * Get a record by ID
+   */
+  async get(id: number | string | null | undefined): Promise<T | null> {
+    if (!id) {
+      return null;
+    }
+
+    return await this.run((db) => {
+      const row = db
+        .prepare(`SELECT * FROM ${this.table} WHERE id = ?`)
+        .get(id);
+      return (row as T) || null;
+    }, "Error getting record:");
+  }
+
+  /**
+   * Find records matching a backend-neutral query
+   */
+  async findMany(query: FindQuery<T> = {}): Promise<FindPage<T>> {
+    checkPaging(query);
+
+    const params: unknown[] = [];
+    const conditions = whereConditions(query.filter ?? {}, params);
+    const sort = sortFields(query, "id");
+    await this.run(
+      (db) =>
+        this.checkColumns(db, [
+          ...Object.keys(query.filter ?? {}),
+          ...sort.map(([field]) => field),
+        ]),
+      "Error finding records:"
+    );
+    if (query.cursor) {
+      conditions.push(
+        afterCursor(sort, decodeCursor(query.cursor, sort.length), params)
+      );
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const orderBy = sort
+      .map(
+        ([field, direction]) =>
+          `${quote(field)} ${
+            direction === "asc" ? "ASC NULLS FIRST" : "DESC NULLS LAST"
+          }`
+      )
+      .join(", ");
+
+    let sql = `SELECT * FROM ${this.table} ${where} ORDER BY ${orderBy}`;
+    if (query.limit !== undefined) {
+      // One extra row tells whether there is a next page
+      sql += " LIMIT ?";
+      params.push(query.limit + 1);
+    } else if (query.offset) {
+      // SQLite only accepts OFFSET after a LIMIT
+      sql += " LIMIT -1";
+    }
+    if (query.offset) {
+      sql += " OFFSET ?";
+      params.push(query.offset);
+    }
+
+    const rows = await this.query(sql, params);
+    return toPage(
+      rows as T[],
+      query.limit,
+      sort,
+      (row, field) => (row as Record<string, any>)[field]
+    );
+  }
+
+  /**
+   * Count records matching a backend-neutral filter
+   */
+  async countMany(filter: Filter<T> = {}): Promise<number> {
+    await this.run(
+      (db) => this.checkColumns(db, Object.keys(filter)),
+      "Error counting records:"
+    );
+    const params: unknown[] = [];
+    const conditions = whereConditions(filter, params);
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const rows = await this.query(
+      `SELECT COUNT(*) AS count FROM ${this.table} ${where}`,
+      params
+    );
+    return (rows[0] as { count?: number } | undefined)?.count ?? 0;
+  }
+
+  /**
+   * Execute a custom query and return its rows. Statements that return no
+   * rows give an empty array.
+   */
+  async query(query: string, params: unknown[] = []): Promise<unknown[]> {
+    return await this.run((db) => {
+      const statement = db.prepare(query);
+      const values = params.map(toSqlite);
+      if (statement.reader) {
+        return statement.all(...values);
+      }
+      statement.run(...values);
+      return [];
+    }, "Error executing query:");
+  }
+
+  /**
+   * Run a callback in a transaction. The handle passed to the callback runs
+   * every statement in the transaction, which commits when the callback
+   * resolves and rolls back when it throws. Other handles on the same file
+   * wait until it ends. Called on a transaction handle, the callback joins
+   * the open transaction.
+   */
+  async withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R> {
+    if (this.inTransaction) {
+      return await fn(this);
+    }
+
+    // Checked and claimed without yielding in between, so two transactions
+    // never begin at once
+    while (this.connection.transaction) {
+      await this.connection.transaction;
+    }
+    let end = () => {};
+    this.connection.transaction = new Promise((resolve) => (end = resolve));
+    try {
+      this.connection.db.exec("BEGIN IMMEDIATE");
+      let result: R;
+      try {
+        result = await fn(this.bound());
+      } catch (error) {
+        this.connection.db.exec("ROLLBACK");
+        throw error;
+      }
+      this.connection.db.exec("COMMIT");
+      return result;
+    } finally {
+      this.connection.transaction = null;
+      end();
+    }
+  }
+
+  /**
+   * Bind another table in the same database file to this handle's
+   * transaction
+   */
+  enlist<U extends Record<string, any>>(
+    other: Persistence<U>
+  ): SqlitePersistence<U> {
+    if (!this.inTransaction) {
+      throw new Error("enlist() can only be called on a transaction handle");
+    }
+    if (!(other instanceof SqlitePersistence)) {
+      throw new Error("Only SQLite persistence can join a SQLite transaction");
+    }
+    if (other.connection !== this.connection) {
+      throw new Error(
+        `Cannot enlist a table from ${other.filename} in a transaction on ${this.filename}`
+      );
+    }
+
+    return (other as SqlitePersistence<U>).bound();
+  }
+
+  /**
+   * Forget the cached column list, e.g. after a migration added a column
+   * while the service was running
+   */
+  clearColumnCache(): void {
+    this.columnCache.columns = null;
+  }
+
+  /**
+   * Close the database file once no other instance uses it
+   */
+  async close(): Promise<void> {
+    this.connection.users--;
+    if (this.connection.users === 0) {
+      this.connection.db.close();
+      connections.delete(this.filename);
+    }
+  }
+
+  /**
+   * Health check for the database file
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      this.connection.db.prepare("SELECT 1").get();
+      return true;
+    } catch (error) {
+      console.error("Database health check failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Rejects fields that are not columns of the table, so that request
+   * bodies passed through verbatim cannot name arbitrary columns
+   * @throws {InvalidIdentifierError} When a field is not a column
+   */
+  private checkColumns(db: Database.Database, fields: string[]): void {
+    const columns = this.tableColumns(db);
+    for (const field of fields) {
+      if (!columns.has(field)) {
+        throw new InvalidIdentifierError(
+          `Unknown column ${field} in table ${this.tableName}`,
+          field
+        );
+      }
+    }
+  }
+
+  /**
+   * The table's columns, looked up once and cached
+   * @throws {InvalidIdentifierError} When the table does not exist
+   */
+  private tableColumns(db: Database.Database): Set<string> {
+    let columns = this.columnCache.columns;
+    if (!columns) {
+      const rows = db
+        .prepare("SELECT name FROM pragma_table_info(?)")
+        .all(this.tableName) as { name: string }[];
+      if (rows.length === 0) {
+        throw new InvalidIdentifierError(
+          `Table ${this.tableName} does not exist`,
+          this.tableName
+        );
+      }
+
+      columns = new Set(rows.map((row) => row.name));
+      this.columnCache.columns = columns;
+    }
+    return columns;
+  }
+
+  /**
+   * After a versioned write matched no row, tells a stale version apart
+   * from a missing record
+   * @throws {VersionConflictError} When the record exists at another version
+   */
+  private checkStoredVersion(
+    db: Database.Database,
+    id: number | string,
+    expected: number | undefined
+  ): void {
+    if (expected === undefined) {
+      return;
+    }
+    const row = db
+      .prepare(`SELECT version FROM ${this.table} WHERE id = ?`)
+      .get(id) as Record<string, any> | undefined;
+    checkVersion(this.tableName, id, expected, row);
+  }
+
+  /**
+   * A copy of this persistence that runs inside the open transaction
+   */
+  private bound(): this {
+    const tx = Object.create(this) as this;
+    tx.inTransaction = true;
+    return tx;
+  }
+
+  /**
+   * Run a statement on the shared connection, outside any transaction
+   * unless this is a transaction handle
+   */
+  private async run<R>(
+    fn: (db: Database.Database) => R,
+    message: string
+  ): Promise<R> {
+    while (!this.inTransaction && this.connection.transaction) {
+      await this.connection.transaction;
+    }
+
+    try {
+      return fn(this.connection.db);
+    } catch (error) {
+      console.error(message, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * SQLite stores no dates or booleans, so they are written as ISO strings
+ * and 0/1.
+ */
+function toSqlite(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  return value === undefined ? null : value;
+}
+
+const COMPARISONS = { gt: ">", gte: ">=", lt: "<", lte: "<=" } as const;
+
+/**
+ * A field name quoted as a column, usable as a map callback
+ */
+function quote(field: string): string {
+  return quoteIdentifier(field);
+}
+
+/**
+ * Adds a query parameter and returns its placeholder. Placeholders are
+ * positional, so parameters must be bound in the order they appear.
+ */
+function bind(params: unknown[], value: unknown): string {
+  params.push(toSqlite(value));
+  return "?";
+}
+
+function whereConditions(filter: Filter<any>, params: unknown[]): string[] {
+  const conditions: string[] = [];
+  for (const [field, value] of Object.entries(filter)) {
+    const col = quote(field);
+    const { eq, ne, in: oneOf, ...ranges } = conditionsOf(value);
+
+    if (eq !== undefined) {
+      conditions.push(
+        eq === null ? `${col} IS NULL` : `${col} = ${bind(params, eq)}`
+      );
+    }
+    if (ne !== undefined) {
+      // IS NOT is SQLite's null-safe inequality
+      conditions.push(
+        ne === null ? `${col} IS NOT NULL` : `${col} IS NOT ${bind(params, ne)}`
+      );
+    }
+    for (const [op, bound] of Object.entries(ranges)) {
+      if (bound !== undefined) {
+        conditions.push(
+          `${col} ${COMPARISONS[op as keyof typeof COMPARISONS]} ${bind(
+            params,
+            bound
+          )}`
+        );
+      }
+    }
+    if (oneOf !== undefined) {
+      const values = oneOf.filter((item) => item !== null);
+      const alternatives = values.length
+        ? [`${col} IN (${values.map((item) => bind(params, item)).join(", ")})`]
+        : [];
+      if (values.length < oneOf.length) {
+        alternatives.push(`${col} IS NULL`);
+      }
+      conditions.push(
+        alternatives.length ? `(${alternatives.join(" OR ")})` : "0"
+      );
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Keyset condition selecting the rows that sort after the cursor position.
+ * Nulls sort first in ascending and last in descending order, matching the
+ * other backends.
+ */
+function afterCursor(
+  sort: [string, SortDirection][],
+  values: unknown[],
+  params: unknown[]
+): string {
+  const branches = sort.flatMap(([field, direction], index) => {
+    const value = values[index];
+    if (direction === "desc" && value === null) {
+      return [];
+    }
+
+    const ties = sort.slice(0, index).map(([tied], tieIndex) => {
+      const tieValue = values[tieIndex];
+      return tieValue === null
+        ? `${quote(tied)} IS NULL`
+        : `${quote(tied)} = ${bind(params, tieValue)}`;
+    });
+    const col = quote(field);
+    const beyond =
+      direction === "desc"
+        ? `(${col} < ${bind(params, value)} OR ${col} IS NULL)`
+        : value === null
+        ? `${col} IS NOT NULL`
+        : `${col} > ${bind(params, value)}`;
+    return [`(${[...ties, beyond].join(" AND ")})`];
+  });
+
+  return branches.length ? `(${branches.join(" OR ")})` : "0";
+}
@@ -1,5 +1,6 @@
 import {
   MongoClient,
+  ClientSession,
   Db,
   Collection,
   ObjectId,
@@ -8,8 +9,41 @@ import {
   DeleteResult,
   FindOptions,
   MongoClientOptions,
+  MongoBulkWriteError,
+  ChangeStream,
+  ResumeToken,
 } from "mongodb";
-import { Persistence } from "../Persistence";
+import {
+  BulkResult,
+  Filter,
+  FindPage,
+  FindQuery,
+  Persistence,
+  PersistenceOptions,
+  SortDirection,
+} from "../Persistence";
+import {
+  checkPaging,
+  conditionsOf,
+  decodeCursor,
+  sortFields,
+  toPage,
+} from "../query";
+import { EntitySchema, validateWrite } from "../schema";
+import { BulkItem, checkItems, requireId, writeEach } from "../bulk";
+import { checkVersion, takeVersion, VERSION_FIELD } from "../versioning";
+import {
+  AUDIT_ENTRY_SCHEMA,
+  AUDIT_HISTORY_TABLE,
+  AuditEntry,
+  auditEntry,
+} from "../audit";
+import {
+  OUTBOX_EVENT_SCHEMA,
+  OUTBOX_TABLE,
+  OutboxEvent,
+  recordChange,
+} from "../outbox/events";
 import { fetchEnvVar } from "../../utils";
 
 export interface MongoConfig {
@@ -36,10 +70,32 @@ export class MongoPersistence<T extends Record<string, any>>
   private db: Db;
   private collection: Collection<T>;
   private collectionName: string;
+  /** Writes are validated against this schema when given */
+  private schema: EntitySchema<T> | undefined;
+  /** Whether documents carry a version checked and bumped by every write */
+  private versioned: boolean;
   private isConnected: boolean = false;
+  /** Where changes are recorded; null unless auditing is enabled */
+  private auditLog: MongoPersistence<AuditEntry> | null = null;
+  /** Where change events are queued; null unless the outbox is enabled */
+  private outbox: MongoPersistence<OutboxEvent> | null = null;
+  /** Matches documents that are not deleted, or everything without auditing */
+  private live: Record<string, null> = {};
+  /** Recorded as the actor of audit entries */
+  private actor: string | null = null;
+  /** Set on handles that make the writes recorded() records */
+  private recording: boolean = false;
+  /** Set on handles bound to an open transaction */
+  private session: ClientSession | null = null;
 
-  constructor(collectionName: string, config?: MongoConfig) {
+  constructor(
+    collectionName: string,
+    config?: MongoConfig,
+    options: PersistenceOptions<T> = {}
+  ) {
     this.collectionName = collectionName;
+    this.schema = options.schema;
+    this.versioned = options.versioned ?? false;
 
     // Default configuration with environment variable fallbacks
     const defaultConfig: MongoConfig = {
@@ -77,6 +133,23 @@ export class MongoPersistence<T extends Record<string, any>>
     this.client = new MongoClient(uri, clientOptions);
     this.db = this.client.db(finalConfig.database);
     this.collection = this.db.collection<T>(this.collectionName);
+
+    const { audit } = options;
+    if (audit) {
+      this.auditLog = new MongoPersistence<AuditEntry>(
+        audit.historyTable ?? AUDIT_HISTORY_TABLE,
+        config,
+        { schema: AUDIT_ENTRY_SCHEMA }
+      );
+      this.live = { deleted_at: null };
+    }
+    if (options.outbox) {
+      this.outbox = new MongoPersistence<OutboxEvent>(
+        options.outbox.table ?? OUTBOX_TABLE,
+        config,
+        { schema: OUTBOX_EVENT_SCHEMA }
+      );
+    }
   }
 
   private buildConnectionUri(config: MongoConfig): string {
@@ -130,6 +203,10 @@ export class MongoPersistence<T extends Record<string, any>>
    * Create a new document in the collection
    */
   async create(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.collectionName, data, "create");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(null, (writer) => writer.create(data));
+    }
     await this.ensureConnection();
 
     try {
@@ -142,8 +219,13 @@ export class MongoPersistence<T extends Record<string, any>>
       if (!document.updated_at) {
         document.updated_at = new Date();
       }
+      if (this.versioned) {
+        document[VERSION_FIELD] = 1;
+      }
 
-      const result: InsertOneResult = await this.collection.insertOne(document);
+      const result: InsertOneResult = this.session
+        ? await this.collection.insertOne(document, { session: this.session })
+        : await this.collection.insertOne(document);
       return result.insertedId?.toString() || null;
     } catch (error) {
       console.error("Error creating document:", error);
@@ -155,6 +237,10 @@ export class MongoPersistence<T extends Record<string, any>>
    * Update an existing document in the collection
    */
   async update(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.collectionName, data, "update");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (writer) => writer.update(data));
+    }
     await this.ensureConnection();
 
     try {
@@ -173,12 +259,15 @@ export class MongoPersistence<T extends Record<string, any>>
       // Add updated timestamp
       updateData.updated_at = new Date();
 
+      const expected = this.versioned ? takeVersion(updateData) : undefined;
       const result: UpdateResult = await this.collection.updateOne(
-        { _id: objectId } as any,
-        { $set: updateData }
+        { _id: objectId, ...this.live, ...versionFilter(expected) } as any,
+        { $set: updateData, ...this.versionIncrement() } as any,
+        this.sessionOptions()
       );
 
       if (result.matchedCount === 0) {
+        await this.checkStoredVersion(objectId, documentId, expected);
         return null;
       }
 
@@ -193,6 +282,10 @@ export class MongoPersistence<T extends Record<string, any>>
    * Insert or update a document (upsert)
    */
   async upsert(data: T): Promise<string | number | null | undefined> {
+    data = validateWrite(this.schema, this.collectionName, data, "create");
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (writer) => writer.upsert(data));
+    }
     await this.ensureConnection();
 
     try {
@@ -210,17 +303,35 @@ export class MongoPersistence<T extends Record<string, any>>
       const objectId =
         typeof documentId === "string" ? new ObjectId(documentId) : documentId;
 
+      // A deleted document stays deleted until it is restored
+      if (
+        this.auditLog &&
+        (await this.storedDocument(objectId))?.["deleted_at"]
+      ) {
+        return null;
+      }
+
       // Add timestamps
       if (!upsertData.created_at) {
         upsertData.created_at = new Date();
       }
       upsertData.updated_at = new Date();
 
-      await this.collection.updateOne(
-        { _id: objectId } as any,
-        { $set: upsertData },
-        { upsert: true }
-      );
+      const expected = this.versioned ? takeVersion(upsertData) : undefined;
+      try {
+        await this.collection.updateOne(
+          { _id: objectId, ...versionFilter(expected) } as any,
+          { $set: upsertData, ...this.versionIncrement() } as any,
+          { upsert: true, ...this.sessionOptions() }
+        );
+      } catch (error) {
+        // A stale version misses the stored document, so the upsert tries
+        // to insert a second one with the same ID
+        if ((error as { code?: unknown }).code === DUPLICATE_KEY) {
+          await this.checkStoredVersion(objectId, documentId, expected);
+        }
+        throw error;
+      }
 
       return documentId.toString();
     } catch (error) {
@@ -230,9 +341,13 @@ export class MongoPersistence<T extends Record<string, any>>
   }
 
   /**
-   * Delete a document from the collection
+   * Delete a document from the collection. With auditing enabled, the
+   * document is only marked deleted and can be restored.
    */
   async delete(data: T): Promise<string | number | null | undefined> {
+    if (this.recordsChanges() && !this.recording) {
+      return await this.recorded(idOf(data), (writer) => writer.delete(data));
+    }
     await this.ensureConnection();
 
     try {
@@ -248,9 +363,23 @@ export class MongoPersistence<T extends Record<string, any>>
       const objectId =
         typeof documentId === "string" ? new ObjectId(documentId) : documentId;
 
-      const result: DeleteResult = await this.collection.deleteOne({
-        _id: objectId,
-      } as any);
+      if (this.auditLog) {
+        const now = new Date();
+        const result: UpdateResult = await this.collection.updateOne(
+          { _id: objectId, ...this.live } as any,
+          {
+            $set: { deleted_at: now, updated_at: now },
+            ...this.versionIncrement(),
+          } as any,
+          this.sessionOptions()
+        );
+        return result.matchedCount === 0 ? null : documentId.toString();
+      }
+
+      const result: DeleteResult = await this.collection.deleteOne(
+        { _id: objectId } as any,
+        this.sessionOptions()
+      );
 
       if (result.deletedCount === 0) {
         return null;
@@ -263,6 +392,121 @@ export class MongoPersistence<T extends Record<string, any>>
     }
   }
 
+  /**
+   * Create many documents with one unordered bulkWrite. Documents MongoDB
+   * rejects, such as duplicate keys, are reported in the results like item
+   * errors, and the rest are still written. Audited collections, and
+   * collections with an outbox, are written document by document in one
+   * transaction, which needs a replica set.
+   */
+  async createMany(items: T[]): Promise<BulkResult[]> {
+    if (this.recordsChanges()) {
+      return await this.withTransaction((tx) =>
+        writeEach(items, (item) => tx.create(item))
+      );
+    }
+
+    const { results, accepted } = await checkItems(items, (item) => ({
+      insertOne: { document: this.insertableDocument(item) },
+    }));
+    await this.bulkWrite(accepted, results);
+    return results;
+  }
+
+  /**
+   * Insert or update many documents, like createMany(). Audited and
+   * versioned collections, and collections with an outbox, are written
+   * document by document, in one transaction when changes are recorded.
+   */
+  async upsertMany(items: T[]): Promise<BulkResult[]> {
+    if (this.recordsChanges()) {
+      return await this.withTransaction((tx) =>
+        writeEach(items, (item) => tx.upsert(item))
+      );
+    }
+    if (this.versioned) {
+      return await writeEach(items, (item) => this.upsert(item));
+    }
+
+    const { results, accepted } = await checkItems(items, (item) => {
+      const { _id, id, ...upsertData } = validateWrite(
+        this.schema,
+        this.collectionName,
+        item,
+        "create"
+      ) as Record<string, any>;
+      const documentId = _id || id;
+      if (!documentId) {
+        return { insertOne: { document: this.insertableDocument(item) } };
+      }
+
+      return {
+        updateOne: {
+          filter: { _id: toObjectId(documentId) },
+          update: {
+            $set: {
+              ...upsertData,
+              created_at: upsertData["created_at"] || new Date(),
+              updated_at: new Date(),
+            },
+          },
+          upsert: true,
+        },
+      };
+    });
+    await this.bulkWrite(accepted, results);
+    return results;
+  }
+
+  /**
+   * Delete many documents with one deleteMany. Items without an ID are
+   * reported in the results, and so are documents that do not exist, with
+   * a null ID. Audited collections, and collections with an outbox, delete
+   * documents one by one, in one transaction.
+   */
+  async deleteMany(items: T[]): Promise<BulkResult[]> {
+    if (this.recordsChanges()) {
+      return await this.withTransaction((tx) =>
+        writeEach(items, (item) => tx.delete(requireId(item, "delete")))
+      );
+    }
+
+    const { results, accepted } = await checkItems(
+      items,
+      (item) => requireId(item, "delete") as Record<string, any>
+    );
+    if (accepted.length === 0) {
+      return results;
+    }
+    await this.ensureConnection();
+
+    try {
+      const ids = accepted.map(({ record }) => toObjectId(idOf(record)));
+      const existing = await this.collection
+        .find({ _id: { $in: ids } } as any, {
+          projection: { _id: 1 },
+          ...this.sessionOptions(),
+        })
+        .toArray();
+      await this.collection.deleteMany(
+        { _id: { $in: existing.map((document) => document._id) } } as any,
+        this.sessionOptions()
+      );
+
+      const deleted = new Set(
+        existing.map((document) => document._id.toString())
+      );
+      for (const { index, record } of accepted) {
+        const documentId = String(idOf(record));
+        results[index] = { id: deleted.has(documentId) ? documentId : null };
+      }
+      return results;
+    } catch (error) {
+      console.error("Error deleting documents:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get a document by ID
    */
@@ -277,7 +521,10 @@ export class MongoPersistence<T extends Record<string, any>>
       // Convert string ID to ObjectId if needed
       const objectId = typeof id === "string" ? new ObjectId(id) : id;
 
-      const document = await this.collection.findOne({ _id: objectId } as any);
+      const document = await this.collection.findOne(
+        { _id: objectId, ...this.live } as any,
+        this.sessionOptions()
+      );
       return (document as T) || null;
     } catch (error) {
       console.error("Error getting document:", error);
@@ -285,6 +532,66 @@ export class MongoPersistence<T extends Record<string, any>>
     }
   }
 
+  /**
+   * Undo the soft delete of a document. Returns null when the document does
+   * not exist or is not deleted.
+   */
+  async restore(
+    id: number | string | null | undefined
+  ): Promise<string | number | null | undefined> {
+    if (!this.auditLog) {
+      throw new Error(`Auditing is not enabled for ${this.collectionName}`);
+    }
+    if (!id) {
+      throw new Error("ID is required for restore operation");
+    }
+    if (!this.recording) {
+      return await this.recorded(id, (writer) => writer.restore(id));
+    }
+    await this.ensureConnection();
+
+    try {
+      const result: UpdateResult = await this.collection.updateOne(
+        { _id: toObjectId(id), deleted_at: { $ne: null } } as any,
+        {
+          $set: { deleted_at: null, updated_at: new Date() },
+          ...this.versionIncrement(),
+        } as any,
+        this.sessionOptions()
+      );
+      return result.matchedCount === 0 ? null : id.toString();
+    } catch (error) {
+      console.error("Error restoring document:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every recorded change to a document, oldest first
+   */
+  async history(id: number | string): Promise<AuditEntry[]> {
+    if (!this.auditLog) {
+      throw new Error(`Auditing is not enabled for ${this.collectionName}`);
+    }
+
+    const log = this.session ? this.enlist(this.auditLog) : this.auditLog;
+    const page = await log.findMany({
+      filter: { table_name: this.collectionName, record_id: String(id) },
+      sort: { created_at: "asc" },
+    });
+    return page.items;
+  }
+
+  /**
+   * A copy of this persistence that records `actor` in the audit entries
+   * of its writes
+   */
+  withActor(actor: string): this {
+    const handle = Object.create(this) as this;
+    handle.actor = actor;
+    return handle;
+  }
+
   /**
    * Find documents with optional query and options
    */
@@ -292,7 +599,9 @@ export class MongoPersistence<T extends Record<string, any>>
     await this.ensureConnection();
 
     try {
-      const documents = await this.collection.find(query, options).toArray();
+      const documents = await this.collection
+        .find(query, { ...options, ...this.sessionOptions() })
+        .toArray();
       return documents as T[];
     } catch (error) {
       console.error("Error finding documents:", error);
@@ -310,7 +619,10 @@ export class MongoPersistence<T extends Record<string, any>>
     await this.ensureConnection();
 
     try {
-      const document = await this.collection.findOne(query, options);
+      const document = await this.collection.findOne(query, {
+        ...options,
+        ...this.sessionOptions(),
+      });
       return (document as T) || null;
     } catch (error) {
       console.error("Error finding document:", error);
@@ -325,13 +637,135 @@ export class MongoPersistence<T extends Record<string, any>>
     await this.ensureConnection();
 
     try {
-      return await this.collection.countDocuments(query);
+      return await this.collection.countDocuments(query, this.sessionOptions());
     } catch (error) {
       console.error("Error counting documents:", error);
       throw error;
     }
   }
 
+  /**
+   * Find documents matching a backend-neutral query. Filters and sorts on
+   * `id` apply to `_id`.
+   */
+  async findMany(query: FindQuery<T> = {}): Promise<FindPage<T>> {
+    checkPaging(query);
+    await this.ensureConnection();
+
+    try {
+      const sort = sortFields(
+        {
+          sort: Object.fromEntries(
+            Object.entries(query.sort ?? {}).map(([field, direction]) => [
+              documentField(field),
+              direction,
+            ])
+          ),
+        },
+        "_id"
+      );
+      const filter = this.liveFilter(query.filter ?? {});
+      if (query.cursor) {
+        const values = decodeCursor(query.cursor, sort.length);
+        values[values.length - 1] = toObjectId(values[values.length - 1]);
+        filter["$and"] = [...(filter["$and"] ?? []), afterCursor(sort, values)];
+      }
+
+      const options: FindOptions<T> = {
+        ...this.sessionOptions(),
+        sort: Object.fromEntries(
+          sort.map(([field, direction]) => [
+            field,
+            direction === "asc" ? 1 : -1,
+          ])
+        ),
+      };
+      if (query.limit !== undefined) {
+        // One extra document tells whether there is a next page
+        options.limit = query.limit + 1;
+      }
+      if (query.offset) {
+        options.skip = query.offset;
+      }
+
+      const documents = await this.collection.find(filter, options).toArray();
+      return toPage(documents as T[], query.limit, sort, (document, field) =>
+        field === "_id" ? String(document["_id"]) : document[field]
+      );
+    } catch (error) {
+      console.error("Error finding documents:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count documents matching a backend-neutral filter
+   */
+  async countMany(filter: Filter<T> = {}): Promise<number> {
+    await this.ensureConnection();
+
+    try {
+      return await this.collection.countDocuments(
+        this.liveFilter(filter),
+        this.sessionOptions()
+      );
+    } catch (error) {
+      console.error("Error counting documents:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a callback in a multi-document transaction. The handle passed to the
+   * callback runs every operation in the transaction's session; the
+   * transaction commits when the callback resolves and aborts when it
+   * throws. Called on a transaction handle, the callback joins the open
+   * transaction. Transactions need a replica set or sharded cluster.
+   * @throws {Error} Saying so, when the server is a standalone one
+   */
+  async withTransaction<R>(fn: (tx: this) => Promise<R>): Promise<R> {
+    if (this.session) {
+      return await fn(this);
+    }
+
+    await this.ensureConnection();
+    const session = this.client.startSession();
+    try {
+      session.startTransaction();
+      let result: R;
+      try {
+        result = await fn(this.bound(session, this.client));
+      } catch (error) {
+        await session.abortTransaction();
+        throw transactionError(error, this.collectionName);
+      }
+      await session.commitTransaction();
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Bind another collection to this handle's transaction. The collection is
+   * reached through this handle's client, in the other persistence's
+   * database.
+   */
+  enlist<U extends Record<string, any>>(
+    other: Persistence<U>
+  ): MongoPersistence<U> {
+    if (!this.session) {
+      throw new Error("enlist() can only be called on a transaction handle");
+    }
+    if (!(other instanceof MongoPersistence)) {
+      throw new Error(
+        "Only MongoDB persistence can join a MongoDB transaction"
+      );
+    }
+
+    return other.bound(this.session, this.client);
+  }
+
   /**
    * Create indexes on the collection
    */
@@ -376,9 +810,25 @@ export class MongoPersistence<T extends Record<string, any>>
   }
 
   /**
-   * Close the MongoDB connection
+   * A change stream of the collection's writes, starting after the change
+   * `resumeAfter` names, or now. Updates carry the whole document and
+   * deletes the document as it was, where the collection keeps
+   * pre-images. Change streams need a replica set.
+   */
+  async watch(resumeAfter?: ResumeToken): Promise<ChangeStream<T>> {
+    await this.ensureConnection();
+    return this.collection.watch([], {
+      fullDocument: "updateLookup",
+      fullDocumentBeforeChange: "whenAvailable",
+      ...(resumeAfter === undefined ? {} : { resumeAfter }),
+    });
+  }
+
+  /**
+   * Close the MongoDB connection, and those of the audit history and outbox
    */
   async close(): Promise<void> {
+    await Promise.all([this.auditLog?.close(), this.outbox?.close()]);
     if (this.isConnected) {
       await this.client.close();
       this.isConnected = false;
@@ -400,6 +850,195 @@ export class MongoPersistence<T extends Record<string, any>>
     }
   }
 
+  /**
+   * A copy of this persistence that runs every operation in `session`,
+   * which was started on `client`
+   */
+  private bound(session: ClientSession, client: MongoClient): this {
+    const tx = Object.create(this) as this;
+    tx.session = session;
+    tx.client = client;
+    tx.db = client.db(this.db.databaseName);
+    tx.collection = tx.db.collection<T>(this.collectionName);
+    return tx;
+  }
+
+  /**
+   * Whether writes go through recorded(), for an audit entry or an outbox
+   * event
+   */
+  private recordsChanges(): boolean {
+    return this.auditLog !== null || this.outbox !== null;
+  }
+
+  /**
+   * Run `write` and record the change it makes to document `id` (null for
+   * a create). Audit entries are only atomic with the write inside
+   * withTransaction, since MongoDB transactions need a replica set; with an
+   * outbox, every write starts a transaction of its own, since a lost
+   * event would never be published.
+   */
+  private async recorded(
+    id: number | string | null,
+    write: (writer: this) => Promise<string | number | null | undefined>
+  ): Promise<string | number | null | undefined> {
+    if (this.outbox && !this.session) {
+      return await this.withTransaction((tx) => tx.recorded(id, write));
+    }
+
+    await this.ensureConnection();
+    const before = id ? await this.storedDocument(toObjectId(id)) : null;
+
+    const writer = Object.create(this) as this;
+    writer.recording = true;
+    const recordId = await write(writer);
+    if (!recordId) {
+      return recordId;
+    }
+
+    const after = await this.storedDocument(toObjectId(recordId));
+    if (this.auditLog) {
+      const entry = auditEntry(
+        this.collectionName,
+        recordId,
+        this.actor,
+        before,
+        after
+      );
+      if (entry) {
+        await (this.session
+          ? this.enlist(this.auditLog)
+          : this.auditLog
+        ).create(entry);
+      }
+    }
+    if (this.outbox) {
+      await this.enlist(this.outbox).create(
+        recordChange(this.collectionName, recordId, before, after)
+      );
+    }
+    return recordId;
+  }
+
+  /**
+   * A document as stored, deleted or not
+   */
+  private async storedDocument(
+    objectId: unknown
+  ): Promise<Record<string, any> | null> {
+    return await this.collection.findOne(
+      { _id: objectId } as any,
+      this.sessionOptions()
+    );
+  }
+
+  /**
+   * A bulk item validated as a create and stamped, ready to insert
+   * @throws {SchemaValidationError} When it does not match the schema
+   */
+  private insertableDocument(item: T): Record<string, any> {
+    const document = validateWrite(
+      this.schema,
+      this.collectionName,
+      item,
+      "create"
+    ) as Record<string, any>;
+    const now = new Date();
+    return {
+      ...document,
+      created_at: document["created_at"] || now,
+      updated_at: document["updated_at"] || now,
+      ...(this.versioned ? { [VERSION_FIELD]: 1 } : {}),
+    };
+  }
+
+  /**
+   * Run checked bulk operations in one unordered bulkWrite and fill in
+   * their results: the generated ID of an insert, the given ID of an
+   * upsert, or MongoDB's error for an operation it rejected
+   */
+  private async bulkWrite(
+    accepted: BulkItem[],
+    results: BulkResult[]
+  ): Promise<void> {
+    if (accepted.length === 0) {
+      return;
+    }
+    await this.ensureConnection();
+
+    let insertedIds: Record<number, any>;
+    const failed = new Map<number, Error>();
+    try {
+      const result = await this.collection.bulkWrite(
+        accepted.map(({ record }) => record) as any,
+        { ordered: false, ...this.sessionOptions() }
+      );
+      insertedIds = result.insertedIds;
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        console.error("Error writing documents:", error);
+        throw error;
+      }
+      for (const writeError of [error.writeErrors].flat()) {
+        failed.set(writeError.index, new Error(writeError.errmsg));
+      }
+      insertedIds = error.insertedIds;
+    }
+
+    accepted.forEach(({ index, record }, operation) => {
+      const error = failed.get(operation);
+      const id = record["insertOne"]
+        ? insertedIds[operation]
+        : record["updateOne"].filter._id;
+      results[index] = error
+        ? { id: null, error }
+        : { id: id?.toString() ?? null };
+    });
+  }
+
+  /**
+   * After a versioned write matched no document, tells a stale version
+   * apart from a missing one
+   * @throws {VersionConflictError} When the document exists at another version
+   */
+  private async checkStoredVersion(
+    objectId: unknown,
+    id: string | number,
+    expected: number | undefined
+  ): Promise<void> {
+    if (expected === undefined) {
+      return;
+    }
+    const stored = await this.collection.findOne(
+      { _id: objectId, ...this.live } as any,
+      this.sessionOptions()
+    );
+    checkVersion(this.collectionName, String(id), expected, stored);
+  }
+
+  /**
+   * The update operator that bumps the version, if documents carry one
+   */
+  private versionIncrement(): { $inc?: Record<string, number> } {
+    return this.versioned ? { $inc: { [VERSION_FIELD]: 1 } } : {};
+  }
+
+  /**
+   * A MongoDB query for a filter, hiding deleted documents unless the
+   * filter asks about `deleted_at` itself
+   */
+  private liveFilter(filter: Filter<T>): Record<string, any> {
+    const query = mongoFilter(filter);
+    return "deleted_at" in filter ? query : { ...query, ...this.live };
+  }
+
+  /**
+   * Options that put an operation in the transaction's session, if any
+   */
+  private sessionOptions(): { session?: ClientSession } {
+    return this.session ? { session: this.session } : {};
+  }
+
   /**
    * Get connection status
    */
@@ -407,3 +1046,96 @@ export class MongoPersistence<T extends Record<string, any>>
     return this.isConnected;
   }
 }
+
+/** MongoDB's error code for a unique index violation */
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Matches only the expected version, or any version when there is none
+ */
+function versionFilter(expected: number | undefined): Record<string, number> {
+  return expected === undefined ? {} : { [VERSION_FIELD]: expected };
+}
+
+function idOf(data: unknown): number | string | null {
+  const { _id, id } = data as Record<string, any>;
+  return _id ?? id ?? null;
+}
+
+function documentField(field: string): string {
+  return field === "id" ? "_id" : field;
+}
+
+/**
+ * A standalone server rejects transactions with an error about transaction
+ * numbers; this says what is needed instead
+ */
+function transactionError(error: unknown, collectionName: string): unknown {
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  if (code !== 20 || !/replica set/.test(String(message))) {
+    return error;
+  }
+  return new Error(
+    `MongoDB transactions on ${collectionName} need a replica set or sharded cluster; the outbox and recorded bulk writes always use one (${message})`
+  );
+}
+
+function toObjectId(value: unknown): unknown {
+  return typeof value === "string" ? new ObjectId(value) : value;
+}
+
+/**
+ * Translates a backend-neutral filter into a MongoDB query. Comparing with
+ * `null` also matches missing fields, as it does in MongoDB itself.
+ */
+function mongoFilter(filter: Filter<any>): Record<string, any> {
+  const query: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(filter)) {
+    const key = documentField(field);
+    const convert = key === "_id" ? toObjectId : (item: unknown) => item;
+    const operators: Record<string, unknown> = {};
+
+    for (const [op, operand] of Object.entries(conditionsOf(value))) {
+      if (operand !== undefined) {
+        operators[`$${op}`] = Array.isArray(operand)
+          ? operand.map(convert)
+          : convert(operand);
+      }
+    }
+    query[key] = operators;
+  }
+
+  return query;
+}
+
+/**
+ * Keyset condition selecting the documents that sort after the cursor
+ * position. Nulls sort first in ascending and last in descending order.
+ */
+function afterCursor(
+  sort: [string, SortDirection][],
+  values: unknown[]
+): Record<string, any> {
+  const branches = sort.flatMap(([field, direction], index) => {
+    const value = values[index];
+    let beyond: Record<string, any>;
+    if (direction === "asc") {
+      beyond = { [field]: value === null ? { $ne: null } : { $gt: value } };
+    } else if (value === null) {
+      return [];
+    } else {
+      beyond = { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+    }
+
+    const ties = sort
+      .slice(0, index)
+      .map(([tied], tieIndex) => ({ [tied]: values[tieIndex] }));
+    return [{ $and: [...ties, beyond] }];
+  });
+
+  return branches.length ? { $or: branches } : { _id: { $in: [] } };
+}
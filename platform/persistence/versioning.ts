@@ -0,0 +1,57 @@
+/** Field holding a record's version on versioned tables and collections */
+export const VERSION_FIELD = "version";
+
+/**
+ * Thrown when an update or upsert expected a version the stored record has
+ * moved past, meaning someone else changed it since it was read. Reload the
+ * record and apply the change again.
+ */
+export class VersionConflictError extends Error {
+  readonly table: string;
+  readonly id: string | number;
+  readonly expectedVersion: number;
+  readonly actualVersion: number;
+
+  constructor(
+    table: string,
+    id: string | number,
+    expectedVersion: number,
+    actualVersion: number
+  ) {
+    super(
+      `${table} record ${id} was changed by someone else: expected version ${expectedVersion}, found ${actualVersion}`
+    );
+    this.name = "VersionConflictError";
+    this.table = table;
+    this.id = id;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+/**
+ * Removes the version from a write's fields and returns it: the version the
+ * stored record must still have. Without one the write is unconditional.
+ */
+export function takeVersion(fields: Record<string, any>): number | undefined {
+  const expected = fields[VERSION_FIELD];
+  delete fields[VERSION_FIELD];
+  return expected ?? undefined;
+}
+
+/**
+ * Throws when a stored record's version is not the expected one. A missing
+ * record, or no expected version, is not a conflict.
+ * @throws {VersionConflictError} When the versions differ
+ */
+export function checkVersion(
+  table: string,
+  id: string | number,
+  expected: number | undefined,
+  stored: Record<string, any> | null | undefined
+): void {
+  const actual = stored?.[VERSION_FIELD];
+  if (expected !== undefined && actual !== undefined && actual !== expected) {
+    throw new VersionConflictError(table, id, expected, Number(actual));
+  }
+}